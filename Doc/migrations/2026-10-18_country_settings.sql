@@ -0,0 +1,62 @@
+-- Migration: per-country search settings (multi-country launch: UAE, KSA, Oman)
+-- Date: 2026-10-18
+-- master.COUNTRY_SETTINGS lists the countries search serves, each with its default currency.
+-- Requests without countryId / countryIds are scoped to the country of the session
+-- (USER_SESSIONS.country_code) or the CF-IPCountry / X-Country header; unknown or disabled
+-- countries fall back to the is_default row. The default currency scopes GET /api/filters configs
+-- and becomes the search displayCurrency when the request sets none (lib/search/country.ts).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS master.COUNTRY_SETTINGS (
+    country_id INT PRIMARY KEY,
+    default_currency_id INT NOT NULL,
+    is_search_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Exactly one row: fallback when the request's country cannot be detected or is not served
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+    updated_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+
+    FOREIGN KEY (country_id) REFERENCES master.COUNTRIES(country_id) ON DELETE CASCADE,
+    FOREIGN KEY (default_currency_id) REFERENCES master.CURRENCIES(currency_id),
+
+    CONSTRAINT chk_country_settings_default_enabled CHECK (NOT is_default OR is_search_enabled)
+);
+
+COMMENT ON TABLE master.COUNTRY_SETTINGS IS 'Countries served by search, with default currency; is_default is the fallback country.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_country_settings_single_default
+    ON master.COUNTRY_SETTINGS(is_default)
+    WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_country_settings_updated_at ON master.COUNTRY_SETTINGS;
+CREATE TRIGGER update_country_settings_updated_at BEFORE UPDATE ON master.COUNTRY_SETTINGS
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed: UAE (default), Saudi Arabia, Oman (only countries / currencies present)
+INSERT INTO master.COUNTRY_SETTINGS (country_id, default_currency_id, is_default)
+SELECT co.country_id, cur.currency_id, v.is_default
+FROM (VALUES
+    ('AE', 'AED', TRUE),
+    ('SA', 'SAR', FALSE),
+    ('OM', 'OMR', FALSE)
+) AS v(country_code, currency_code, is_default)
+JOIN master.COUNTRIES co ON co.country_code = v.country_code
+JOIN master.CURRENCIES cur ON cur.currency_code = v.currency_code
+ON CONFLICT (country_id) DO NOTHING;
+
+-- Filter configs for the new countries: copy the default country's configs, priced in the
+-- country's currency. filter-config-refresh then fills options and ranges per country.
+INSERT INTO master.SEARCH_FILTER_CONFIGS
+    (purpose_key, country_id, currency_id, language_code, version, is_active, config_json)
+SELECT c.purpose_key, cs.country_id, cs.default_currency_id, c.language_code, c.version, c.is_active, c.config_json
+FROM master.COUNTRY_SETTINGS cs
+JOIN master.COUNTRY_SETTINGS d ON d.is_default
+JOIN master.SEARCH_FILTER_CONFIGS c
+    ON c.country_id = d.country_id
+   AND c.currency_id = d.default_currency_id
+WHERE NOT cs.is_default
+  AND c.is_active = TRUE
+ON CONFLICT (purpose_key, country_id, currency_id, language_code, version) DO NOTHING;
+
+COMMIT;
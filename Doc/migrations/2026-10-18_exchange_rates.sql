@@ -0,0 +1,45 @@
+-- Migration: exchange rates for multi-currency price display and filtering
+-- Date: 2026-10-18
+-- One row per currency: rate_to_usd = value of 1 unit in USD (amount_usd = amount * rate_to_usd).
+-- /api/search with displayCurrency converts priceMin/priceMax into one price range per listed
+-- currency and returns each listing's price converted to that currency (lib/search/currency.ts).
+-- Keep rates current by updating rows (manually or from a rates provider); the API caches them for 10 minutes.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS master.EXCHANGE_RATES (
+    currency_id INT PRIMARY KEY,
+    rate_to_usd NUMERIC(20,10) NOT NULL,
+    source VARCHAR(50),
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+    updated_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+
+    FOREIGN KEY (currency_id) REFERENCES master.CURRENCIES(currency_id) ON DELETE CASCADE,
+
+    CONSTRAINT chk_exchange_rate_positive CHECK (rate_to_usd > 0)
+);
+
+COMMENT ON TABLE master.EXCHANGE_RATES IS 'USD value of one unit of each currency; used to convert search price ranges and display prices.';
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON master.EXCHANGE_RATES;
+CREATE TRIGGER update_exchange_rates_updated_at BEFORE UPDATE ON master.EXCHANGE_RATES
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed: USD pegs for GCC currencies, indicative rates for the rest (only currencies present in CURRENCIES)
+INSERT INTO master.EXCHANGE_RATES (currency_id, rate_to_usd, source)
+SELECT c.currency_id, v.rate_to_usd, 'seed'
+FROM (VALUES
+    ('USD', 1.0),
+    ('AED', 0.2722940000),
+    ('SAR', 0.2666670000),
+    ('QAR', 0.2747250000),
+    ('OMR', 2.6007800000),
+    ('BHD', 2.6595740000),
+    ('KWD', 3.2500000000),
+    ('EUR', 1.0800000000),
+    ('GBP', 1.2700000000)
+) AS v(currency_code, rate_to_usd)
+JOIN master.CURRENCIES c ON c.currency_code = v.currency_code
+ON CONFLICT (currency_id) DO NOTHING;
+
+COMMIT;
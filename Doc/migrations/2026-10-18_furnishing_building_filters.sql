@@ -0,0 +1,46 @@
+-- Migration: furnishing, parking, floor, building height and year-built filters
+-- Date: 2026-10-18
+-- Description: Add filter entries to every SEARCH_FILTER_CONFIGS row that does not have them yet.
+--              filter-config-refresh fills furnishingStatus options (distinct
+--              PROPERTIES.furnishing_status keys) and min/max for the PROPERTY_DETAILS ranges.
+--              Search keys: furnishingStatus; parkingMin/Max, floorMin/Max, totalFloorsMin/Max,
+--              yearBuiltMin/Max (POST body: parking, floor, totalFloors, yearBuilt as [min, max]).
+
+BEGIN;
+
+WITH new_filters AS (
+  SELECT '[
+    {"id": "furnishingStatus", "name": "Furnishing", "type": "checkbox-group", "options": [], "order": 13},
+    {"id": "parking", "name": "Parking", "type": "range", "min": 0, "max": 5, "defaultMin": 0, "defaultMax": 5, "order": 14},
+    {"id": "floor", "name": "Floor", "type": "range", "min": 0, "max": 100, "defaultMin": 0, "defaultMax": 100, "order": 15},
+    {"id": "totalFloors", "name": "Building floors", "type": "range", "min": 1, "max": 100, "defaultMin": 1, "defaultMax": 100, "order": 16},
+    {"id": "yearBuilt", "name": "Year built", "type": "range", "min": 1970, "max": 2030, "defaultMin": 1970, "defaultMax": 2030, "order": 17}
+  ]'::jsonb AS filters
+),
+updated AS (
+  SELECT
+    c.config_id,
+    c.config_json || jsonb_build_object(
+      'filters',
+      COALESCE(c.config_json->'filters', '[]'::jsonb) || COALESCE(
+        (
+          SELECT jsonb_agg(nf)
+          FROM jsonb_array_elements((SELECT filters FROM new_filters)) AS nf
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(COALESCE(c.config_json->'filters', '[]'::jsonb)) AS elem
+            WHERE elem->>'id' = nf->>'id'
+          )
+        ),
+        '[]'::jsonb
+      )
+    ) AS new_config
+  FROM master.SEARCH_FILTER_CONFIGS c
+)
+UPDATE master.SEARCH_FILTER_CONFIGS t
+SET config_json = u.new_config,
+    updated_at = NOW() AT TIME ZONE 'UTC'
+FROM updated u
+WHERE t.config_id = u.config_id;
+
+COMMIT;
@@ -0,0 +1,38 @@
+-- Migration: keyword chip → feature mappings
+-- Date: 2026-10-18
+-- A keyword chip (property.KEYWORDS.keyword_key, e.g. 'beach') mapped to features becomes an OR'd
+-- filter on the Typesense `features` field in the same ranked query, instead of a separate
+-- full-text search merged by multi-search union. Chips without a mapping stay free text.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS property.KEYWORD_FEATURES (
+    keyword_id INT NOT NULL,
+    feature_id INT NOT NULL,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC'),
+    PRIMARY KEY (keyword_id, feature_id),
+    FOREIGN KEY (keyword_id) REFERENCES property.KEYWORDS(keyword_id) ON DELETE CASCADE,
+    FOREIGN KEY (feature_id) REFERENCES property.FEATURES(feature_id) ON DELETE CASCADE
+);
+
+COMMENT ON TABLE property.KEYWORD_FEATURES IS 'Keyword chips that search as a features filter (any mapped feature matches).';
+
+CREATE INDEX IF NOT EXISTS idx_keyword_features_feature ON property.KEYWORD_FEATURES(feature_id);
+
+-- Seed mappings for features that exist (pairs whose feature_key is missing are skipped)
+INSERT INTO property.KEYWORD_FEATURES (keyword_id, feature_id)
+SELECT k.keyword_id, f.feature_id
+FROM (VALUES
+    ('beach', 'beachfront'),
+    ('beach', 'beach_access'),
+    ('golf', 'golf_course'),
+    ('golf', 'golf_view'),
+    ('marina', 'marina_view'),
+    ('waterfront', 'waterfront'),
+    ('waterfront', 'beachfront')
+) AS m(keyword_key, feature_key)
+JOIN property.KEYWORDS k ON k.keyword_key = m.keyword_key
+JOIN property.FEATURES f ON f.feature_key = m.feature_key
+ON CONFLICT DO NOTHING;
+
+COMMIT;
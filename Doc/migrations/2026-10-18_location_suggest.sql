@@ -0,0 +1,129 @@
+-- Migration: location typeahead (GET /api/locations/suggest) + stable location keys for search
+-- Date: 2026-10-18
+-- Suggestions are built from LOCATIONS translations as a city › area › community hierarchy.
+-- Each level has a stable key derived from its English names: "<country_id>/<city>[/<area>[/<community>]]",
+-- e.g. "1/dubai/dubai-marina". typesense-sync pushes a property's keys (all three levels) into
+-- Typesense `location_ids`, so search `locationIds` is an exact filter instead of free-text address matching.
+-- Suggest reads the materialized view LOCATION_SUGGEST_NODES (names and active listing counts per level,
+-- refreshed by typesense-sync), so a keystroke does not aggregate PROPERTIES.
+
+BEGIN;
+
+-- Typo tolerance (similarity) for suggestions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================
+-- Slug of one hierarchy level: lowercase ASCII words joined by "-" (NULL when empty)
+-- ============================================
+CREATE OR REPLACE FUNCTION property.location_slug(p_name TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(
+        TRIM(BOTH '-' FROM regexp_replace(LOWER(TRIM(p_name)), '[^a-z0-9]+', '-', 'g')),
+        ''
+    );
+$$ LANGUAGE SQL IMMUTABLE;
+
+COMMENT ON FUNCTION property.location_slug(TEXT) IS 'Slug used in location keys ("1/dubai/dubai-marina"); keep in sync with typesense-sync.';
+
+-- ============================================
+-- Normalize text for matching: lowercase; Arabic diacritics/tatweel stripped,
+-- alef variants → ا, alef maqsura → ي, taa marbuta → ه
+-- ============================================
+CREATE OR REPLACE FUNCTION property.normalize_search_text(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT translate(
+        regexp_replace(LOWER(TRIM(COALESCE(p_text, ''))), '[\u064B-\u065F\u0670\u0640]', '', 'g'),
+        'أإآٱىة',
+        'اااايه'
+    );
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- ============================================
+-- One row per LOCATIONS row with its level keys (city / area / community)
+-- ============================================
+CREATE OR REPLACE VIEW property.LOCATION_KEYS AS
+SELECT
+    l.location_id,
+    l.country_id,
+    l.translations->'en'->>'city' AS city_en,
+    l.translations->'en'->>'area' AS area_en,
+    l.translations->'en'->>'community' AS community_en,
+    COALESCE(l.translations->'ar'->>'city', l.translations->'en'->>'city') AS city_ar,
+    COALESCE(l.translations->'ar'->>'area', l.translations->'en'->>'area') AS area_ar,
+    COALESCE(l.translations->'ar'->>'community', l.translations->'en'->>'community') AS community_ar,
+    l.country_id || '/' || property.location_slug(l.translations->'en'->>'city') AS city_key,
+    l.country_id || '/' || property.location_slug(l.translations->'en'->>'city')
+        || '/' || property.location_slug(l.translations->'en'->>'area') AS area_key,
+    l.country_id || '/' || property.location_slug(l.translations->'en'->>'city')
+        || '/' || property.location_slug(l.translations->'en'->>'area')
+        || '/' || property.location_slug(l.translations->'en'->>'community') AS community_key
+FROM property.LOCATIONS l;
+
+COMMENT ON VIEW property.LOCATION_KEYS IS 'Stable city/area/community keys per location (NULL when a level name is missing); used by location suggest and typesense-sync.';
+
+-- ============================================
+-- Suggest nodes: one row per level key and purpose (purpose_scope '' = all purposes) with its
+-- active listing count; levels without active listings are left out
+-- ============================================
+CREATE MATERIALIZED VIEW IF NOT EXISTS property.LOCATION_SUGGEST_NODES AS
+WITH active AS (
+    SELECT p.location_id, pur.purpose_key
+    FROM property.PROPERTIES p
+    LEFT JOIN property.PURPOSES pur ON pur.purpose_id = p.purpose_id
+    WHERE LOWER(TRIM(COALESCE(p.status, ''))) = 'active'
+),
+levels AS (
+    SELECT 'city' AS level, city_key AS location_key, country_id, location_id,
+        city_en AS name_en, city_ar AS name_ar, city_en AS path_en, city_ar AS path_ar
+    FROM property.LOCATION_KEYS
+    WHERE city_key IS NOT NULL
+    UNION ALL
+    SELECT 'area', area_key, country_id, location_id, area_en, area_ar,
+        city_en || ' › ' || area_en, city_ar || ' › ' || area_ar
+    FROM property.LOCATION_KEYS
+    WHERE area_key IS NOT NULL
+    UNION ALL
+    SELECT 'community', community_key, country_id, location_id, community_en, community_ar,
+        city_en || ' › ' || area_en || ' › ' || community_en,
+        city_ar || ' › ' || area_ar || ' › ' || community_ar
+    FROM property.LOCATION_KEYS
+    WHERE community_key IS NOT NULL
+),
+counted AS (
+    SELECT
+        l.level,
+        l.location_key,
+        l.country_id,
+        CASE WHEN GROUPING(a.purpose_key) = 1 THEN '' ELSE a.purpose_key END AS purpose_scope,
+        MIN(l.name_en) AS name_en,
+        MIN(l.name_ar) AS name_ar,
+        MIN(l.path_en) AS path_en,
+        MIN(l.path_ar) AS path_ar,
+        COUNT(*)::int AS listing_count
+    FROM levels l
+    JOIN active a ON a.location_id = l.location_id
+    GROUP BY GROUPING SETS (
+        (l.level, l.location_key, l.country_id),
+        (l.level, l.location_key, l.country_id, a.purpose_key)
+    )
+    HAVING GROUPING(a.purpose_key) = 1 OR a.purpose_key IS NOT NULL
+)
+SELECT
+    c.*,
+    property.normalize_search_text(c.name_en) AS name_en_norm,
+    property.normalize_search_text(c.name_ar) AS name_ar_norm
+FROM counted c;
+
+COMMENT ON MATERIALIZED VIEW property.LOCATION_SUGGEST_NODES IS 'Location suggest names and active listing counts per level and purpose; refreshed (CONCURRENTLY) by typesense-sync.';
+
+-- REFRESH ... CONCURRENTLY needs a unique index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_location_suggest_nodes_key
+    ON property.LOCATION_SUGGEST_NODES (location_key, purpose_scope);
+
+-- Name matching: LIKE and word similarity (<%) on the normalized names
+CREATE INDEX IF NOT EXISTS idx_location_suggest_nodes_name_en_trgm
+    ON property.LOCATION_SUGGEST_NODES USING GIN (name_en_norm gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_location_suggest_nodes_name_ar_trgm
+    ON property.LOCATION_SUGGEST_NODES USING GIN (name_ar_norm gin_trgm_ops);
+
+COMMIT;
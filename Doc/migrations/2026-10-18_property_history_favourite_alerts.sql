@@ -0,0 +1,102 @@
+-- Migration: property price/status history + favourite change alerts
+-- Date: 2026-10-18
+-- Every insert into property.PROPERTIES and every price or status change is recorded in
+-- property.PROPERTY_HISTORY by trigger. POST /api/jobs/favourite-alerts (cron) classifies new
+-- history rows (price drop, back on market, sold, rented), queues one notification per user who
+-- liked the property (user_activity.FAVOURITE_ALERTS), then emails the queue in the user's language.
+-- Users opt out with login.users.favourite_alerts_enabled = FALSE (PATCH /api/users/me).
+
+BEGIN;
+
+-- ============================================
+-- History
+-- ============================================
+CREATE TABLE IF NOT EXISTS property.PROPERTY_HISTORY (
+    history_id BIGSERIAL PRIMARY KEY,
+    property_id INT NOT NULL,
+    price DECIMAL(15,2),
+    previous_price DECIMAL(15,2),
+    currency_id INT,
+    status VARCHAR(20),
+    previous_status VARCHAR(20),
+    changed_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+    -- Set by the favourite-alerts job once the row has been classified/queued
+    alerts_processed_at TIMESTAMP NULL,
+
+    FOREIGN KEY (property_id) REFERENCES property.PROPERTIES(property_id) ON DELETE CASCADE
+);
+
+COMMENT ON TABLE property.PROPERTY_HISTORY IS 'Price and status snapshots per property (trigger on PROPERTIES). First row per property has NULL previous_*.';
+
+CREATE INDEX IF NOT EXISTS idx_property_history_property ON property.PROPERTY_HISTORY(property_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_property_history_unprocessed
+    ON property.PROPERTY_HISTORY(history_id)
+    WHERE alerts_processed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION property.record_property_history()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO property.PROPERTY_HISTORY (property_id, price, currency_id, status)
+        VALUES (NEW.property_id, NEW.price, NEW.currency_id, NEW.status);
+    ELSIF NEW.price IS DISTINCT FROM OLD.price
+       OR LOWER(TRIM(COALESCE(NEW.status, ''))) IS DISTINCT FROM LOWER(TRIM(COALESCE(OLD.status, ''))) THEN
+        INSERT INTO property.PROPERTY_HISTORY
+            (property_id, price, previous_price, currency_id, status, previous_status)
+        VALUES (NEW.property_id, NEW.price, OLD.price, NEW.currency_id, NEW.status, OLD.status);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_record_property_history ON property.PROPERTIES;
+CREATE TRIGGER trg_record_property_history
+    AFTER INSERT OR UPDATE OF price, status ON property.PROPERTIES
+    FOR EACH ROW EXECUTE FUNCTION property.record_property_history();
+
+-- Baseline snapshot for existing listings (already processed: nothing to alert on)
+INSERT INTO property.PROPERTY_HISTORY (property_id, price, currency_id, status, changed_at, alerts_processed_at)
+SELECT p.property_id, p.price, p.currency_id, p.status,
+       COALESCE(p.created_at, NOW() AT TIME ZONE 'UTC'), NOW() AT TIME ZONE 'UTC'
+FROM property.PROPERTIES p
+WHERE NOT EXISTS (
+    SELECT 1 FROM property.PROPERTY_HISTORY h WHERE h.property_id = p.property_id
+);
+
+-- ============================================
+-- Per-user opt-out
+-- ============================================
+ALTER TABLE login.users
+    ADD COLUMN IF NOT EXISTS favourite_alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- ============================================
+-- Notification queue
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_activity.FAVOURITE_ALERTS (
+    alert_id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL,
+    property_id INT NOT NULL,
+    history_id BIGINT NOT NULL,
+    alert_type VARCHAR(20) NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending',
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT NULL,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+    sent_at TIMESTAMP NULL,
+
+    FOREIGN KEY (user_id) REFERENCES login.users(id) ON DELETE CASCADE,
+    FOREIGN KEY (property_id) REFERENCES property.PROPERTIES(property_id) ON DELETE CASCADE,
+    FOREIGN KEY (history_id) REFERENCES property.PROPERTY_HISTORY(history_id) ON DELETE CASCADE,
+
+    CONSTRAINT uq_favourite_alert_user_history UNIQUE (user_id, history_id),
+    CONSTRAINT chk_favourite_alert_type CHECK (alert_type IN ('price_drop', 'back_on_market', 'sold', 'rented')),
+    CONSTRAINT chk_favourite_alert_status CHECK (status IN ('pending', 'sent', 'failed', 'skipped'))
+);
+
+COMMENT ON TABLE user_activity.FAVOURITE_ALERTS IS 'Queued email notifications for changes to liked properties (favourite-alerts job).';
+
+CREATE INDEX IF NOT EXISTS idx_favourite_alerts_pending
+    ON user_activity.FAVOURITE_ALERTS(user_id, created_at)
+    WHERE status = 'pending';
+
+COMMIT;
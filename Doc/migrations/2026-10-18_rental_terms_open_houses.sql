@@ -0,0 +1,73 @@
+-- Migration: move-in date, rent terms and open-house slots
+-- Date: 2026-10-18
+-- property.PROPERTIES gains available_from (move-in date; NULL = available now) and, for for_rent
+-- listings, rent_frequency (yearly | monthly) and number_of_cheques (UAE rents are quoted per year
+-- or month and paid in 1–12 post-dated cheques). property.PROPERTY_OPEN_HOUSES holds viewing slots.
+-- typesense-sync indexes available_from and upcoming slots; /api/search filters on
+-- availableAfter / availableBefore.
+
+BEGIN;
+
+-- ============================================
+-- Availability and rent terms
+-- ============================================
+ALTER TABLE property.PROPERTIES
+    ADD COLUMN IF NOT EXISTS available_from DATE NULL,
+    ADD COLUMN IF NOT EXISTS rent_frequency VARCHAR(20) NULL,
+    ADD COLUMN IF NOT EXISTS number_of_cheques INT NULL;
+
+ALTER TABLE property.PROPERTIES
+    DROP CONSTRAINT IF EXISTS chk_properties_rent_frequency,
+    ADD CONSTRAINT chk_properties_rent_frequency
+        CHECK (rent_frequency IS NULL OR rent_frequency IN ('yearly', 'monthly')),
+    DROP CONSTRAINT IF EXISTS chk_properties_number_of_cheques,
+    ADD CONSTRAINT chk_properties_number_of_cheques
+        CHECK (number_of_cheques IS NULL OR number_of_cheques BETWEEN 1 AND 12);
+
+COMMENT ON COLUMN property.PROPERTIES.available_from IS 'Move-in date; NULL means available now.';
+COMMENT ON COLUMN property.PROPERTIES.rent_frequency IS 'for_rent only: price is per year (yearly) or per month (monthly).';
+COMMENT ON COLUMN property.PROPERTIES.number_of_cheques IS 'for_rent only: number of cheques the rent is paid in (1–12).';
+
+-- ============================================
+-- Open houses
+-- ============================================
+CREATE TABLE IF NOT EXISTS property.PROPERTY_OPEN_HOUSES (
+    open_house_id SERIAL PRIMARY KEY,
+    property_id INT NOT NULL,
+    starts_at TIMESTAMP NOT NULL,
+    ends_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC'),
+
+    FOREIGN KEY (property_id) REFERENCES property.PROPERTIES(property_id) ON DELETE CASCADE,
+    CONSTRAINT chk_property_open_houses_window CHECK (ends_at > starts_at)
+);
+
+COMMENT ON TABLE property.PROPERTY_OPEN_HOUSES IS 'Open-house viewing slots (UTC). Past slots are kept but not indexed or returned.';
+
+CREATE INDEX IF NOT EXISTS idx_property_open_houses_property
+    ON property.PROPERTY_OPEN_HOUSES(property_id, starts_at);
+
+-- Slot changes bump the listing's updated_at so typesense-sync re-indexes it
+CREATE OR REPLACE FUNCTION property.touch_property_on_open_house_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE property.PROPERTIES
+        SET updated_at = NOW() AT TIME ZONE 'UTC'
+        WHERE property_id = NEW.property_id;
+    END IF;
+    IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND NEW.property_id <> OLD.property_id) THEN
+        UPDATE property.PROPERTIES
+        SET updated_at = NOW() AT TIME ZONE 'UTC'
+        WHERE property_id = OLD.property_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_touch_property_on_open_house_change ON property.PROPERTY_OPEN_HOUSES;
+CREATE TRIGGER trg_touch_property_on_open_house_change
+    AFTER INSERT OR UPDATE OR DELETE ON property.PROPERTY_OPEN_HOUSES
+    FOR EACH ROW EXECUTE FUNCTION property.touch_property_on_open_house_change();
+
+COMMIT;
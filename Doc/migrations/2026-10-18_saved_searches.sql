@@ -0,0 +1,45 @@
+-- Migration: saved searches + new-listing alerts
+-- Date: 2026-10-18
+-- Signed-in users save a search (normalized SearchFilterState + NL q) under a name via /api/saved-searches.
+-- POST /api/jobs/saved-search-alerts (cron) re-runs due searches for listings with Typesense
+-- created_at > alert_watermark and emails matches; alert_watermark then advances to the newest created_at sent.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_activity.SAVED_SEARCHES (
+    saved_search_id SERIAL PRIMARY KEY,
+    user_id UUID NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    -- SearchFilterState as built from the /api/search body (before q is resolved)
+    filter_state JSONB NOT NULL,
+    q TEXT,
+    -- FALSE = nl_query=false (q treated as keyword)
+    nl_query BOOLEAN NOT NULL DEFAULT TRUE,
+    alert_frequency VARCHAR(10) NOT NULL DEFAULT 'daily',
+    alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Epoch seconds; listings created after this are "new" for the next alert
+    alert_watermark BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+    last_checked_at TIMESTAMP NULL,
+    last_alerted_at TIMESTAMP NULL,
+    -- One-click unsubscribe link token (no login)
+    unsubscribe_token VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+    updated_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+
+    FOREIGN KEY (user_id) REFERENCES login.users(id) ON DELETE CASCADE,
+
+    CONSTRAINT chk_saved_search_frequency CHECK (alert_frequency IN ('instant', 'daily', 'weekly'))
+);
+
+COMMENT ON TABLE user_activity.SAVED_SEARCHES IS 'Named saved searches per user; alert job emails new listings at instant/daily/weekly frequency.';
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON user_activity.SAVED_SEARCHES(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_due
+    ON user_activity.SAVED_SEARCHES(last_checked_at NULLS FIRST)
+    WHERE alerts_enabled = TRUE;
+
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON user_activity.SAVED_SEARCHES;
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON user_activity.SAVED_SEARCHES
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
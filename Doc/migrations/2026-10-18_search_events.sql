@@ -0,0 +1,42 @@
+-- Migration: search analytics events
+-- Date: 2026-10-18
+-- One row per /api/search and /api/search/count call, written in batches by the API
+-- (lib/search/searchEvents.ts). Read by GET /api/admin/search/analytics (analytics:read).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_activity.SEARCH_EVENTS (
+    search_event_id BIGSERIAL PRIMARY KEY,
+    -- 'search' | 'count'
+    endpoint VARCHAR(20) NOT NULL,
+    session_id VARCHAR(255) NULL,
+    user_id UUID NULL,
+    purpose_key VARCHAR(50) NULL,
+    country_id INTEGER NULL,
+    -- Request-level SearchFilterState (derived fields such as per-currency ranges removed)
+    filter_state JSONB NOT NULL DEFAULT '{}'::jsonb,
+    q TEXT NULL,
+    -- Lowercased, whitespace-collapsed q for grouping
+    q_normalized TEXT NULL,
+    nl_used BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Typesense parsed_nl_query.generated_params when NL was used
+    nl_generated_params JSONB NULL,
+    found INTEGER NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+
+    FOREIGN KEY (user_id) REFERENCES login.users(id) ON DELETE SET NULL,
+
+    CONSTRAINT chk_search_events_endpoint CHECK (endpoint IN ('search', 'count'))
+);
+
+COMMENT ON TABLE user_activity.SEARCH_EVENTS IS 'Search and count calls (filters, q, NL interpretation, found, latency) for product analytics.';
+
+CREATE INDEX IF NOT EXISTS idx_search_events_created ON user_activity.SEARCH_EVENTS(created_at);
+CREATE INDEX IF NOT EXISTS idx_search_events_q
+    ON user_activity.SEARCH_EVENTS(q_normalized, created_at)
+    WHERE q_normalized IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_search_events_purpose_country
+    ON user_activity.SEARCH_EVENTS(purpose_key, country_id, created_at);
+
+COMMIT;
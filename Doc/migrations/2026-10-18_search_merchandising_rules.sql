@@ -0,0 +1,51 @@
+-- Migration: search merchandising rules (pin / bury listings)
+-- Date: 2026-10-18
+-- Rules managed via /api/admin/search/merchandising. A rule matches a /api/search request by
+-- query text (match_query: the phrase appears in q / location / keywords) and/or by
+-- location key (match_location_id in locationIds), optionally scoped to a country and purpose,
+-- between starts_at and ends_at. Matching rules become Typesense pinned_hits / hidden_hits.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS master.SEARCH_MERCHANDISING_RULES (
+    rule_id SERIAL PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    -- Phrase, matched case- and Arabic-variant-insensitively (e.g. 'Palm Jumeirah')
+    match_query VARCHAR(200) NULL,
+    -- LOCATION_KEYS key, as in Typesense location_ids
+    match_location_id VARCHAR(200) NULL,
+    country_id INTEGER NULL,
+    purpose_key VARCHAR(50) NULL,
+    -- Listed in order: first id is pinned to position 1
+    pinned_property_ids INTEGER[] NOT NULL DEFAULT '{}',
+    hidden_property_ids INTEGER[] NOT NULL DEFAULT '{}',
+    -- Higher priority rules place their pins first
+    priority INTEGER NOT NULL DEFAULT 0,
+    starts_at TIMESTAMP NULL,
+    ends_at TIMESTAMP NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID NULL,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+    updated_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+
+    FOREIGN KEY (country_id) REFERENCES master.COUNTRIES(country_id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES login.users(id) ON DELETE SET NULL,
+
+    CONSTRAINT chk_merch_rule_match CHECK (match_query IS NOT NULL OR match_location_id IS NOT NULL),
+    CONSTRAINT chk_merch_rule_action CHECK (
+        cardinality(pinned_property_ids) > 0 OR cardinality(hidden_property_ids) > 0
+    ),
+    CONSTRAINT chk_merch_rule_schedule CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_merch_rules_live
+    ON master.SEARCH_MERCHANDISING_RULES(ends_at)
+    WHERE is_active = TRUE;
+
+COMMENT ON TABLE master.SEARCH_MERCHANDISING_RULES IS 'Pin/bury rules applied to /api/search as Typesense pinned_hits / hidden_hits.';
+
+DROP TRIGGER IF EXISTS update_search_merchandising_rules_updated_at ON master.SEARCH_MERCHANDISING_RULES;
+CREATE TRIGGER update_search_merchandising_rules_updated_at BEFORE UPDATE ON master.SEARCH_MERCHANDISING_RULES
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
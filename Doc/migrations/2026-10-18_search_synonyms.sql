@@ -0,0 +1,55 @@
+-- Migration: admin-managed search synonyms
+-- Date: 2026-10-18
+-- Synonym definitions for the Typesense `properties` collection, managed via /api/admin/search/synonyms.
+-- Postgres is the source of truth: the API pushes each change to Typesense, and typesense-sync
+-- (force=true, or when it creates the collection) re-applies every active row and removes others.
+-- Multi-way: root NULL, synonyms ["flat", "apartment"] are interchangeable.
+-- One-way: root "penthouse", synonyms ["apartment"] → searching the root also matches the synonyms.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS master.SEARCH_SYNONYMS (
+    synonym_id SERIAL PRIMARY KEY,
+    -- Typesense synonym id (e.g. 'flat-apartment')
+    synonym_key VARCHAR(100) NOT NULL UNIQUE,
+    root VARCHAR(200) NULL,
+    synonyms TEXT[] NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID NULL,
+    created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+    updated_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') NOT NULL,
+
+    FOREIGN KEY (created_by) REFERENCES login.users(id) ON DELETE SET NULL,
+
+    CONSTRAINT chk_search_synonym_key CHECK (synonym_key ~ '^[a-z0-9][a-z0-9_-]*$'),
+    CONSTRAINT chk_search_synonym_terms CHECK (
+        (root IS NULL AND cardinality(synonyms) >= 2)
+        OR (root IS NOT NULL AND cardinality(synonyms) >= 1)
+    )
+);
+
+COMMENT ON TABLE master.SEARCH_SYNONYMS IS 'Typesense synonyms for the properties collection; re-applied by typesense-sync after a rebuild.';
+
+DROP TRIGGER IF EXISTS update_search_synonyms_updated_at ON master.SEARCH_SYNONYMS;
+CREATE TRIGGER update_search_synonyms_updated_at BEFORE UPDATE ON master.SEARCH_SYNONYMS
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO master.SEARCH_SYNONYMS (synonym_key, root, synonyms) VALUES
+    ('flat-apartment', NULL, ARRAY['flat', 'apartment']),
+    ('shaqqa-apartment', NULL, ARRAY['شقة', 'apartment']),
+    ('villa-arabic', NULL, ARRAY['فيلا', 'villa'])
+ON CONFLICT (synonym_key) DO NOTHING;
+
+INSERT INTO login.permissions (resource, action, description) VALUES
+    ('search', 'manage', 'Manage search synonyms and merchandising')
+ON CONFLICT (resource, action) DO NOTHING;
+
+-- Admin role has every permission
+INSERT INTO login.role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM login.roles r
+JOIN login.permissions p ON p.resource = 'search' AND p.action = 'manage'
+WHERE r.name = 'admin'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import {
+  getFilterUsage,
+  getTopSearchQueries,
+  getZeroResultQueries,
+  type SearchAnalyticsScope,
+} from '@/lib/db/queries/searchEvents';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { searchAnalyticsQuerySchema, validateQuery } from '@/lib/security/validation';
+import { getNlInterpretationCacheStats } from '@/lib/search/nlCache';
+import { withAuthorization, requirePermission } from '@/lib/authz/middleware';
+import { JWTPayload } from '@/lib/types/auth';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_DAYS = 7;
+const DEFAULT_LIMIT = 20;
+
+/**
+ * GET /api/admin/search/analytics
+ * Top queries, zero-result queries and filter usage per purpose/country for a date range
+ * (from inclusive, to exclusive; default the last 7 days). Counts /api/search calls, first pages only.
+ * nlCache holds this instance's NL interpretation cache hits/misses since it started.
+ */
+async function handler(request: NextRequest, _user: JWTPayload) {
+  try {
+    void _user;
+    const parsed = validateQuery(request, searchAnalyticsQuerySchema);
+
+    const to = parsed.to ? new Date(parsed.to) : new Date();
+    const from = parsed.from
+      ? new Date(parsed.from)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      throw new AppError('from must be before to', 400, 'INVALID_DATE_RANGE');
+    }
+
+    const scope: SearchAnalyticsScope = {
+      from,
+      to,
+      purposeKey: parsed.purpose ?? null,
+      countryId: parsed.countryId ?? null,
+    };
+    const limit = parsed.limit ?? DEFAULT_LIMIT;
+
+    const [topQueries, zeroResultQueries, filterUsage] = await Promise.all([
+      getTopSearchQueries(scope, limit),
+      getZeroResultQueries(scope, limit),
+      getFilterUsage(scope),
+    ]);
+
+    return createSuccessResponse({
+      range: { from: from.toISOString(), to: to.toISOString() },
+      topQueries: topQueries.map((r) => ({
+        q: r.q,
+        searches: r.searches,
+        zeroResults: r.zero_results,
+        avgFound: r.avg_found,
+        nlShare: r.nl_share,
+      })),
+      zeroResultQueries: zeroResultQueries.map((r) => ({
+        q: r.q,
+        searches: r.searches,
+        lastSearchedAt: r.last_searched_at,
+      })),
+      filterUsage: filterUsage.map((r) => ({
+        purpose: r.purpose_key,
+        countryId: r.country_id,
+        filter: r.filter,
+        uses: r.uses,
+        searches: r.searches,
+        share: r.searches > 0 ? Math.round((r.uses / r.searches) * 100) / 100 : 0,
+      })),
+      nlCache: getNlInterpretationCacheStats(),
+    });
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const GET = withAuthorization(requirePermission('analytics', 'read'))(handler);
@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import {
+  deleteMerchandisingRule,
+  getMerchandisingRule,
+  updateMerchandisingRule,
+} from '@/lib/db/queries/merchandisingRules';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import {
+  merchandisingRuleIdSchema,
+  updateMerchandisingRuleSchema,
+  validateBody,
+  validateParams,
+} from '@/lib/security/validation';
+import {
+  assertValidMerchandisingRule,
+  invalidateMerchandisingRules,
+  toMerchandisingRuleResponse,
+} from '@/lib/search/merchandising';
+import { withAuthorization, requirePermission } from '@/lib/authz/middleware';
+import { JWTPayload } from '@/lib/types/auth';
+
+export const dynamic = 'force-dynamic';
+
+function notFound(): AppError {
+  return new AppError('Merchandising rule not found', 404, 'MERCHANDISING_RULE_NOT_FOUND');
+}
+
+function toDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value ? new Date(value) : null;
+}
+
+/**
+ * GET / PATCH / DELETE /api/admin/search/merchandising/{id}
+ * PATCH takes any POST field; null clears matchQuery, matchLocationId, countryId, purpose,
+ * startsAt and endsAt.
+ */
+async function handler(
+  request: NextRequest,
+  _user: JWTPayload,
+  { params }: { params: { id: string } }
+) {
+  try {
+    void _user;
+    const { id } = validateParams(params, merchandisingRuleIdSchema);
+
+    if (request.method === 'GET') {
+      const row = await getMerchandisingRule(id);
+      if (!row) throw notFound();
+      return createSuccessResponse({ rule: toMerchandisingRuleResponse(row) });
+    }
+
+    if (request.method === 'PATCH') {
+      const body = await validateBody(request, updateMerchandisingRuleSchema);
+      const existing = await getMerchandisingRule(id);
+      if (!existing) throw notFound();
+
+      const updates = {
+        name: body.name,
+        matchQuery: body.matchQuery,
+        matchLocationId: body.matchLocationId,
+        countryId: body.countryId,
+        purposeKey: body.purpose,
+        pinnedPropertyIds: body.pinnedPropertyIds,
+        hiddenPropertyIds: body.hiddenPropertyIds,
+        priority: body.priority,
+        startsAt: toDate(body.startsAt),
+        endsAt: toDate(body.endsAt),
+        isActive: body.isActive,
+      };
+      assertValidMerchandisingRule({
+        matchQuery: updates.matchQuery !== undefined ? updates.matchQuery : existing.match_query,
+        matchLocationId:
+          updates.matchLocationId !== undefined ? updates.matchLocationId : existing.match_location_id,
+        pinnedPropertyIds: updates.pinnedPropertyIds ?? existing.pinned_property_ids,
+        hiddenPropertyIds: updates.hiddenPropertyIds ?? existing.hidden_property_ids,
+        startsAt:
+          updates.startsAt !== undefined ? updates.startsAt : (toDate(existing.starts_at) ?? null),
+        endsAt: updates.endsAt !== undefined ? updates.endsAt : (toDate(existing.ends_at) ?? null),
+      });
+
+      const row = await updateMerchandisingRule(id, updates);
+      if (!row) throw notFound();
+      invalidateMerchandisingRules();
+
+      return createSuccessResponse({ rule: toMerchandisingRuleResponse(row) });
+    }
+
+    if (request.method === 'DELETE') {
+      const deleted = await deleteMerchandisingRule(id);
+      if (!deleted) throw notFound();
+      invalidateMerchandisingRules();
+
+      return createSuccessResponse({ message: 'Merchandising rule deleted successfully' });
+    }
+
+    throw new AppError('Method not allowed', 405, 'METHOD_NOT_ALLOWED');
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const GET = withAuthorization(requirePermission('search', 'manage'))(handler);
+export const PATCH = withAuthorization(requirePermission('search', 'manage'))(handler);
+export const DELETE = withAuthorization(requirePermission('search', 'manage'))(handler);
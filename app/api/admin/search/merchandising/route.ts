@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { createMerchandisingRule, listMerchandisingRules } from '@/lib/db/queries/merchandisingRules';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { createMerchandisingRuleSchema, validateBody } from '@/lib/security/validation';
+import {
+  assertValidMerchandisingRule,
+  invalidateMerchandisingRules,
+  toMerchandisingRuleResponse,
+} from '@/lib/search/merchandising';
+import { withAuthorization, requirePermission } from '@/lib/authz/middleware';
+import { JWTPayload } from '@/lib/types/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/search/merchandising – all rules with their current status
+ * (inactive | scheduled | live | ended).
+ * POST /api/admin/search/merchandising – { name, matchQuery?, matchLocationId?, countryId?, purpose?,
+ * pinnedPropertyIds?, hiddenPropertyIds?, priority?, startsAt?, endsAt?, isActive? }.
+ * A rule needs a match (query phrase and/or location key) and at least one pinned or hidden id.
+ */
+async function handler(request: NextRequest, user: JWTPayload) {
+  try {
+    if (request.method === 'GET') {
+      const rows = await listMerchandisingRules();
+      return createSuccessResponse({ rules: rows.map(toMerchandisingRuleResponse) });
+    }
+
+    if (request.method === 'POST') {
+      const body = await validateBody(request, createMerchandisingRuleSchema);
+      const input = {
+        name: body.name,
+        matchQuery: body.matchQuery ?? null,
+        matchLocationId: body.matchLocationId ?? null,
+        countryId: body.countryId ?? null,
+        purposeKey: body.purpose ?? null,
+        pinnedPropertyIds: body.pinnedPropertyIds ?? [],
+        hiddenPropertyIds: body.hiddenPropertyIds ?? [],
+        priority: body.priority ?? 0,
+        startsAt: body.startsAt ? new Date(body.startsAt) : null,
+        endsAt: body.endsAt ? new Date(body.endsAt) : null,
+        isActive: body.isActive ?? true,
+      };
+      assertValidMerchandisingRule(input);
+
+      const row = await createMerchandisingRule({ ...input, createdBy: user.userId });
+      invalidateMerchandisingRules();
+
+      return createSuccessResponse({ rule: toMerchandisingRuleResponse(row) }, 201);
+    }
+
+    throw new AppError('Method not allowed', 405, 'METHOD_NOT_ALLOWED');
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const GET = withAuthorization(requirePermission('search', 'manage'))(handler);
+export const POST = withAuthorization(requirePermission('search', 'manage'))(handler);
@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server';
+import {
+  deleteSearchSynonym,
+  getSearchSynonym,
+  updateSearchSynonym,
+} from '@/lib/db/queries/searchSynonyms';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import {
+  searchSynonymIdSchema,
+  updateSearchSynonymSchema,
+  validateBody,
+  validateParams,
+} from '@/lib/security/validation';
+import {
+  applySearchSynonym,
+  removeSearchSynonym,
+  toSearchSynonymResponse,
+} from '@/lib/search/searchSynonyms';
+import { withAuthorization, requirePermission } from '@/lib/authz/middleware';
+import { JWTPayload } from '@/lib/types/auth';
+
+export const dynamic = 'force-dynamic';
+
+function notFound(): AppError {
+  return new AppError('Synonym not found', 404, 'SYNONYM_NOT_FOUND');
+}
+
+/**
+ * GET / PATCH / DELETE /api/admin/search/synonyms/{id}
+ * PATCH: { root?, synonyms?, isActive? } (the key is fixed; it is the Typesense synonym id).
+ * Deactivating removes the synonym from Typesense but keeps the row.
+ */
+async function handler(
+  request: NextRequest,
+  _user: JWTPayload,
+  { params }: { params: { id: string } }
+) {
+  try {
+    void _user;
+    const { id } = validateParams(params, searchSynonymIdSchema);
+
+    if (request.method === 'GET') {
+      const row = await getSearchSynonym(id);
+      if (!row) throw notFound();
+      return createSuccessResponse({ synonym: toSearchSynonymResponse(row) });
+    }
+
+    if (request.method === 'PATCH') {
+      const body = await validateBody(request, updateSearchSynonymSchema);
+      const existing = await getSearchSynonym(id);
+      if (!existing) throw notFound();
+
+      const root = body.root !== undefined ? body.root : existing.root;
+      const synonyms = body.synonyms ?? existing.synonyms;
+      if (!root && synonyms.length < 2) {
+        throw new AppError('Multi-way synonyms need at least two terms', 400, 'INVALID_SYNONYM');
+      }
+
+      const row = await updateSearchSynonym(id, {
+        root: body.root,
+        synonyms: body.synonyms,
+        isActive: body.isActive,
+      });
+      if (!row) throw notFound();
+      const applied = await applySearchSynonym(row);
+
+      return createSuccessResponse({ synonym: toSearchSynonymResponse(row), applied });
+    }
+
+    if (request.method === 'DELETE') {
+      const row = await deleteSearchSynonym(id);
+      if (!row) throw notFound();
+      const applied = await removeSearchSynonym(row.synonym_key);
+
+      return createSuccessResponse({ message: 'Synonym deleted successfully', applied });
+    }
+
+    throw new AppError('Method not allowed', 405, 'METHOD_NOT_ALLOWED');
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const GET = withAuthorization(requirePermission('search', 'manage'))(handler);
+export const PATCH = withAuthorization(requirePermission('search', 'manage'))(handler);
+export const DELETE = withAuthorization(requirePermission('search', 'manage'))(handler);
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import {
+  createSearchSynonym,
+  getSearchSynonymByKey,
+  listSearchSynonyms,
+} from '@/lib/db/queries/searchSynonyms';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { createSearchSynonymSchema, validateBody } from '@/lib/security/validation';
+import { applySearchSynonym, toSearchSynonymResponse } from '@/lib/search/searchSynonyms';
+import { withAuthorization, requirePermission } from '@/lib/authz/middleware';
+import { JWTPayload } from '@/lib/types/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/search/synonyms – all synonyms (active and inactive).
+ * POST /api/admin/search/synonyms – { key, root?, synonyms, isActive? }. With root the synonym is
+ * one-way (searching root also matches synonyms), otherwise all terms are interchangeable.
+ * Saved in Postgres, then pushed to Typesense; `applied: false` means the push failed and the
+ * next forced typesense-sync run will apply it.
+ */
+async function handler(request: NextRequest, user: JWTPayload) {
+  try {
+    if (request.method === 'GET') {
+      const rows = await listSearchSynonyms();
+      return createSuccessResponse({ synonyms: rows.map(toSearchSynonymResponse) });
+    }
+
+    if (request.method === 'POST') {
+      const body = await validateBody(request, createSearchSynonymSchema);
+
+      if (await getSearchSynonymByKey(body.key)) {
+        throw new AppError('A synonym with this key already exists', 409, 'SYNONYM_KEY_EXISTS');
+      }
+
+      const row = await createSearchSynonym({
+        synonymKey: body.key,
+        root: body.root ?? null,
+        synonyms: body.synonyms,
+        isActive: body.isActive ?? true,
+        createdBy: user.userId,
+      });
+      const applied = await applySearchSynonym(row);
+
+      return createSuccessResponse({ synonym: toSearchSynonymResponse(row), applied }, 201);
+    }
+
+    throw new AppError('Method not allowed', 405, 'METHOD_NOT_ALLOWED');
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const GET = withAuthorization(requirePermission('search', 'manage'))(handler);
+export const POST = withAuthorization(requirePermission('search', 'manage'))(handler);
@@ -2,11 +2,11 @@ import { NextRequest } from 'next/server';
 
 export const dynamic = 'force-dynamic';
 import {
-  AppError,
   createErrorResponse,
   createPaginatedResponse,
 } from '@/lib/utils/errors';
 import { featuredQuerySchema, validateQuery } from '@/lib/security/validation';
+import { resolveRequestCountry } from '@/lib/search/country';
 import { PROPERTIES_QUERY_BY } from '@/lib/search/typesenseSchema';
 import { toMediaItem } from '@/lib/search/propertyMedia';
 import { pickLocalizedTitle } from '@/lib/search/unwrapTitle';
@@ -22,11 +22,8 @@ function getLanguageCode(request: NextRequest): string {
 export async function GET(request: NextRequest) {
   try {
     const parsed = validateQuery(request, featuredQuerySchema);
-    const countryId = parsed.countryId;
+    const { countryId } = await resolveRequestCountry(request, parsed.countryId);
     const page = parsed.page ?? 1;
-    if (countryId === undefined) {
-      throw new AppError('countryId is required', 400, 'COUNTRY_ID_REQUIRED');
-    }
     const limit = parsed.limit || 25;
     const languageCode = getLanguageCode(request);
     const lang = languageCode === 'ar' ? 'ar' : 'en';
@@ -12,11 +12,20 @@ import { pickLocalizedTitle } from '@/lib/search/unwrapTitle';
 import { typesenseSearch } from '@/lib/search/typesense';
 import { verifyAccessToken } from '@/lib/auth/jwt';
 import { getPropertyViewStatus } from '@/lib/db/queries/propertyViews';
+import {
+  cursorPage,
+  cursorScope,
+  decodeCursor,
+  nextCursor,
+  startCursor,
+} from '@/lib/search/cursor';
 
 const feedQuerySchema = z.object({
   page: z.coerce.number().int().min(1).optional(),
   limit: z.coerce.number().int().min(1).max(100).optional(),
   countryId: z.coerce.number().int().min(1).optional(),
+  /** nextCursor from the previous page; ignores page/limit (restarts if preferences changed). */
+  cursor: z.string().max(8192).optional(),
 });
 
 function getSessionId(request: NextRequest): string {
@@ -343,9 +352,12 @@ export async function GET(request: NextRequest) {
   try {
     const sessionId = getSessionId(request);
     const userId = tryGetUserIdFromAuthHeader(request);
-    const { page: pageRaw, limit: limitRaw, countryId } = validateQuery(request, feedQuerySchema);
-    const page = pageRaw ?? 1;
-    const perPage = limitRaw ?? 25;
+    const {
+      page: pageRaw,
+      limit: limitRaw,
+      countryId,
+      cursor: cursorToken,
+    } = validateQuery(request, feedQuerySchema);
     const lang = getLanguageCode(request);
 
     const feedPrefsKey = `feed_prefs:${sessionId}`;
@@ -366,7 +378,30 @@ export async function GET(request: NextRequest) {
       ? buildSortByEval(counters) ??
         (prefs?.typesense_feed_sort_by?.replace(/,updated_at:desc$/i, '') || null)
       : null;
-    const sortBy = sortByEval ?? 'is_featured:desc,featured_rank:asc';
+    // property_id_int breaks ties so offset pages cannot repeat or skip equal-score listings
+    const sortBy = `${sortByEval ?? 'is_featured:desc,featured_rank:asc'},property_id_int:desc`;
+
+    // The cursor keeps the preferences generation, not the (long) _eval sort: the sort is rebuilt
+    // from the same preferences, and a cursor from an older generation restarts at page 1
+    // (meta.cursorRestarted) instead of paging a reordered feed.
+    const generation = prefs?.last_analyzed_at
+      ? new Date(prefs.last_analyzed_at).toISOString()
+      : null;
+    const scope = cursorScope('feed', sessionId, filterBy ?? null);
+    const decoded = cursorToken ? decodeCursor(cursorToken, scope) : null;
+    const cursorRestarted = decoded != null && (decoded.generation ?? null) !== generation;
+    const cursor =
+      decoded && !cursorRestarted
+        ? decoded
+        : startCursor({
+            page: decoded ? 1 : (pageRaw ?? 1),
+            perPage: decoded?.perPage ?? limitRaw ?? 25,
+            scope,
+            allowKeyset: false,
+            generation,
+          });
+    const { page: typesensePage, perPage, filterBy: pageFilterBy } = cursorPage(cursor, filterBy);
+    const page = Math.floor(cursor.offset / perPage) + 1;
 
     const [resp, freshLastAnalyzed] = prefsFromCache
       ? await Promise.all([
@@ -374,9 +409,9 @@ export async function GET(request: NextRequest) {
             collection: 'properties',
             q: '*',
             queryBy: PROPERTIES_QUERY_BY,
-            filterBy,
+            filterBy: pageFilterBy,
             sortBy,
-            page,
+            page: typesensePage,
             perPage,
           }),
           getLastAnalyzedAtForSession(sessionId),
@@ -386,9 +421,9 @@ export async function GET(request: NextRequest) {
             collection: 'properties',
             q: '*',
             queryBy: PROPERTIES_QUERY_BY,
-            filterBy,
+            filterBy: pageFilterBy,
             sortBy,
-            page,
+            page: typesensePage,
             perPage,
           }),
           null as string | null,
@@ -419,9 +454,14 @@ export async function GET(request: NextRequest) {
     const preferencesGeneration = prefsFromCache
       ? freshLastAnalyzed
       : (prefs?.last_analyzed_at ?? null);
-    return createPaginatedResponse(items, page, perPage, resp.found, {
-      preferencesGeneration,
-    });
+    return createPaginatedResponse(
+      items,
+      page,
+      perPage,
+      resp.found,
+      { preferencesGeneration, ...(cursorRestarted ? { cursorRestarted } : {}) },
+      nextCursor(cursor, resp.hits, resp.found)
+    );
   } catch (error) {
     return createErrorResponse(error);
   }
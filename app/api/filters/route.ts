@@ -7,10 +7,11 @@ import {
 import { filtersQuerySchema, validateQuery } from '@/lib/security/validation';
 import { getFilterConfigByPurpose } from '@/lib/db/queries/filters';
 import { filterConfigCache } from '@/lib/cache';
+import { resolveRequestCountry } from '@/lib/search/country';
 
 export const dynamic = 'force-dynamic';
 
-const DEFAULT_COUNTRY_ID = 1;
+/** Used only when the country has no COUNTRY_SETTINGS row. */
 const DEFAULT_CURRENCY_ID = 1;
 const DEFAULT_LANGUAGE_CODE = 'en';
 
@@ -28,13 +29,14 @@ function filterConfigCacheKey(
  * Options are kept up to date by the filter-config-refresh Edge Function;
  * no merge at request time for faster response.
  * Results are cached to reduce DB load.
+ * Without countryId the request's country is detected; currency defaults to that country's currency.
  */
 export async function GET(request: NextRequest) {
   try {
     const parsed = validateQuery(request, filtersQuerySchema);
     const { purpose, countryId, currencyId, languageCode } = parsed;
-    const cid = countryId ?? DEFAULT_COUNTRY_ID;
-    const curId = currencyId ?? DEFAULT_CURRENCY_ID;
+    const { countryId: cid, settings } = await resolveRequestCountry(request, countryId);
+    const curId = currencyId ?? settings?.default_currency_id ?? DEFAULT_CURRENCY_ID;
     const lang = languageCode ?? DEFAULT_LANGUAGE_CODE;
 
     const cacheKey = filterConfigCacheKey(purpose, cid, curId, lang);
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { assertCronAuthorized } from '@/lib/jobs/cronAuth';
+import { runFavouriteAlerts } from '@/lib/jobs/favouriteAlerts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs/favourite-alerts (cron, Authorization: Bearer <CRON_SECRET>)
+ * Queues price-drop / back-on-market / sold / rented alerts for users who liked the changed
+ * property, then emails pending alerts as one localized digest per user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertCronAuthorized(request);
+    const result = await runFavouriteAlerts();
+    return createSuccessResponse(result);
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
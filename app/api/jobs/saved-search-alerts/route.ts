@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { assertCronAuthorized } from '@/lib/jobs/cronAuth';
+import { runSavedSearchAlerts } from '@/lib/jobs/savedSearchAlerts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs/saved-search-alerts (cron, Authorization: Bearer <CRON_SECRET>)
+ * Emails new listings for saved searches whose alert frequency is due. Run every few minutes
+ * so "instant" alerts stay timely; daily/weekly searches are skipped until due.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertCronAuthorized(request);
+    const result = await runSavedSearchAlerts();
+    return createSuccessResponse(result);
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
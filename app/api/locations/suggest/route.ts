@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { locationSuggestQuerySchema, validateQuery } from '@/lib/security/validation';
+import { suggestLocations } from '@/lib/db/queries/locations';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 10;
+
+function getLanguageCode(request: NextRequest): 'en' | 'ar' {
+  const acceptLanguage = request.headers.get('accept-language') || 'en';
+  const first = acceptLanguage.split(',')[0]?.trim() || 'en';
+  const lang = first.split('-')[0]?.trim().toLowerCase() || 'en';
+  return lang === 'ar' ? 'ar' : 'en';
+}
+
+/**
+ * GET /api/locations/suggest?q=marina&countryId=1&purpose=for_sale
+ * Typeahead over LOCATIONS (city › area › community), English or Arabic input, typo tolerant.
+ * Pass a suggestion's locationId to /api/search as locationIds for an exact location filter.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = validateQuery(request, locationSuggestQuerySchema);
+    const lang = getLanguageCode(request);
+    const purposeKey = parsed.purpose?.trim().toLowerCase().replace(/\s+/g, '_') || null;
+
+    const rows = await suggestLocations({
+      q: parsed.q,
+      countryId: parsed.countryId ?? null,
+      purposeKey,
+      limit: parsed.limit ?? DEFAULT_LIMIT,
+    });
+
+    const suggestions = rows.map((r) => ({
+      locationId: r.location_key,
+      level: r.level,
+      name: lang === 'ar' ? r.name_ar : r.name_en,
+      label: lang === 'ar' ? r.path_ar : r.path_en,
+      listingCount: r.listing_count,
+    }));
+
+    return createSuccessResponse(suggestions);
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
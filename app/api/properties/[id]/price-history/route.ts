@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { propertyIdSchema, validateParams } from '@/lib/security/validation';
+import {
+  getPriceHistoryProperty,
+  getPropertyPriceHistory,
+} from '@/lib/db/queries/propertyHistory';
+
+export const dynamic = 'force-dynamic';
+
+function percentChange(from: number, to: number): number | null {
+  if (!from) return null;
+  return Math.round(((to - from) / from) * 10000) / 100;
+}
+
+/**
+ * GET /api/properties/{id}/price-history
+ * Dated price points (listing price first) with the change from the previous point, and the
+ * overall change since listing. Points come from property.PROPERTY_HISTORY.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    void request;
+    const { id: propertyId } = validateParams(params, propertyIdSchema);
+
+    const property = await getPriceHistoryProperty(propertyId);
+    if (!property) {
+      throw new AppError(`Property ${propertyId} not found`, 404, 'PROPERTY_NOT_FOUND');
+    }
+    if (String(property.status ?? '').trim().toLowerCase() !== 'active') {
+      throw new AppError('Property is no longer available', 404, 'PROPERTY_NOT_ACTIVE');
+    }
+
+    const rows = await getPropertyPriceHistory(propertyId);
+    const points = rows.map((row, i) => {
+      const price = Number(row.price);
+      return {
+        date: row.changed_at,
+        price,
+        changePct: i === 0 ? null : percentChange(Number(rows[i - 1].price), price),
+      };
+    });
+
+    const currentPrice = property.price != null ? Number(property.price) : null;
+    const listedPrice = points[0]?.price ?? currentPrice;
+    const lastChange = points.length > 1 ? points[points.length - 1] : null;
+
+    return createSuccessResponse({
+      propertyId,
+      currency: {
+        code: property.currency_code ?? null,
+        symbol: property.currency_symbol ?? null,
+      },
+      currentPrice,
+      listedPrice,
+      changeSinceListingPct:
+        listedPrice != null && currentPrice != null ? percentChange(listedPrice, currentPrice) : null,
+      lastChange: lastChange ? { date: lastChange.date, changePct: lastChange.changePct } : null,
+      points,
+    });
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -9,6 +9,7 @@ import { propertyIdSchema } from '@/lib/security/validation';
 import {
   getPropertyById,
   type PropertyImageJson,
+  type PropertyOpenHouseJson,
   type PropertyVideoJson,
 } from '@/lib/db/queries/propertyDetails';
 import { getPropertyViewStatus } from '@/lib/db/queries/propertyViews';
@@ -109,6 +110,22 @@ function buildOrderedMedia(
   return ranked.map((entry) => entry.item);
 }
 
+/** Slots still upcoming at response time (the row may be cached), as ISO UTC strings. */
+function upcomingOpenHouses(
+  slots: PropertyOpenHouseJson[]
+): Array<{ startsAt: string; endsAt: string }> {
+  const now = Date.now();
+  const out: Array<{ startsAt: string; endsAt: string }> = [];
+  for (const slot of slots) {
+    const startsAt = new Date(`${slot.startsAt}Z`);
+    const endsAt = new Date(`${slot.endsAt}Z`);
+    if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) continue;
+    if (endsAt.getTime() <= now) continue;
+    out.push({ startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString() });
+  }
+  return out;
+}
+
 function getLanguageCode(request: NextRequest): 'en' | 'ar' {
   const acceptLanguage = request.headers.get('accept-language') || 'en';
   const first = acceptLanguage.split(',')[0]?.trim() || 'en';
@@ -137,8 +154,8 @@ export async function GET(
     const { id: propertyId } = validateParams(params, propertyIdSchema);
     const lang = getLanguageCode(request);
 
-    // v4: mixed image/video gallery sorted by shared displayOrder
-    const cacheKey = `property:${propertyId}:${lang}:v5`;
+    // v7: parking, floor and year built
+    const cacheKey = `property:${propertyId}:${lang}:v7`;
     let row = propertyDetailCache.get<Awaited<ReturnType<typeof getPropertyById>>>(cacheKey);
     if (!row) {
       row = await getPropertyById(propertyId, lang);
@@ -234,6 +251,14 @@ export async function GET(
       furnishingStatus: row.furnishing_status ?? null,
       completionStatus: row.completion_status ?? null,
       isOffPlan: row.is_off_plan ?? false,
+      availableFrom: row.available_from ?? null,
+      rentTerms:
+        row.purpose_key === 'for_rent' && (row.rent_frequency || row.number_of_cheques)
+          ? { frequency: row.rent_frequency ?? null, cheques: row.number_of_cheques ?? null }
+          : null,
+      openHouses: upcomingOpenHouses(
+        parseJsonArray<PropertyOpenHouseJson>(row.open_houses_json)
+      ),
       location: {
         addressLine1,
         addressLine2: addressLine2 || (row.city ? `${row.city}` : null),
@@ -248,6 +273,12 @@ export async function GET(
       bathrooms: row.bathrooms ?? null,
       areaSqm: row.area_sqm ?? null,
       areaSqft: row.area_sqft ?? null,
+      parkingSpaces: row.parking_spaces ?? null,
+      floorNumber: row.floor_number ?? null,
+      totalFloors: row.total_floors ?? null,
+      yearBuilt: row.year_built ?? null,
+      pricePerSqm: row.price_per_sqm ?? null,
+      pricePerSqft: row.price_per_sqft ?? null,
       profileImageUrl: row.agent_profile_image_url ?? null,
       features: Array.isArray(row.features_jsonb) ? row.features_jsonb : [],
       images: {
@@ -0,0 +1,179 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { AppError, createErrorResponse, createPaginatedResponse } from '@/lib/utils/errors';
+import { propertyIdSchema, validateParams, validateQuery } from '@/lib/security/validation';
+import { PROPERTIES_QUERY_BY } from '@/lib/search/typesenseSchema';
+import { typesenseSearch } from '@/lib/search/typesense';
+import { mapHitsToItems, type TypesensePropertyDoc } from '@/lib/search/searchItems';
+import { getDislikedPropertyIds } from '@/lib/db/queries/propertyViews';
+import { verifyAccessToken } from '@/lib/auth/jwt';
+
+export const dynamic = 'force-dynamic';
+
+const similarQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).max(5).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+const DEFAULT_LIMIT = 12;
+/** Disliked listings excluded from results (most recent first). */
+const MAX_EXCLUDED_DISLIKES = 200;
+/** Candidates must be within this fraction of the source price; closer bands score higher. */
+const PRICE_BAND_HARD = 0.5;
+const PRICE_BAND_CLOSE = 0.15;
+const PRICE_BAND_NEAR = 0.3;
+const EVAL_TOP_FEATURES = 8;
+
+/** Clause scores: type and price dominate; each shared feature adds a little. */
+const SCORE_PROPERTY_TYPE = 40;
+const SCORE_PRICE_CLOSE = 30;
+const SCORE_PRICE_NEAR = 15;
+const SCORE_BEDROOMS_EXACT = 25;
+const SCORE_BEDROOMS_NEAR = 10;
+const SCORE_SAME_LOCATION = 20;
+const SCORE_FEATURE = 5;
+
+type SourceDoc = Pick<
+  TypesensePropertyDoc,
+  | 'property_id'
+  | 'country_id'
+  | 'purpose_key'
+  | 'price'
+  | 'property_type_id'
+  | 'property_type_ids'
+  | 'bedrooms'
+  | 'feature_ids'
+  | 'location_ids'
+>;
+
+function getLanguageCode(request: NextRequest): 'en' | 'ar' {
+  const acceptLanguage = request.headers.get('accept-language') || 'en';
+  const first = acceptLanguage.split(',')[0]?.trim() || 'en';
+  const lang = first.split('-')[0]?.trim().toLowerCase() || 'en';
+  return lang === 'ar' ? 'ar' : 'en';
+}
+
+function tryGetUserIdFromAuthHeader(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+  const token = authHeader.substring(7).trim();
+  if (!token) return null;
+  try {
+    const payload = verifyAccessToken(token);
+    return payload.userId;
+  } catch {
+    return null;
+  }
+}
+
+function escapeBackticks(value: string): string {
+  return value.replace(/`/g, '');
+}
+
+function priceRange(price: number, band: number): string {
+  return `price:[${Math.floor(price * (1 - band))}..${Math.ceil(price * (1 + band))}]`;
+}
+
+/** Hard constraints: same country and purpose, price within ±50%, not the source or disliked. */
+function buildSimilarFilterBy(source: SourceDoc, excludeIds: number[]): string {
+  const parts = [`country_id:=${source.country_id}`];
+  if (source.purpose_key) parts.push(`purpose_key:=\`${escapeBackticks(source.purpose_key)}\``);
+  if (source.price != null && source.price > 0) parts.push(priceRange(source.price, PRICE_BAND_HARD));
+  const excluded = Array.from(new Set([Number(source.property_id), ...excludeIds]));
+  parts.push(`property_id:!=[${excluded.map((id) => `\`${id}\``).join(',')}]`);
+  return parts.join(' && ');
+}
+
+/**
+ * Typesense sort_by scoring candidates against the source (same _eval approach as the feed):
+ * shared property type, price band, ±1 bedroom, same community/area and shared features.
+ */
+function buildSimilarSortBy(source: SourceDoc): string {
+  const clauses: string[] = [];
+
+  const typeIds = source.property_type_ids?.length
+    ? source.property_type_ids
+    : source.property_type_id != null
+      ? [source.property_type_id]
+      : [];
+  if (typeIds.length) clauses.push(`(property_type_ids:=[${typeIds.join(',')}]):${SCORE_PROPERTY_TYPE}`);
+
+  if (source.price != null && source.price > 0) {
+    clauses.push(`(${priceRange(source.price, PRICE_BAND_CLOSE)}):${SCORE_PRICE_CLOSE}`);
+    clauses.push(`(${priceRange(source.price, PRICE_BAND_NEAR)}):${SCORE_PRICE_NEAR}`);
+  }
+
+  if (source.bedrooms != null) {
+    const b = source.bedrooms;
+    clauses.push(`(bedrooms:=${b}):${SCORE_BEDROOMS_EXACT}`);
+    clauses.push(`(bedrooms:[${Math.max(0, b - 1)}..${b + 1}]):${SCORE_BEDROOMS_NEAR}`);
+  }
+
+  // Most specific location key (community, else area, else city)
+  const locationKey = source.location_ids?.[source.location_ids.length - 1];
+  if (locationKey) {
+    clauses.push(`(location_ids:=\`${escapeBackticks(locationKey)}\`):${SCORE_SAME_LOCATION}`);
+  }
+
+  for (const featureId of (source.feature_ids ?? []).slice(0, EVAL_TOP_FEATURES)) {
+    clauses.push(`(feature_ids:=${featureId}):${SCORE_FEATURE}`);
+  }
+
+  if (clauses.length === 0) return 'updated_at:desc';
+  return `_eval([${clauses.join(',')}]):desc,updated_at:desc`;
+}
+
+async function loadSourceDoc(propertyId: number): Promise<SourceDoc | null> {
+  const resp = await typesenseSearch<SourceDoc>({
+    collection: 'properties',
+    q: '*',
+    queryBy: PROPERTIES_QUERY_BY,
+    filterBy: `property_id:=\`${propertyId}\``,
+    page: 1,
+    perPage: 1,
+    includeFields:
+      'property_id,country_id,purpose_key,price,property_type_id,property_type_ids,bedrooms,feature_ids,location_ids',
+  });
+  return resp.hits[0]?.document ?? null;
+}
+
+/**
+ * GET /api/properties/{id}/similar?page=&limit=
+ * Listings like the given (active, indexed) property, in the /api/search item shape.
+ * Excludes the property itself and anything the session/user has disliked.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: propertyId } = validateParams(params, propertyIdSchema);
+    const parsed = validateQuery(request, similarQuerySchema);
+    const page = parsed.page ?? 1;
+    const perPage = parsed.limit ?? DEFAULT_LIMIT;
+
+    const source = await loadSourceDoc(propertyId);
+    if (!source) {
+      throw new AppError(`Property ${propertyId} not found`, 404, 'PROPERTY_NOT_FOUND');
+    }
+
+    const sessionId = request.headers.get('x-session-id')?.trim() || null;
+    const userId = tryGetUserIdFromAuthHeader(request);
+    const disliked = await getDislikedPropertyIds(sessionId, userId, MAX_EXCLUDED_DISLIKES);
+
+    const resp = await typesenseSearch<TypesensePropertyDoc>({
+      collection: 'properties',
+      q: '*',
+      queryBy: PROPERTIES_QUERY_BY,
+      filterBy: buildSimilarFilterBy(source, disliked),
+      sortBy: buildSimilarSortBy(source),
+      page,
+      perPage,
+    });
+
+    const result = await mapHitsToItems(resp, getLanguageCode(request), request);
+    return createPaginatedResponse(result.items, page, perPage, result.found);
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
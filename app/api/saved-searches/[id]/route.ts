@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import {
+  savedSearchIdSchema,
+  updateSavedSearchSchema,
+  validateBody,
+  validateParams,
+} from '@/lib/security/validation';
+import { withAuth } from '@/lib/auth/middleware';
+import {
+  deleteSavedSearch,
+  getSavedSearch,
+  updateSavedSearch,
+  type SavedSearchUpdates,
+} from '@/lib/db/queries/savedSearches';
+import { savedSearchFieldsFromBody, toSavedSearchResponse } from '@/lib/search/savedSearch';
+import type { JWTPayload } from '@/lib/types/auth';
+
+export const dynamic = 'force-dynamic';
+
+function notFound(): AppError {
+  return new AppError('Saved search not found', 404, 'SAVED_SEARCH_NOT_FOUND');
+}
+
+/**
+ * GET / PATCH / DELETE /api/saved-searches/{id} (owner only; other users' ids return 404).
+ * PATCH: { name?, search?, frequency?, alertsEnabled? }; a new search replaces the stored filters.
+ */
+async function handler(
+  request: NextRequest,
+  user: JWTPayload,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = validateParams(params, savedSearchIdSchema);
+
+    if (request.method === 'GET') {
+      const row = await getSavedSearch(user.userId, id);
+      if (!row) throw notFound();
+      return createSuccessResponse(toSavedSearchResponse(row));
+    }
+
+    if (request.method === 'PATCH') {
+      const body = await validateBody(request, updateSavedSearchSchema);
+
+      const updates: SavedSearchUpdates = {
+        name: body.name,
+        frequency: body.frequency,
+        alertsEnabled: body.alertsEnabled,
+        ...(body.search ? await savedSearchFieldsFromBody(body.search, request) : {}),
+      };
+
+      const row = await updateSavedSearch(user.userId, id, updates);
+      if (!row) throw notFound();
+      return createSuccessResponse(toSavedSearchResponse(row));
+    }
+
+    if (request.method === 'DELETE') {
+      const deleted = await deleteSavedSearch(user.userId, id);
+      if (!deleted) throw notFound();
+      return createSuccessResponse({ message: 'Saved search deleted successfully' });
+    }
+
+    throw new AppError('Method not allowed', 405, 'METHOD_NOT_ALLOWED');
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const GET = withAuth(handler);
+export const PATCH = withAuth(handler);
+export const DELETE = withAuth(handler);
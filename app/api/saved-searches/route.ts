@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { createSavedSearchSchema, validateBody } from '@/lib/security/validation';
+import { withAuth } from '@/lib/auth/middleware';
+import {
+  countSavedSearches,
+  createSavedSearch,
+  listSavedSearches,
+} from '@/lib/db/queries/savedSearches';
+import { savedSearchFieldsFromBody, toSavedSearchResponse } from '@/lib/search/savedSearch';
+import type { JWTPayload } from '@/lib/types/auth';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_SAVED_SEARCHES_PER_USER = 25;
+
+/**
+ * GET /api/saved-searches — the signed-in user's saved searches (newest first).
+ * POST /api/saved-searches — { name, search: <POST /api/search body>, frequency?: instant|daily|weekly }.
+ * Alerts only cover listings created after the search is saved.
+ */
+async function handler(request: NextRequest, user: JWTPayload) {
+  try {
+    if (request.method === 'GET') {
+      const rows = await listSavedSearches(user.userId);
+      return createSuccessResponse(rows.map(toSavedSearchResponse));
+    }
+
+    if (request.method === 'POST') {
+      const body = await validateBody(request, createSavedSearchSchema);
+
+      const existing = await countSavedSearches(user.userId);
+      if (existing >= MAX_SAVED_SEARCHES_PER_USER) {
+        throw new AppError(
+          `A user can save at most ${MAX_SAVED_SEARCHES_PER_USER} searches`,
+          400,
+          'SAVED_SEARCH_LIMIT'
+        );
+      }
+
+      const row = await createSavedSearch({
+        userId: user.userId,
+        name: body.name,
+        ...(await savedSearchFieldsFromBody(body.search, request)),
+        frequency: body.frequency ?? 'daily',
+      });
+
+      return createSuccessResponse(toSavedSearchResponse(row), 201);
+    }
+
+    throw new AppError('Method not allowed', 405, 'METHOD_NOT_ALLOWED');
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const GET = withAuth(handler);
+export const POST = withAuth(handler);
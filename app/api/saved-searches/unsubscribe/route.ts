@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { savedSearchUnsubscribeSchema, validateQuery } from '@/lib/security/validation';
+import {
+  disableSavedSearchAlertsByToken,
+  getSavedSearchByUnsubscribeToken,
+} from '@/lib/db/queries/savedSearches';
+import { buildSavedSearchUnsubscribePage } from '@/lib/email/templates';
+
+export const dynamic = 'force-dynamic';
+
+function htmlResponse(html: string): Response {
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+function notFound(): AppError {
+  return new AppError('Saved search not found', 404, 'SAVED_SEARCH_NOT_FOUND');
+}
+
+/**
+ * GET /api/saved-searches/unsubscribe?token=...
+ * Link from alert emails: a confirmation page only. Mail scanners and link prefetchers follow
+ * links, so GET never changes anything; the page's button POSTs to the same URL.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { token } = validateQuery(request, savedSearchUnsubscribeSchema);
+    const row = await getSavedSearchByUnsubscribeToken(token);
+    if (!row) throw notFound();
+    const actionUrl = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+    return htmlResponse(buildSavedSearchUnsubscribePage(row.name, actionUrl));
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/saved-searches/unsubscribe?token=...
+ * RFC 8058 one-click (List-Unsubscribe-Post) and the confirmation page's button. No login required;
+ * disables alerts for that saved search only. Browsers (Accept: text/html) get a page, others JSON.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = validateQuery(request, savedSearchUnsubscribeSchema);
+    const row = await disableSavedSearchAlertsByToken(token);
+    if (!row) throw notFound();
+    if (request.headers.get('accept')?.includes('text/html')) {
+      return htmlResponse(buildSavedSearchUnsubscribePage(row.name, null));
+    }
+    return createSuccessResponse({ message: `Alerts disabled for "${row.name}"` });
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { AppError, createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { validateQuery, validateBody } from '@/lib/security/validation';
+import {
+  searchClustersQuerySchema,
+  searchClustersBodySchema,
+} from '@/lib/security/validation';
+import type { SearchFilterState } from '@/lib/search/buildFilterQuery';
+import {
+  filterStateFromBody,
+  filterStateFromQuery,
+  resolveSearchNlOptions,
+} from '@/lib/search/searchRequest';
+import { resolveSearchCountry } from '@/lib/search/country';
+import { runSearchClusters } from '@/lib/search/clusters';
+
+export const dynamic = 'force-dynamic';
+
+/** Clusters are always scoped to the visible map; a missing viewport would bucket the whole country. */
+function requireViewport(filterState: SearchFilterState) {
+  if (!filterState.geoBounds) {
+    throw new AppError('ne and sw viewport bounds are required', 400, 'VIEWPORT_REQUIRED');
+  }
+}
+
+/**
+ * GET /api/search/clusters
+ * Same query params as GET /api/search plus zoom (0–22); ne/sw required.
+ * Returns geohash clusters with count, centroid, price range and sample ids for small clusters.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = validateQuery(request, searchClustersQuerySchema);
+    const filterState = filterStateFromQuery(parsed);
+    requireViewport(filterState);
+    const nlOptions = await resolveSearchNlOptions(
+      filterState,
+      parsed.q,
+      parsed.nl_query === false
+    );
+    await resolveSearchCountry(filterState, request);
+
+    const result = await runSearchClusters(filterState, parsed.zoom, nlOptions);
+    return createSuccessResponse(result);
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/search/clusters
+ * Same body as POST /api/search plus zoom; ne/sw required (polygon further restricts).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await validateBody(request, searchClustersBodySchema);
+    const filterState = filterStateFromBody(body);
+    requireViewport(filterState);
+    const nlOptions = await resolveSearchNlOptions(
+      filterState,
+      body.q,
+      body.nl_query === false
+    );
+    await resolveSearchCountry(filterState, request);
+
+    const result = await runSearchClusters(filterState, body.zoom, nlOptions);
+    return createSuccessResponse(result);
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/errors';
+import { searchParseBodySchema, validateBody } from '@/lib/security/validation';
+import { runNlParsePreview } from '@/lib/search/nlParse';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/search/parse
+ * Body: { q }. Runs only the NL interpretation step (no results) and returns the generated
+ * q / filter_by / sort_by plus their SearchFilterState equivalent (`filters`, `sort`) for editable
+ * filter chips. Clauses that have no filter field are listed in `unmapped`. Without
+ * TYPESENSE_NL_MODEL_ID the rule-based parser reads q (`source: "rules"`).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await validateBody(request, searchParseBodySchema);
+    const nlModelId = process.env.TYPESENSE_NL_MODEL_ID?.trim() || undefined;
+    const preview = await runNlParsePreview(body.q, nlModelId);
+
+    return createSuccessResponse({
+      query: body.q,
+      source: preview.source,
+      interpretation: {
+        q: preview.q,
+        filterBy: preview.filterBy,
+        sortBy: preview.sortBy,
+      },
+      filters: preview.filters,
+      sort: preview.sort,
+      unmapped: preview.unmapped,
+    });
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -1,25 +1,56 @@
 import { NextRequest } from 'next/server';
 import { createErrorResponse, createPaginatedResponse } from '@/lib/utils/errors';
 import { validateQuery, validateBody } from '@/lib/security/validation';
-import { searchQuerySchema, searchBodySchema, agentIdFilterEntrySchema, normalizeAgentIds } from '@/lib/security/validation';
+import {
+  searchQuerySchema,
+  searchBodySchema,
+  normalizeSearchFacets,
+  type SearchFacet,
+} from '@/lib/security/validation';
 import { getSearchQueryBy } from '@/lib/search/typesenseSchema';
-import { zipMediaUrls, toMediaItem, imageMediaUrls } from '@/lib/search/propertyMedia';
-import { pickLocalizedTitle } from '@/lib/search/unwrapTitle';
 import {
   buildFilterBy,
   buildSearchQuery,
   buildKeywordOrQueries,
+  getGeoReferencePoint,
   needsKeywordOrSearch,
-  normalizeKeywords,
   type SearchFilterState,
 } from '@/lib/search/buildFilterQuery';
+import { getTypesenseNlQuery } from '@/lib/search/naturalLanguageQuery';
+import {
+  filterStateFromBody,
+  filterStateFromQuery,
+  resolveSearchNlOptions,
+  type SearchNlOptions,
+} from '@/lib/search/searchRequest';
+import { resolveSearchCountry } from '@/lib/search/country';
+import { runSearchFacets, type SearchFacetCounts } from '@/lib/search/facets';
+import { mapHitsToItems, type TypesensePropertyDoc } from '@/lib/search/searchItems';
+import { resolveDisplayCurrency } from '@/lib/search/currency';
+import { resolveKeywordFeatures } from '@/lib/search/keywordFeatures';
+import { highlightContextFromState } from '@/lib/search/highlight';
+import { buildRelaxedSuggestions, type RelaxedSuggestion } from '@/lib/search/relaxation';
+import { recordSearchEvent } from '@/lib/search/searchEvents';
+import {
+  merchandisingMeta,
+  resolveSearchCuration,
+  type SearchCuration,
+} from '@/lib/search/merchandising';
+import { applySearchSort, DEFAULT_SEARCH_SORT_BY } from '@/lib/search/searchSort';
+import {
+  cursorPage,
+  cursorScope,
+  cursorTotal,
+  decodeCursor,
+  nextCursor,
+  startCursor,
+} from '@/lib/search/cursor';
 import {
-  getTypesenseNlQuery,
-  resolveNaturalLanguageSearchMode,
-} from '@/lib/search/naturalLanguageQuery';
-import { getPropertyViewStatus } from '@/lib/db/queries/propertyViews';
-import { verifyAccessToken } from '@/lib/auth/jwt';
-import { typesenseSearch, typesenseNlSearch, typesenseMultiSearchUnion } from '@/lib/search/typesense';
+  typesenseSearch,
+  typesenseNlSearch,
+  typesenseMultiSearchUnion,
+  type TypesenseSearchResponse,
+} from '@/lib/search/typesense';
 
 export const dynamic = 'force-dynamic';
 
@@ -29,103 +60,12 @@ export const dynamic = 'force-dynamic';
  *   nl_query=false), parse q with Typesense NL then search again using the generated
  *   q / filter_by / sort_by (empty LLM q becomes *). Explicit filter params still
  *   become filter_by. Empty q → normal Typesense search.
+ *   Merchandising rules matching the search are sent as pinned_hits / hidden_hits.
  */
 
-const DEFAULT_COUNTRY_ID = 1;
 const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 25;
 
-type TypesensePropertyDoc = {
-  property_id: string;
-  country_id: number;
-  purpose_id?: number;
-  purpose_key?: string;
-  property_type_id?: number;
-  property_type_ids?: number[];
-  property_type_en?: string;
-  property_type_keys?: string[];
-  property_type_names_en?: string[];
-  main_property_type_ids?: number[];
-  main_property_type_keys?: string[];
-  main_property_type_names_en?: string[];
-  price?: number;
-  currency_id?: number;
-  bedrooms?: number;
-  bathrooms?: number;
-  area_sqft?: number;
-  area_sqm?: number;
-  address?: string;
-  features?: string[];
-  agent_id?: number;
-  agency_id?: number;
-  agency_name?: string;
-  profile_image_url?: string;
-  agent_name?: string;
-  agent_email?: string;
-  agent_phone?: string;
-  agent_whatsapp?: string;
-  status?: string;
-  is_off_plan?: boolean;
-  is_featured?: boolean;
-  featured_rank?: number;
-  created_at?: number;
-  updated_at?: number;
-  title_en?: string;
-  title_ar?: string;
-  city_en?: string;
-  area_en?: string;
-  community_en?: string;
-  primary_image_url?: string;
-  primary_media_type?: string;
-  primary_thumbnail_url?: string;
-  additional_image_urls?: string[];
-  additional_media_types?: string[];
-  additional_thumbnail_urls?: string[];
-  all_image_urls?: string[];
-  all_media_types?: string[];
-  image_is_featured?: number[];
-};
-
-function parseOptionalIntList(value: string | undefined): number[] | undefined {
-  if (!value?.trim()) return undefined;
-  const parsed = value
-    .split(',')
-    .map((s) => parseInt(s.trim(), 10))
-    .filter((n) => Number.isFinite(n) && n >= 0);
-  return parsed.length ? parsed : undefined;
-}
-
-/** Parse comma-separated bedrooms/bathrooms; allows "6+" for 6 or more. */
-function parseBedroomsBathsList(value: string | undefined): (number | string)[] | undefined {
-  if (!value?.trim()) return undefined;
-  const out: (number | string)[] = [];
-  for (const s of value.split(',').map((x) => x.trim()).filter(Boolean)) {
-    if (/^\d+\+$/.test(s)) out.push(s);
-    else {
-      const n = parseInt(s, 10);
-      if (Number.isFinite(n) && n >= 0) out.push(n);
-    }
-  }
-  return out.length ? out : undefined;
-}
-
-/** Parse agentIds from GET query (JSON string). Expects [{"id": number, "type": "agent"|"agency"}, ...]. */
-function parseAgentIdsFromQuery(value: string | undefined): { id: number; type: 'agency' | 'agent' }[] | undefined {
-  if (!value?.trim()) return undefined;
-  try {
-    const raw = JSON.parse(value) as unknown;
-    if (!Array.isArray(raw) || raw.length === 0) return undefined;
-    const out: { id: number; type: 'agency' | 'agent' }[] = [];
-    for (const item of raw) {
-      const r = agentIdFilterEntrySchema.safeParse(item);
-      if (r.success) out.push(r.data);
-    }
-    return out.length ? out : undefined;
-  } catch {
-    return undefined;
-  }
-}
-
 function getLanguageCode(request: NextRequest): 'en' | 'ar' {
   const acceptLanguage = request.headers.get('accept-language') || 'en';
   const first = acceptLanguage.split(',')[0]?.trim() || 'en';
@@ -133,120 +73,166 @@ function getLanguageCode(request: NextRequest): 'en' | 'ar' {
   return lang === 'ar' ? 'ar' : 'en';
 }
 
-function getSessionId(request: NextRequest): string | null {
-  const sessionId = request.headers.get('x-session-id');
-  if (!sessionId?.trim()) return null;
-  return sessionId.trim();
-}
+type SearchPaging = {
+  page: number;
+  perPage: number;
+  /** Opaque cursor from a previous response (overrides page/limit). */
+  cursor?: string;
+};
 
-function tryGetUserIdFromAuthHeader(request: NextRequest): string | null {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
-  const token = authHeader.substring(7).trim();
-  if (!token) return null;
-  try {
-    const payload = verifyAccessToken(token);
-    return payload.userId;
-  } catch {
-    return null;
-  }
-}
+type SearchResult = {
+  items: Array<{ property: object }>;
+  found: number;
+  facets?: SearchFacetCounts;
+  /** First page with no hits: filters relaxed step by step, with counts. */
+  relaxedSuggestions?: RelaxedSuggestion[];
+  /** First page with no hits on an NL search: relaxation does not apply to the NL interpretation. */
+  relaxationUnsupported?: 'nl_query';
+  /** Merchandising rules that fired, with the pinned listings on this page. */
+  merchandising?: ReturnType<typeof merchandisingMeta>;
+  page: number;
+  perPage: number;
+  nextCursor: string | null;
+};
 
-/** When Typesense NL is off, treat free-text q as full-text keyword. */
-function applyQAsKeywordFallback(filterState: SearchFilterState, qValue: string, willUseNl: boolean) {
-  if (!qValue || willUseNl) return;
-  filterState.keyword = filterState.keyword ? `${filterState.keyword} ${qValue}` : qValue;
+function resultMeta(result: SearchResult): Record<string, unknown> | undefined {
+  const meta: Record<string, unknown> = {};
+  if (result.facets) meta.facets = result.facets;
+  if (result.relaxedSuggestions) meta.relaxedSuggestions = result.relaxedSuggestions;
+  if (result.relaxationUnsupported) meta.relaxationUnsupported = result.relaxationUnsupported;
+  if (result.merchandising) meta.merchandising = result.merchandising;
+  return Object.keys(meta).length ? meta : undefined;
 }
 
 export async function GET(request: NextRequest) {
   try {
     const parsed = validateQuery(request, searchQuerySchema);
 
-    // Normalize purpose: lowercase, spaces -> underscore (so "For Sale" / "for_sale" match Typesense)
-    const normalizedPurpose = parsed.purpose?.trim().toLowerCase().replace(/\s+/g, '_') ?? '';
-
-    const filterState: SearchFilterState = {
-      purpose: normalizedPurpose,
-      countryId: parsed.countryId ?? DEFAULT_COUNTRY_ID,
-      location: parsed.location,
-      completionStatus: parsed.completionStatus,
-      mainPropertyTypeIds: parseOptionalIntList(parsed.mainPropertyTypeIds)?.filter((n) => n >= 1),
-      propertyTypeIds: parseOptionalIntList(parsed.propertyTypeIds),
-      bedrooms: parseBedroomsBathsList(parsed.bedrooms),
-      bathrooms: parseBedroomsBathsList(parsed.bathrooms)?.filter(
-        (v) => typeof v === 'string' || v >= 1
-      ),
-      priceMin: parsed.priceMin,
-      priceMax: parsed.priceMax,
-      areaMin: parsed.areaMin,
-      areaMax: parsed.areaMax,
-      keyword: undefined,
-      keywords: normalizeKeywords(parsed.keyword ?? parsed.keywords),
-      agentIds: parseAgentIdsFromQuery(parsed.agentIds),
-      featureIds: parseOptionalIntList(parsed.featureIds)?.filter((n) => n >= 1),
-    };
-
-    const nlModelId = process.env.TYPESENSE_NL_MODEL_ID?.trim() || undefined;
-    const { qValue, willUseNl } = resolveNaturalLanguageSearchMode(
+    const filterState = filterStateFromQuery(parsed);
+    applySearchSort(filterState, parsed.sortBy);
+    const nlOptions = await resolveSearchNlOptions(
+      filterState,
       parsed.q,
-      nlModelId,
       parsed.nl_query === false
     );
-    applyQAsKeywordFallback(filterState, qValue, willUseNl);
-
-    // Default purpose only for non-NL search. NL lets the model set purpose_key (e.g. for_rent).
-    if (!willUseNl && !filterState.purpose?.trim()) {
-      filterState.purpose = 'for_sale';
-    }
+    await resolveSearchCountry(filterState, request);
+    const facets = normalizeSearchFacets(parsed.facets);
 
-    const page = parsed.page ?? DEFAULT_PAGE;
-    const perPage = parsed.limit ?? DEFAULT_LIMIT;
+    const paging: SearchPaging = {
+      page: parsed.page ?? DEFAULT_PAGE,
+      perPage: parsed.limit ?? DEFAULT_LIMIT,
+      cursor: parsed.cursor,
+    };
 
-    const { items, found } = await runSearch(filterState, page, perPage, request, {
-      useNlQuery: willUseNl,
-      rawQ: qValue || undefined,
-      nlModelId,
-    });
-    return createPaginatedResponse(items, page, perPage, found);
+    const result = await runSearch(filterState, paging, request, nlOptions, facets, parsed.highlight === 'true');
+    return createPaginatedResponse(
+      result.items,
+      result.page,
+      result.perPage,
+      result.found,
+      resultMeta(result),
+      result.nextCursor
+    );
   } catch (error) {
     return createErrorResponse(error);
   }
 }
 
-type RunSearchNlOptions = {
-  useNlQuery: boolean;
-  rawQ?: string;
-  nlModelId?: string;
-};
-
 async function runSearch(
   filterState: SearchFilterState,
-  page: number,
-  perPage: number,
+  paging: SearchPaging,
   request: NextRequest,
-  nlOptions?: RunSearchNlOptions
-): Promise<{ items: Array<{ property: object }>; found: number }> {
+  nlOptions?: SearchNlOptions,
+  facets?: SearchFacet[],
+  highlight = false
+): Promise<SearchResult> {
+  const startedAt = Date.now();
   const lang = getLanguageCode(request);
   const useNl = !!(nlOptions?.useNlQuery && nlOptions?.nlModelId);
+  const displayCurrency = await resolveDisplayCurrency(filterState);
+  await resolveKeywordFeatures(filterState);
   const filterBy = buildFilterBy(filterState);
   const queryBy = getSearchQueryBy(filterState.location, useNl);
+  const geoRef = getGeoReferencePoint(filterState);
+  const useUnion = !useNl && needsKeywordOrSearch(filterState);
+  const highlightCtx = highlight ? highlightContextFromState(filterState, useUnion) : null;
+  const merchandising = await resolveSearchCuration(filterState, nlOptions?.rawQ);
+  // NL may generate its own sort_by, so only the caller's explicit sort is frozen in the cursor
+  const sortBy = useNl
+    ? filterState.sortBy?.trim() || undefined
+    : filterState.sortBy?.trim() || DEFAULT_SEARCH_SORT_BY;
+
+  const scope = cursorScope(
+    'search',
+    filterBy ?? null,
+    sortBy ?? null,
+    buildSearchQuery(filterState),
+    filterState.keywords ?? null,
+    useNl ? (nlOptions?.rawQ ?? null) : null
+  );
+  const cursor = paging.cursor
+    ? decodeCursor(paging.cursor, scope)
+    : startCursor({
+        sortBy,
+        page: paging.page,
+        perPage: paging.perPage,
+        scope,
+        // Pinned positions are offsets into the whole result list, so pins need offset paging
+        allowKeyset: !useNl && !merchandising?.pinnedHits.length,
+      });
+  const { page, perPage, filterBy: pageFilterBy } = cursorPage(cursor, filterBy);
+  // A keyset page (rule went live mid-scroll) would repeat the pins at its top: only hide there
+  const curation: SearchCuration | undefined =
+    merchandising && cursor.after ? { ...merchandising, pinnedHits: [] } : (merchandising ?? undefined);
+
+  const toResult = async (
+    resp: TypesenseSearchResponse<TypesensePropertyDoc>,
+    facetCounts?: SearchFacetCounts
+  ): Promise<SearchResult> => {
+    // One event per search: later pages of the same query are not logged
+    if (cursor.offset === 0) {
+      recordSearchEvent(request, {
+        endpoint: 'search',
+        filterState,
+        q: nlOptions?.rawQ,
+        nlUsed: useNl,
+        parsedNlQuery: resp.parsed_nl_query,
+        found: resp.found,
+        startedAt,
+      });
+    }
+    const emptyFirstPage = resp.found === 0 && cursor.offset === 0;
+    return {
+      items: (await mapHitsToItems(resp, lang, request, geoRef, displayCurrency, highlightCtx)).items,
+      found: cursorTotal(cursor, resp.found),
+      facets: facetCounts,
+      relaxedSuggestions:
+        emptyFirstPage && !useNl ? await buildRelaxedSuggestions(filterState) : undefined,
+      relaxationUnsupported: emptyFirstPage && useNl ? 'nl_query' : undefined,
+      merchandising: curation ? merchandisingMeta(curation, resp.hits) : undefined,
+      page: Math.floor(cursor.offset / cursor.perPage) + 1,
+      perPage,
+      nextCursor: nextCursor(cursor, resp.hits, resp.found),
+    };
+  };
 
-  // Multiple keyword chips → OR via multi-search union (skip NL for this path)
-  if (!useNl && needsKeywordOrSearch(filterState)) {
-    const qs = buildKeywordOrQueries(filterState);
-    const sortBy = filterState.sortBy?.trim() || 'updated_at:desc';
+  // Free-text keyword chips → OR via multi-search union (skip NL for this path)
+  if (useUnion) {
     const resp = await typesenseMultiSearchUnion<TypesensePropertyDoc>(
-      qs.map((q) => ({
+      buildKeywordOrQueries(filterState, pageFilterBy).map((s, i) => ({
         collection: 'properties',
-        q,
+        q: s.q,
         queryBy,
-        filterBy: filterBy ?? undefined,
+        filterBy: s.filterBy,
         sortBy,
         page,
         perPage,
+        highlight,
+        // Pins once (the first search); every search hides, or another one would bring it back
+        curation: curation && i > 0 ? { pinnedHits: [], hiddenHits: curation.hiddenHits } : curation,
       }))
     );
-    return mapHitsToItems(resp, lang, request);
+    return toResult(resp);
   }
 
   if (useNl) {
@@ -254,153 +240,67 @@ async function runSearch(
       collection: 'properties',
       q: getTypesenseNlQuery(nlOptions!.rawQ?.trim() || ''),
       queryBy,
-      filterBy: filterBy ?? undefined,
+      filterBy: pageFilterBy,
+      sortBy,
       page,
       perPage,
       nlModelId: nlOptions!.nlModelId!,
+      highlight,
+      curation,
     });
-    return mapHitsToItems(resp, lang, request);
+    const facetCounts = facets?.length
+      ? await runSearchFacets(filterState, facets, nlOptions, resp.parsed_nl_query)
+      : undefined;
+    return toResult(resp, facetCounts);
   }
 
-  const resp = await typesenseSearch<TypesensePropertyDoc>({
-    collection: 'properties',
-    q: buildSearchQuery(filterState),
-    queryBy,
-    filterBy: filterBy ?? undefined,
-    sortBy: filterState.sortBy?.trim() || 'updated_at:desc',
-    page,
-    perPage,
-  });
-
-  return mapHitsToItems(resp, lang, request);
-}
-
-async function mapHitsToItems(
-  resp: { hits: Array<{ document: TypesensePropertyDoc }>; found: number },
-  lang: 'en' | 'ar',
-  request: NextRequest
-): Promise<{ items: Array<{ property: object }>; found: number }> {
-  const sessionId = getSessionId(request);
-  const userId = tryGetUserIdFromAuthHeader(request);
-  const propertyIds = resp.hits.map((h) => Number(h.document.property_id));
-
-  const items = resp.hits.map((h) => {
-    const d = h.document;
-    const pid = Number(d.property_id);
-    const locationParts = [d.address].filter(Boolean);
-    const location = locationParts.length ? locationParts.join(', ') : null;
-    const primaryMedia = toMediaItem(
-      d.primary_image_url,
-      d.primary_media_type,
-      d.primary_thumbnail_url
-    );
-    const additionalMedia = zipMediaUrls(
-      d.additional_image_urls,
-      d.additional_media_types,
-      d.additional_thumbnail_urls
-    );
-    return {
-      property: {
-        id: pid,
-        title: pickLocalizedTitle(lang, d.title_en, d.title_ar),
-        location,
-        price: d.price ?? null,
-        area: d.area_sqm ?? null,
-        areaSqft: d.area_sqft ?? null,
-        areaSqm: d.area_sqm ?? null,
-        bedrooms: d.bedrooms ?? null,
-        bathrooms: d.bathrooms ?? null,
-        primaryImageUrl: primaryMedia?.url ?? d.primary_image_url ?? null,
-        profileImageUrl: d.profile_image_url ?? null,
-        agent: d.agent_id
-          ? {
-              id: d.agent_id,
-              name: d.agent_name ?? null,
-              email: d.agent_email ?? null,
-              phone: d.agent_phone ?? null,
-              whatsapp: d.agent_whatsapp ?? null,
-              profileImageUrl: d.profile_image_url ?? null,
-              agency: d.agency_id
-                ? { id: d.agency_id, name: d.agency_name ?? null }
-                : null,
-            }
-          : null,
-        additionalImageUrls: imageMediaUrls(additionalMedia),
-        primaryMedia,
-        additionalMedia,
-        purposeKey: d.purpose_key ?? null,
-        mainPropertyTypeIds: d.main_property_type_ids ?? [],
-        mainPropertyTypeKeys: d.main_property_type_keys ?? [],
-        propertyTypeIds: d.property_type_ids?.length
-          ? d.property_type_ids
-          : d.property_type_id != null
-            ? [d.property_type_id]
-            : [],
-        propertyType: d.property_type_en ?? null,
-        isLiked: false,
-      },
-    };
-  });
-
-  if (sessionId) {
-    const viewStatusMap = await getPropertyViewStatus(propertyIds, sessionId, userId);
-    items.forEach((item) => {
-      const status = viewStatusMap.get(item.property.id);
-      if (status) {
-        item.property.isLiked = status.isLiked;
-      }
-    });
-  }
+  const [resp, facetCounts] = await Promise.all([
+    typesenseSearch<TypesensePropertyDoc>({
+      collection: 'properties',
+      q: buildSearchQuery(filterState),
+      queryBy,
+      filterBy: pageFilterBy,
+      sortBy,
+      page,
+      perPage,
+      highlight,
+      curation,
+    }),
+    facets?.length ? runSearchFacets(filterState, facets, nlOptions) : undefined,
+  ]);
 
-  return { items, found: resp.found };
+  return toResult(resp, facetCounts);
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await validateBody(request, searchBodySchema);
 
-    const normalizedPurpose = body.purpose?.trim().toLowerCase().replace(/\s+/g, '_') ?? '';
-
-    const filterState: SearchFilterState = {
-      purpose: normalizedPurpose,
-      countryId: body.countryId ?? DEFAULT_COUNTRY_ID,
-      location: body.location,
-      completionStatuses: body.completionStatus?.length ? body.completionStatus : undefined,
-      mainPropertyTypeIds: body.mainPropertyTypeIds?.length ? body.mainPropertyTypeIds : undefined,
-      propertyTypeIds: body.propertyTypeIds,
-      bedrooms: body.bedrooms?.length ? body.bedrooms : undefined,
-      bathrooms: body.bathrooms?.length ? body.bathrooms : undefined,
-      priceMin: body.price?.[0],
-      priceMax: body.price?.[1],
-      areaMin: body.area?.[0],
-      areaMax: body.area?.[1],
-      keyword: undefined,
-      keywords: normalizeKeywords(body.keyword ?? body.keywords),
-      agentIds: normalizeAgentIds(body.agentIds),
-      featureIds: body.featureIds?.length ? body.featureIds : undefined,
-    };
-
-    const nlModelId = process.env.TYPESENSE_NL_MODEL_ID?.trim() || undefined;
-    const { qValue, willUseNl } = resolveNaturalLanguageSearchMode(
+    const filterState = filterStateFromBody(body);
+    applySearchSort(filterState, body.sortBy);
+    const nlOptions = await resolveSearchNlOptions(
+      filterState,
       body.q,
-      nlModelId,
       body.nl_query === false
     );
-    applyQAsKeywordFallback(filterState, qValue, willUseNl);
-
-    if (!willUseNl && !filterState.purpose?.trim()) {
-      filterState.purpose = 'for_sale';
-    }
+    await resolveSearchCountry(filterState, request);
+    const facets = normalizeSearchFacets(body.facets);
 
-    const page = body.page ?? DEFAULT_PAGE;
-    const perPage = body.limit ?? DEFAULT_LIMIT;
+    const paging: SearchPaging = {
+      page: body.page ?? DEFAULT_PAGE,
+      perPage: body.limit ?? DEFAULT_LIMIT,
+      cursor: body.cursor,
+    };
 
-    const { items, found } = await runSearch(filterState, page, perPage, request, {
-      useNlQuery: willUseNl,
-      rawQ: qValue || undefined,
-      nlModelId,
-    });
-    return createPaginatedResponse(items, page, perPage, found);
+    const result = await runSearch(filterState, paging, request, nlOptions, facets, body.highlight);
+    return createPaginatedResponse(
+      result.items,
+      result.page,
+      result.perPage,
+      result.found,
+      resultMeta(result),
+      result.nextCursor
+    );
   } catch (error) {
     return createErrorResponse(error);
   }
@@ -23,6 +23,7 @@ async function handler(request: NextRequest, user: JWTPayload) {
           lastLogin: currentUser.last_login,
           isActive: currentUser.is_active,
           preferredLanguageCode: currentUser.preferred_language_code,
+          favouriteAlertsEnabled: currentUser.favourite_alerts_enabled,
           createdAt: currentUser.created_at,
           updatedAt: currentUser.updated_at,
         },
@@ -42,6 +43,9 @@ async function handler(request: NextRequest, user: JWTPayload) {
       if (body.preferredLanguageCode !== undefined) {
         updates.preferred_language_code = body.preferredLanguageCode;
       }
+      if (body.favouriteAlertsEnabled !== undefined) {
+        updates.favourite_alerts_enabled = body.favouriteAlertsEnabled;
+      }
 
       const updatedUser = await updateUser(user.userId, updates);
 
@@ -60,6 +64,7 @@ async function handler(request: NextRequest, user: JWTPayload) {
           lastLogin: updatedUser.last_login,
           isActive: updatedUser.is_active,
           preferredLanguageCode: updatedUser.preferred_language_code,
+          favouriteAlertsEnabled: updatedUser.favourite_alerts_enabled,
           createdAt: updatedUser.created_at,
           updatedAt: updatedUser.updated_at,
         },
@@ -1,5 +1,6 @@
 /**
- * In-memory caches for filter config, property details, and feed preferences.
+ * In-memory caches for filter config, property details, feed preferences, NL interpretations and
+ * merchandising rules.
  * For production with multiple instances, consider Redis or Vercel KV.
  */
 
@@ -11,14 +12,22 @@ interface CacheEntry<T> {
 class SimpleCache {
   private cache = new Map<string, CacheEntry<unknown>>();
   private defaultTTL: number;
+  /** With a cap, the least recently used entry is evicted (Map order = recency). */
+  private maxEntries: number | null;
 
-  constructor(defaultTTLMs: number) {
+  constructor(defaultTTLMs: number, maxEntries?: number) {
     this.defaultTTL = defaultTTLMs;
+    this.maxEntries = maxEntries ?? null;
   }
 
   set<T>(key: string, value: T, ttl?: number): void {
     const expiresAt = Date.now() + (ttl ?? this.defaultTTL);
+    this.cache.delete(key);
     this.cache.set(key, { data: value, expiresAt });
+    if (this.maxEntries != null && this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
   }
 
   get<T>(key: string): T | null {
@@ -28,6 +37,10 @@ class SimpleCache {
       this.cache.delete(key);
       return null;
     }
+    if (this.maxEntries != null) {
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+    }
     return entry.data as T;
   }
 
@@ -63,11 +76,36 @@ export const feedPrefsCache = new SimpleCache(FEED_PREFS_TTL);
 const ROLE_CACHE_TTL = 10 * 60 * 1000;
 export const roleCache = new SimpleCache(ROLE_CACHE_TTL);
 
+// Exchange rates: 10 minutes (master.EXCHANGE_RATES updated out of band)
+const EXCHANGE_RATE_TTL = 10 * 60 * 1000;
+export const exchangeRateCache = new SimpleCache(EXCHANGE_RATE_TTL);
+
+// NL query interpretations: 1 hour (the LLM reads the same sentence the same way); keys are
+// user sentences, so the entry count is capped (LRU)
+const NL_INTERPRETATION_TTL = 60 * 60 * 1000;
+const NL_INTERPRETATION_MAX_ENTRIES = 10000;
+export const nlInterpretationCache = new SimpleCache(
+  NL_INTERPRETATION_TTL,
+  NL_INTERPRETATION_MAX_ENTRIES
+);
+
+// Merchandising rules: 1 minute (cleared on admin writes; schedules are checked per request)
+const MERCHANDISING_RULE_TTL = 60 * 1000;
+export const merchandisingRuleCache = new SimpleCache(MERCHANDISING_RULE_TTL);
+
+// Session country codes: 10 minutes (set once per session from the client / IP)
+const SESSION_COUNTRY_TTL = 10 * 60 * 1000;
+export const sessionCountryCache = new SimpleCache(SESSION_COUNTRY_TTL);
+
 if (typeof setInterval !== 'undefined') {
   setInterval(() => {
     filterConfigCache.cleanup();
     propertyDetailCache.cleanup();
     feedPrefsCache.cleanup();
     roleCache.cleanup();
+    exchangeRateCache.cleanup();
+    nlInterpretationCache.cleanup();
+    merchandisingRuleCache.cleanup();
+    sessionCountryCache.cleanup();
   }, 10 * 60 * 1000);
 }
@@ -0,0 +1,34 @@
+import { query } from '@/lib/db/client';
+
+export type CountrySettingsRow = {
+  country_id: number;
+  country_code: string;
+  default_currency_id: number;
+  default_currency_code: string;
+  is_default: boolean;
+};
+
+/** Country of listings whose location has none: the is_default row of master.COUNTRY_SETTINGS. */
+export const SQL_DEFAULT_COUNTRY_ID =
+  '(SELECT cs.country_id FROM master.COUNTRY_SETTINGS cs WHERE cs.is_default LIMIT 1)';
+
+/** Countries search serves (is_search_enabled), default first. */
+export async function getSearchCountrySettings(): Promise<CountrySettingsRow[]> {
+  const res = await query<CountrySettingsRow>(
+    `
+    SELECT
+      cs.country_id,
+      UPPER(co.country_code) AS country_code,
+      cs.default_currency_id,
+      UPPER(cur.currency_code) AS default_currency_code,
+      cs.is_default
+    FROM master.COUNTRY_SETTINGS cs
+    JOIN master.COUNTRIES co ON co.country_id = cs.country_id
+    JOIN master.CURRENCIES cur ON cur.currency_id = cs.default_currency_id
+    WHERE cs.is_search_enabled = TRUE
+      AND COALESCE(co.is_active, TRUE) = TRUE
+    ORDER BY cs.is_default DESC, cs.country_id
+    `
+  );
+  return res.rows;
+}
@@ -0,0 +1,21 @@
+import { query } from '@/lib/db/client';
+
+export type ExchangeRateRow = {
+  currency_id: number;
+  currency_code: string;
+  currency_symbol: string | null;
+  decimal_places: number | null;
+  rate_to_usd: string;
+};
+
+/** Active currencies that have an exchange rate. */
+export async function getExchangeRates(): Promise<ExchangeRateRow[]> {
+  const res = await query<ExchangeRateRow>(
+    `SELECT c.currency_id, c.currency_code, c.currency_symbol, c.decimal_places,
+            r.rate_to_usd::text AS rate_to_usd
+     FROM master.EXCHANGE_RATES r
+     JOIN master.CURRENCIES c ON c.currency_id = r.currency_id
+     WHERE COALESCE(c.is_active, TRUE) = TRUE`
+  );
+  return res.rows;
+}
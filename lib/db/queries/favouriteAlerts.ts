@@ -0,0 +1,152 @@
+import { query } from '@/lib/db/client';
+import { sqlLocalizedTitle } from '@/lib/search/unwrapTitle';
+
+export type FavouriteAlertType = 'price_drop' | 'back_on_market' | 'sold' | 'rented';
+
+export type PropertyHistoryRow = {
+  history_id: string;
+  property_id: number;
+  price: string | null;
+  previous_price: string | null;
+  status: string | null;
+  previous_status: string | null;
+  changed_at: string;
+};
+
+/** Pending alert joined with the recipient and the property (title in the user's language). */
+export type PendingFavouriteAlertRow = {
+  alert_id: string;
+  user_id: string;
+  email: string;
+  preferred_language_code: string | null;
+  property_id: number;
+  alert_type: FavouriteAlertType;
+  title: string | null;
+  price: string | null;
+  previous_price: string | null;
+  currency_code: string | null;
+};
+
+/** History rows not yet classified by the favourite-alerts job, oldest first. */
+export async function getUnprocessedPropertyHistory(limit: number): Promise<PropertyHistoryRow[]> {
+  const res = await query<PropertyHistoryRow>(
+    `SELECT history_id::text, property_id, price::text, previous_price::text,
+            status, previous_status, changed_at
+     FROM property.PROPERTY_HISTORY
+     WHERE alerts_processed_at IS NULL
+     ORDER BY history_id ASC
+     LIMIT $1`,
+    [limit]
+  );
+  return res.rows;
+}
+
+export async function markPropertyHistoryProcessed(historyIds: string[]): Promise<void> {
+  if (historyIds.length === 0) return;
+  await query(
+    `UPDATE property.PROPERTY_HISTORY
+     SET alerts_processed_at = NOW() AT TIME ZONE 'UTC'
+     WHERE history_id = ANY($1::bigint[])`,
+    [historyIds]
+  );
+}
+
+/**
+ * Queue one alert per signed-in user who liked the property (active, verified, not opted out).
+ * Idempotent per (user, history row). Returns the number of alerts queued.
+ */
+export async function queueFavouriteAlerts(
+  historyId: string,
+  propertyId: number,
+  alertType: FavouriteAlertType
+): Promise<number> {
+  const res = await query(
+    `INSERT INTO user_activity.FAVOURITE_ALERTS (user_id, property_id, history_id, alert_type)
+     SELECT v.user_id, v.property_id, $1::bigint, $3
+     FROM property.PROPERTY_VIEWS v
+     JOIN login.users u ON u.id = v.user_id
+     WHERE v.property_id = $2
+       AND v.user_id IS NOT NULL
+       AND v.is_liked = TRUE
+       AND u.is_active = TRUE
+       AND u.email_verified = TRUE
+       AND u.favourite_alerts_enabled = TRUE
+     ON CONFLICT (user_id, history_id) DO NOTHING`,
+    [historyId, propertyId, alertType]
+  );
+  return res.rowCount ?? 0;
+}
+
+/** Users who opted out (or unliked) after an alert was queued: drop those alerts unsent. */
+export async function skipStaleFavouriteAlerts(): Promise<number> {
+  const res = await query(
+    `UPDATE user_activity.FAVOURITE_ALERTS a
+     SET status = 'skipped'
+     FROM login.users u
+     WHERE a.status = 'pending'
+       AND u.id = a.user_id
+       AND (
+         u.favourite_alerts_enabled = FALSE
+         OR NOT EXISTS (
+           SELECT 1 FROM property.PROPERTY_VIEWS v
+           WHERE v.user_id = a.user_id AND v.property_id = a.property_id AND v.is_liked = TRUE
+         )
+       )`
+  );
+  return res.rowCount ?? 0;
+}
+
+/** Pending alerts, oldest first, for up to userLimit users (all of each user's alerts, for one digest). */
+export async function getPendingFavouriteAlerts(userLimit: number): Promise<PendingFavouriteAlertRow[]> {
+  const res = await query<PendingFavouriteAlertRow>(
+    `WITH users_due AS (
+       SELECT user_id, MIN(created_at) AS first_at
+       FROM user_activity.FAVOURITE_ALERTS
+       WHERE status = 'pending'
+       GROUP BY user_id
+       ORDER BY first_at ASC
+       LIMIT $1
+     )
+     SELECT a.alert_id::text, a.user_id, u.email, u.preferred_language_code,
+            a.property_id, a.alert_type,
+            ${sqlLocalizedTitle("CASE WHEN u.preferred_language_code = 'ar' THEN 'ar' ELSE 'en' END")} AS title,
+            h.price::text, h.previous_price::text, c.currency_code
+     FROM user_activity.FAVOURITE_ALERTS a
+     JOIN users_due d ON d.user_id = a.user_id
+     JOIN login.users u ON u.id = a.user_id
+     JOIN property.PROPERTY_HISTORY h ON h.history_id = a.history_id
+     JOIN property.PROPERTIES p ON p.property_id = a.property_id
+     LEFT JOIN master.CURRENCIES c ON c.currency_id = COALESCE(h.currency_id, p.currency_id)
+     WHERE a.status = 'pending'
+     ORDER BY d.first_at ASC, a.user_id, a.created_at ASC`,
+    [userLimit]
+  );
+  return res.rows;
+}
+
+export async function markFavouriteAlertsSent(alertIds: string[]): Promise<void> {
+  if (alertIds.length === 0) return;
+  await query(
+    `UPDATE user_activity.FAVOURITE_ALERTS
+     SET status = 'sent', sent_at = NOW() AT TIME ZONE 'UTC', attempts = attempts + 1, last_error = NULL
+     WHERE alert_id = ANY($1::bigint[])`,
+    [alertIds]
+  );
+}
+
+/** Failed send: stays pending for retry until maxAttempts, then marked failed. */
+export async function markFavouriteAlertsFailed(
+  alertIds: string[],
+  error: string,
+  maxAttempts: number
+): Promise<void> {
+  if (alertIds.length === 0) return;
+  await query(
+    `UPDATE user_activity.FAVOURITE_ALERTS
+     SET attempts = attempts + 1,
+         last_error = $2,
+         status = CASE WHEN attempts + 1 >= $3 THEN 'failed' ELSE 'pending' END
+     WHERE alert_id = ANY($1::bigint[])`,
+    [alertIds, error.slice(0, 1000), maxAttempts]
+  );
+}
@@ -1,4 +1,5 @@
 import { query } from '@/lib/db/client';
+import { SQL_DEFAULT_COUNTRY_ID } from '@/lib/db/queries/countrySettings';
 import { sqlLocalizedTitle } from '@/lib/search/unwrapTitle';
 
 export type FeaturedPropertyRow = {
@@ -27,7 +28,7 @@ export async function countFeaturedProperties(countryId: number): Promise<number
     SELECT COUNT(*)::text AS total
     FROM property.PROPERTIES p
     LEFT JOIN property.LOCATIONS l ON l.location_id = p.location_id
-    WHERE COALESCE(l.country_id, 1) = $1
+    WHERE COALESCE(l.country_id, ${SQL_DEFAULT_COUNTRY_ID}) = $1
       AND p.is_featured = TRUE
     `,
     [countryId]
@@ -73,7 +74,7 @@ export async function getFeaturedProperties(options: {
       LIMIT 1
     ) img ON TRUE
     LEFT JOIN business.AGENTS a ON a.agent_id = p.agent_id
-    WHERE COALESCE(l.country_id, 1) = $1
+    WHERE COALESCE(l.country_id, ${SQL_DEFAULT_COUNTRY_ID}) = $1
       AND p.is_featured = TRUE
     ORDER BY p.featured_rank ASC NULLS LAST, p.updated_at DESC
     LIMIT $2
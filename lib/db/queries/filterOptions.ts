@@ -144,6 +144,68 @@ export async function getPropertyTypesForFilter(
   }));
 }
 
+/**
+ * type_ids whose type_key or English name matches (case-insensitive); maps NL-generated
+ * property type filters back to propertyTypeIds.
+ */
+export async function getPropertyTypeIdsByKeys(keys: string[]): Promise<number[]> {
+  if (keys.length === 0) return [];
+  const res = await query<{ type_id: number }>(
+    `
+    SELECT type_id
+    FROM property.PROPERTY_TYPES
+    WHERE lower(type_key) = ANY($1) OR lower(name_translations->>'en') = ANY($1)
+    ORDER BY type_id
+    `,
+    [keys.map((k) => k.toLowerCase())]
+  );
+  return res.rows.map((r) => r.type_id);
+}
+
+/** main_type_ids by main_type_key or English name (case-insensitive). */
+export async function getMainPropertyTypeIdsByKeys(keys: string[]): Promise<number[]> {
+  if (keys.length === 0) return [];
+  const res = await query<{ main_type_id: number }>(
+    `
+    SELECT main_type_id
+    FROM property.MAIN_PROPERTY_TYPES
+    WHERE lower(main_type_key) = ANY($1) OR lower(name_translations->>'en') = ANY($1)
+    ORDER BY main_type_id
+    `,
+    [keys.map((k) => k.toLowerCase())]
+  );
+  return res.rows.map((r) => r.main_type_id);
+}
+
+/** Key plus English / Arabic names of a property type or feature (rule-based NL parser). */
+export type VocabularyRow = { id: number; key: string; name_en: string | null; name_ar: string | null };
+
+export async function getPropertyTypeVocabulary(): Promise<VocabularyRow[]> {
+  const res = await query<VocabularyRow>(
+    `
+    SELECT type_id AS id, type_key AS key,
+           name_translations->>'en' AS name_en, name_translations->>'ar' AS name_ar
+    FROM property.PROPERTY_TYPES
+    ORDER BY type_id
+    `
+  );
+  return res.rows;
+}
+
+/** Active features only. */
+export async function getFeatureVocabulary(): Promise<VocabularyRow[]> {
+  const res = await query<VocabularyRow>(
+    `
+    SELECT feature_id AS id, feature_key AS key,
+           name_translations->>'en' AS name_en, name_translations->>'ar' AS name_ar
+    FROM property.FEATURES
+    WHERE is_active = TRUE
+    ORDER BY feature_id
+    `
+  );
+  return res.rows;
+}
+
 /**
  * Min/max bedrooms from PROPERTY_DETAILS, scoped by purpose (and optional country).
  */
@@ -308,6 +370,23 @@ export async function getKeywordsForFilter(): Promise<OptionItem[]> {
   }));
 }
 
+/** Active keywords with the active feature keys they map to (KEYWORD_FEATURES); unmapped keywords are omitted. */
+export async function getKeywordFeatureMappings(): Promise<
+  Array<{ keyword_key: string; display_label: string | null; feature_keys: string[] }>
+> {
+  const res = await query<{ keyword_key: string; display_label: string | null; feature_keys: string[] }>(
+    `
+    SELECT k.keyword_key, k.display_label, array_agg(f.feature_key ORDER BY f.feature_key) AS feature_keys
+    FROM property.KEYWORDS k
+    JOIN property.KEYWORD_FEATURES kf ON kf.keyword_id = k.keyword_id
+    JOIN property.FEATURES f ON f.feature_id = kf.feature_id AND f.is_active = TRUE
+    WHERE k.is_active = TRUE
+    GROUP BY k.keyword_id, k.keyword_key, k.display_label
+    `
+  );
+  return res.rows;
+}
+
 /**
  * Distinct agents that list properties for this purpose (and optional country).
  * Label: agent_name; if agency_id set, append agency name from AGENCIES.translations.
@@ -0,0 +1,99 @@
+import { withTransaction } from '@/lib/db/client';
+
+export type LocationLevel = 'city' | 'area' | 'community';
+
+export type LocationSuggestionRow = {
+  level: LocationLevel;
+  location_key: string;
+  name_en: string;
+  name_ar: string;
+  path_en: string;
+  path_ar: string;
+  listing_count: number;
+  score: number;
+};
+
+/** Minimum match score: prefix matches score 1 / 0.9, otherwise pg_trgm word_similarity (typos). */
+const MIN_SUGGEST_SCORE = 0.4;
+
+/** JS mirror of property.normalize_search_text (matches the view's *_norm columns). */
+function normalizeSearchText(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه');
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Location typeahead over the city › area › community hierarchy (materialized view
+ * property.LOCATION_SUGGEST_NODES, refreshed by typesense-sync). Matches English and Arabic names
+ * (normalized via property.normalize_search_text): name prefix, word prefix, then trigram word
+ * similarity for typos, all served by the view's GIN trigram indexes. Only levels with active
+ * listings are returned; listing counts are scoped by purpose when given.
+ */
+export async function suggestLocations(options: {
+  q: string;
+  countryId?: number | null;
+  purposeKey?: string | null;
+  limit: number;
+}): Promise<LocationSuggestionRow[]> {
+  const nq = normalizeSearchText(options.q);
+  return withTransaction(async (txQuery) => {
+    // <% uses this threshold, so the trigram index returns exactly the typo candidates we score
+    await txQuery(`SELECT set_config('pg_trgm.word_similarity_threshold', $1, true)`, [
+      String(MIN_SUGGEST_SCORE),
+    ]);
+    const res = await txQuery<LocationSuggestionRow>(
+      `
+      WITH scored AS (
+        SELECT
+          n.*,
+          GREATEST(
+            CASE
+              WHEN n.name_en_norm LIKE $4 || '%' OR n.name_ar_norm LIKE $4 || '%' THEN 1.0
+              WHEN ' ' || n.name_en_norm LIKE '% ' || $4 || '%'
+                OR ' ' || n.name_ar_norm LIKE '% ' || $4 || '%' THEN 0.9
+              ELSE 0
+            END,
+            word_similarity($1, n.name_en_norm),
+            word_similarity($1, n.name_ar_norm)
+          )::float AS score
+        FROM property.LOCATION_SUGGEST_NODES n
+        WHERE n.purpose_scope = COALESCE($3::text, '')
+          AND ($2::int IS NULL OR n.country_id = $2)
+          AND (
+            n.name_en_norm LIKE '%' || $4 || '%'
+            OR n.name_ar_norm LIKE '%' || $4 || '%'
+            OR $1 <% n.name_en_norm
+            OR $1 <% n.name_ar_norm
+          )
+      )
+      SELECT level, location_key, name_en, name_ar, path_en, path_ar, listing_count, score
+      FROM scored
+      WHERE score >= $5
+      ORDER BY
+        score DESC,
+        listing_count DESC,
+        CASE level WHEN 'city' THEN 1 WHEN 'area' THEN 2 ELSE 3 END,
+        name_en
+      LIMIT $6
+      `,
+      [
+        nq,
+        options.countryId ?? null,
+        options.purposeKey ?? null,
+        escapeLike(nq),
+        MIN_SUGGEST_SCORE,
+        options.limit,
+      ]
+    );
+    return res.rows;
+  });
+}
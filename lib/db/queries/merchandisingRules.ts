@@ -0,0 +1,135 @@
+import { query } from '@/lib/db/client';
+
+export type MerchandisingRuleRow = {
+  rule_id: number;
+  name: string;
+  match_query: string | null;
+  match_location_id: string | null;
+  country_id: number | null;
+  purpose_key: string | null;
+  pinned_property_ids: number[];
+  hidden_property_ids: number[];
+  priority: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type MerchandisingRuleInput = {
+  name: string;
+  matchQuery: string | null;
+  matchLocationId: string | null;
+  countryId: number | null;
+  purposeKey: string | null;
+  pinnedPropertyIds: number[];
+  hiddenPropertyIds: number[];
+  priority: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  isActive: boolean;
+};
+
+export type MerchandisingRuleUpdates = Partial<MerchandisingRuleInput>;
+
+export async function listMerchandisingRules(): Promise<MerchandisingRuleRow[]> {
+  const res = await query<MerchandisingRuleRow>(
+    `SELECT * FROM master.SEARCH_MERCHANDISING_RULES
+     ORDER BY is_active DESC, priority DESC, rule_id ASC`
+  );
+  return res.rows;
+}
+
+/** Active rules that have not ended; starts_at is checked per request (rules are cached). */
+export async function getLiveMerchandisingRules(): Promise<MerchandisingRuleRow[]> {
+  const res = await query<MerchandisingRuleRow>(
+    `SELECT * FROM master.SEARCH_MERCHANDISING_RULES
+     WHERE is_active = TRUE
+       AND (ends_at IS NULL OR ends_at > NOW() AT TIME ZONE 'UTC')
+     ORDER BY priority DESC, rule_id ASC`
+  );
+  return res.rows;
+}
+
+export async function getMerchandisingRule(ruleId: number): Promise<MerchandisingRuleRow | null> {
+  const res = await query<MerchandisingRuleRow>(
+    'SELECT * FROM master.SEARCH_MERCHANDISING_RULES WHERE rule_id = $1',
+    [ruleId]
+  );
+  return res.rows[0] || null;
+}
+
+export async function createMerchandisingRule(
+  input: MerchandisingRuleInput & { createdBy: string }
+): Promise<MerchandisingRuleRow> {
+  const res = await query<MerchandisingRuleRow>(
+    `INSERT INTO master.SEARCH_MERCHANDISING_RULES
+       (name, match_query, match_location_id, country_id, purpose_key, pinned_property_ids,
+        hidden_property_ids, priority, starts_at, ends_at, is_active, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6::int[], $7::int[], $8, $9, $10, $11, $12)
+     RETURNING *`,
+    [
+      input.name,
+      input.matchQuery,
+      input.matchLocationId,
+      input.countryId,
+      input.purposeKey,
+      input.pinnedPropertyIds,
+      input.hiddenPropertyIds,
+      input.priority,
+      input.startsAt,
+      input.endsAt,
+      input.isActive,
+      input.createdBy,
+    ]
+  );
+  return res.rows[0];
+}
+
+export async function updateMerchandisingRule(
+  ruleId: number,
+  updates: MerchandisingRuleUpdates
+): Promise<MerchandisingRuleRow | null> {
+  const setParts: string[] = [];
+  const values: Array<string | number | boolean | Date | number[] | null> = [];
+  const set = (sql: string, value: string | number | boolean | Date | number[] | null) => {
+    values.push(value);
+    setParts.push(sql.replace('?', `$${values.length}`));
+  };
+
+  if (updates.name !== undefined) set('name = ?', updates.name);
+  if (updates.matchQuery !== undefined) set('match_query = ?', updates.matchQuery);
+  if (updates.matchLocationId !== undefined) set('match_location_id = ?', updates.matchLocationId);
+  if (updates.countryId !== undefined) set('country_id = ?', updates.countryId);
+  if (updates.purposeKey !== undefined) set('purpose_key = ?', updates.purposeKey);
+  if (updates.pinnedPropertyIds !== undefined) set('pinned_property_ids = ?::int[]', updates.pinnedPropertyIds);
+  if (updates.hiddenPropertyIds !== undefined) set('hidden_property_ids = ?::int[]', updates.hiddenPropertyIds);
+  if (updates.priority !== undefined) set('priority = ?', updates.priority);
+  if (updates.startsAt !== undefined) set('starts_at = ?', updates.startsAt);
+  if (updates.endsAt !== undefined) set('ends_at = ?', updates.endsAt);
+  if (updates.isActive !== undefined) set('is_active = ?', updates.isActive);
+
+  if (setParts.length === 0) {
+    return getMerchandisingRule(ruleId);
+  }
+
+  values.push(ruleId);
+  const res = await query<MerchandisingRuleRow>(
+    `UPDATE master.SEARCH_MERCHANDISING_RULES
+     SET ${setParts.join(', ')}
+     WHERE rule_id = $${values.length}
+     RETURNING *`,
+    values
+  );
+  return res.rows[0] || null;
+}
+
+export async function deleteMerchandisingRule(ruleId: number): Promise<boolean> {
+  const res = await query(
+    'DELETE FROM master.SEARCH_MERCHANDISING_RULES WHERE rule_id = $1',
+    [ruleId]
+  );
+  return (res.rowCount ?? 0) > 0;
+}
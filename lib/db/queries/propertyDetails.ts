@@ -1,4 +1,5 @@
 import { query } from '@/lib/db/client';
+import { SQL_DEFAULT_COUNTRY_ID } from '@/lib/db/queries/countrySettings';
 import { sqlLocalizedTitle } from '@/lib/search/unwrapTitle';
 
 export type PropertyDetailRow = {
@@ -11,6 +12,11 @@ export type PropertyDetailRow = {
   furnishing_status: string | null;
   completion_status: string | null;
   is_off_plan: boolean | null;
+  /** YYYY-MM-DD; null = available now */
+  available_from: string | null;
+  /** for_rent only: yearly | monthly */
+  rent_frequency: string | null;
+  number_of_cheques: number | null;
   currency_code: string | null;
   currency_symbol: string | null;
   purpose_key: string | null;
@@ -27,6 +33,12 @@ export type PropertyDetailRow = {
   bathrooms: number | null;
   area_sqm: number | null;
   area_sqft: number | null;
+  parking_spaces: number | null;
+  floor_number: number | null;
+  total_floors: number | null;
+  year_built: number | null;
+  price_per_sqm: number | null;
+  price_per_sqft: number | null;
   features_jsonb: string[] | null;
   agent_id: number | null;
   agent_name: string | null;
@@ -46,6 +58,14 @@ export type PropertyDetailRow = {
   images_json: PropertyImageJson[] | null;
   /** Videos from property.property_videos (url, thumbnailUrl, displayOrder, durationSeconds, isFeatured). */
   videos_json: PropertyVideoJson[] | null;
+  /** property.PROPERTY_OPEN_HOUSES slots that have not ended, soonest first. */
+  open_houses_json: PropertyOpenHouseJson[] | null;
+};
+
+export type PropertyOpenHouseJson = {
+  /** UTC timestamps without zone (TIMESTAMP columns) */
+  startsAt: string;
+  endsAt: string;
 };
 
 export type PropertyImageJson = {
@@ -85,6 +105,9 @@ export async function getPropertyById(
       p.furnishing_status,
       p.completion_status,
       p.is_off_plan,
+      to_char(p.available_from, 'YYYY-MM-DD') AS available_from,
+      p.rent_frequency,
+      p.number_of_cheques,
       c.currency_code,
       c.currency_symbol,
       pur.purpose_key,
@@ -101,6 +124,12 @@ export async function getPropertyById(
       pd.bathrooms,
       pd.area_sqm::float AS area_sqm,
       pd.area_sqft::float AS area_sqft,
+      pd.parking_spaces,
+      pd.floor_number,
+      pd.total_floors,
+      pd.year_built,
+      ROUND(p.price / NULLIF(COALESCE(pd.area_sqm, pd.area_sqft / 10.7639), 0), 2)::float AS price_per_sqm,
+      ROUND(p.price / NULLIF(COALESCE(pd.area_sqft, pd.area_sqm * 10.7639), 0), 2)::float AS price_per_sqft,
       (
         SELECT COALESCE(array_agg(f.feature_key ORDER BY f.feature_id), '{}')
         FROM unnest(COALESCE(pd.feature_ids, '{}')) AS fid
@@ -148,10 +177,22 @@ export async function getPropertyById(
         )
         FROM property.property_videos pv
         WHERE pv.property_id = p.property_id
-      ) AS videos_json
+      ) AS videos_json,
+      (
+        SELECT COALESCE(
+          json_agg(
+            json_build_object('startsAt', oh.starts_at, 'endsAt', oh.ends_at)
+            ORDER BY oh.starts_at ASC
+          ),
+          '[]'::json
+        )
+        FROM property.PROPERTY_OPEN_HOUSES oh
+        WHERE oh.property_id = p.property_id
+          AND oh.ends_at > NOW() AT TIME ZONE 'UTC'
+      ) AS open_houses_json
     FROM property.PROPERTIES p
     LEFT JOIN property.LOCATIONS l ON l.location_id = p.location_id
-    LEFT JOIN master.COUNTRIES co ON co.country_id = COALESCE(l.country_id, 1)
+    LEFT JOIN master.COUNTRIES co ON co.country_id = COALESCE(l.country_id, ${SQL_DEFAULT_COUNTRY_ID})
     LEFT JOIN property.PROPERTY_DETAILS pd ON pd.property_id = p.property_id
     JOIN master.CURRENCIES c ON c.currency_id = p.currency_id
     JOIN property.PURPOSES pur ON pur.purpose_id = p.purpose_id
@@ -0,0 +1,44 @@
+import { query } from '@/lib/db/client';
+
+export type PriceHistoryPointRow = {
+  price: string;
+  changed_at: string;
+};
+
+export type PriceHistoryPropertyRow = {
+  property_id: number;
+  status: string | null;
+  price: string | null;
+  currency_code: string | null;
+  currency_symbol: string | null;
+};
+
+export async function getPriceHistoryProperty(
+  propertyId: number
+): Promise<PriceHistoryPropertyRow | null> {
+  const res = await query<PriceHistoryPropertyRow>(
+    `SELECT p.property_id, p.status, p.price::text, c.currency_code, c.currency_symbol
+     FROM property.PROPERTIES p
+     LEFT JOIN master.CURRENCIES c ON c.currency_id = p.currency_id
+     WHERE p.property_id = $1`,
+    [propertyId]
+  );
+  return res.rows[0] || null;
+}
+
+/**
+ * Dated price points from property.PROPERTY_HISTORY, oldest first: the listing snapshot
+ * plus every row where the price changed (status-only changes are skipped).
+ */
+export async function getPropertyPriceHistory(propertyId: number): Promise<PriceHistoryPointRow[]> {
+  const res = await query<PriceHistoryPointRow>(
+    `SELECT h.price::text, h.changed_at
+     FROM property.PROPERTY_HISTORY h
+     WHERE h.property_id = $1
+       AND h.price IS NOT NULL
+       AND h.price IS DISTINCT FROM h.previous_price
+     ORDER BY h.changed_at ASC, h.history_id ASC`,
+    [propertyId]
+  );
+  return res.rows;
+}
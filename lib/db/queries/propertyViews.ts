@@ -207,6 +207,40 @@ export async function getPropertyViewStatus(
   return map;
 }
 
+/**
+ * Most recently disliked property IDs for the user (or the anonymous session when no user),
+ * used to keep disliked listings out of recommendations.
+ */
+export async function getDislikedPropertyIds(
+  sessionId: string | null,
+  userId: string | null,
+  limit: number
+): Promise<number[]> {
+  if (!userId && !sessionId) return [];
+  const res = userId
+    ? await query<{ property_id: number }>(
+        `
+        SELECT property_id
+        FROM property.PROPERTY_VIEWS
+        WHERE user_id = $1 AND is_disliked = TRUE
+        ORDER BY feedback_at DESC NULLS LAST
+        LIMIT $2
+        `,
+        [userId, limit]
+      )
+    : await query<{ property_id: number }>(
+        `
+        SELECT property_id
+        FROM property.PROPERTY_VIEWS
+        WHERE session_id = $1 AND user_id IS NULL AND is_disliked = TRUE
+        ORDER BY feedback_at DESC NULLS LAST
+        LIMIT $2
+        `,
+        [sessionId, limit]
+      );
+  return res.rows.map((r) => r.property_id);
+}
+
 /**
  * Get paginated list of property IDs the authenticated user has liked (favourites),
  * ordered by most recently liked first (feedback_at DESC).
@@ -0,0 +1,208 @@
+import { randomBytes } from 'crypto';
+import { query } from '@/lib/db/client';
+import type { SearchFilterState } from '@/lib/search/buildFilterQuery';
+
+export type SavedSearchFrequency = 'instant' | 'daily' | 'weekly';
+
+export type SavedSearchRow = {
+  saved_search_id: number;
+  user_id: string;
+  name: string;
+  filter_state: SearchFilterState;
+  q: string | null;
+  nl_query: boolean;
+  alert_frequency: SavedSearchFrequency;
+  alerts_enabled: boolean;
+  alert_watermark: string;
+  last_checked_at: string | null;
+  last_alerted_at: string | null;
+  unsubscribe_token: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Due saved search joined with the owner's email and language (alert job). */
+export type DueSavedSearchRow = SavedSearchRow & {
+  email: string;
+  preferred_language_code: string | null;
+};
+
+export type SavedSearchUpdates = {
+  name?: string;
+  filterState?: SearchFilterState;
+  q?: string | null;
+  nlQuery?: boolean;
+  frequency?: SavedSearchFrequency;
+  alertsEnabled?: boolean;
+};
+
+/** Per-frequency minimum gap between alert runs (slack so cron drift doesn't skip a day). */
+const DUE_INTERVAL_SQL = `
+  CASE s.alert_frequency
+    WHEN 'instant' THEN INTERVAL '0'
+    WHEN 'daily' THEN INTERVAL '1 day' - INTERVAL '10 minutes'
+    ELSE INTERVAL '7 days' - INTERVAL '10 minutes'
+  END
+`;
+
+function generateUnsubscribeToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+export async function listSavedSearches(userId: string): Promise<SavedSearchRow[]> {
+  const res = await query<SavedSearchRow>(
+    `SELECT * FROM user_activity.SAVED_SEARCHES
+     WHERE user_id = $1
+     ORDER BY created_at DESC`,
+    [userId]
+  );
+  return res.rows;
+}
+
+export async function countSavedSearches(userId: string): Promise<number> {
+  const res = await query<{ total: string }>(
+    'SELECT COUNT(*)::text AS total FROM user_activity.SAVED_SEARCHES WHERE user_id = $1',
+    [userId]
+  );
+  return parseInt(res.rows[0]?.total || '0', 10);
+}
+
+/** Owner-scoped lookup: another user's id returns null. */
+export async function getSavedSearch(
+  userId: string,
+  savedSearchId: number
+): Promise<SavedSearchRow | null> {
+  const res = await query<SavedSearchRow>(
+    'SELECT * FROM user_activity.SAVED_SEARCHES WHERE saved_search_id = $1 AND user_id = $2',
+    [savedSearchId, userId]
+  );
+  return res.rows[0] || null;
+}
+
+/** New saved searches only alert on listings created after now (watermark defaults to NOW()). */
+export async function createSavedSearch(input: {
+  userId: string;
+  name: string;
+  filterState: SearchFilterState;
+  q: string | null;
+  nlQuery: boolean;
+  frequency: SavedSearchFrequency;
+}): Promise<SavedSearchRow> {
+  const res = await query<SavedSearchRow>(
+    `INSERT INTO user_activity.SAVED_SEARCHES
+       (user_id, name, filter_state, q, nl_query, alert_frequency, unsubscribe_token)
+     VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      input.userId,
+      input.name,
+      JSON.stringify(input.filterState),
+      input.q,
+      input.nlQuery,
+      input.frequency,
+      generateUnsubscribeToken(),
+    ]
+  );
+  return res.rows[0];
+}
+
+export async function updateSavedSearch(
+  userId: string,
+  savedSearchId: number,
+  updates: SavedSearchUpdates
+): Promise<SavedSearchRow | null> {
+  const setParts: string[] = [];
+  const values: Array<string | number | boolean | null> = [];
+  const set = (sql: string, value: string | boolean | null) => {
+    values.push(value);
+    setParts.push(sql.replace('?', `$${values.length}`));
+  };
+
+  if (updates.name !== undefined) set('name = ?', updates.name);
+  if (updates.filterState !== undefined) set('filter_state = ?::jsonb', JSON.stringify(updates.filterState));
+  if (updates.q !== undefined) set('q = ?', updates.q);
+  if (updates.nlQuery !== undefined) set('nl_query = ?', updates.nlQuery);
+  if (updates.frequency !== undefined) set('alert_frequency = ?', updates.frequency);
+  if (updates.alertsEnabled !== undefined) set('alerts_enabled = ?', updates.alertsEnabled);
+
+  if (setParts.length === 0) {
+    return getSavedSearch(userId, savedSearchId);
+  }
+
+  values.push(savedSearchId, userId);
+  const res = await query<SavedSearchRow>(
+    `UPDATE user_activity.SAVED_SEARCHES
+     SET ${setParts.join(', ')}
+     WHERE saved_search_id = $${values.length - 1} AND user_id = $${values.length}
+     RETURNING *`,
+    values
+  );
+  return res.rows[0] || null;
+}
+
+export async function deleteSavedSearch(userId: string, savedSearchId: number): Promise<boolean> {
+  const res = await query(
+    'DELETE FROM user_activity.SAVED_SEARCHES WHERE saved_search_id = $1 AND user_id = $2',
+    [savedSearchId, userId]
+  );
+  return (res.rowCount ?? 0) > 0;
+}
+
+/** Unsubscribe confirmation page: the search owning the token (read-only). Null when unknown. */
+export async function getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearchRow | null> {
+  const res = await query<SavedSearchRow>(
+    'SELECT * FROM user_activity.SAVED_SEARCHES WHERE unsubscribe_token = $1',
+    [token]
+  );
+  return res.rows[0] || null;
+}
+
+/** One-click unsubscribe: disables alerts for the search owning the token. Null when unknown. */
+export async function disableSavedSearchAlertsByToken(token: string): Promise<SavedSearchRow | null> {
+  const res = await query<SavedSearchRow>(
+    `UPDATE user_activity.SAVED_SEARCHES
+     SET alerts_enabled = FALSE
+     WHERE unsubscribe_token = $1
+     RETURNING *`,
+    [token]
+  );
+  return res.rows[0] || null;
+}
+
+/**
+ * Alert-enabled searches whose frequency interval has elapsed since last_checked_at,
+ * oldest first. Inactive or unverified users are skipped.
+ */
+export async function getDueSavedSearches(limit: number): Promise<DueSavedSearchRow[]> {
+  const res = await query<DueSavedSearchRow>(
+    `SELECT s.*, u.email, u.preferred_language_code
+     FROM user_activity.SAVED_SEARCHES s
+     JOIN login.users u ON u.id = s.user_id
+     WHERE s.alerts_enabled = TRUE
+       AND u.is_active = TRUE
+       AND u.email_verified = TRUE
+       AND (
+         s.last_checked_at IS NULL
+         OR s.last_checked_at <= (NOW() AT TIME ZONE 'UTC') - ${DUE_INTERVAL_SQL}
+       )
+     ORDER BY s.last_checked_at ASC NULLS FIRST, s.saved_search_id ASC
+     LIMIT $1`,
+    [limit]
+  );
+  return res.rows;
+}
+
+/** Record a run; when alerted, advance the created_at watermark to the newest listing emailed. */
+export async function markSavedSearchChecked(
+  savedSearchId: number,
+  alertedWatermark: number | null
+): Promise<void> {
+  await query(
+    `UPDATE user_activity.SAVED_SEARCHES
+     SET last_checked_at = NOW() AT TIME ZONE 'UTC',
+         last_alerted_at = CASE WHEN $2::bigint IS NULL THEN last_alerted_at ELSE NOW() AT TIME ZONE 'UTC' END,
+         alert_watermark = GREATEST(alert_watermark, COALESCE($2::bigint, alert_watermark))
+     WHERE saved_search_id = $1`,
+    [savedSearchId, alertedWatermark]
+  );
+}
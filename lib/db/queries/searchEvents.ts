@@ -0,0 +1,148 @@
+import { query } from '@/lib/db/client';
+
+export type SearchEventInsert = {
+  endpoint: 'search' | 'count';
+  session_id: string | null;
+  user_id: string | null;
+  purpose_key: string | null;
+  country_id: number | null;
+  filter_state: Record<string, unknown>;
+  q: string | null;
+  q_normalized: string | null;
+  nl_used: boolean;
+  nl_generated_params: Record<string, unknown> | null;
+  found: number;
+  latency_ms: number;
+  /** ISO timestamp of the call (rows are written later in batches). */
+  created_at: string;
+};
+
+export type SearchAnalyticsScope = {
+  from: Date;
+  to: Date;
+  purposeKey?: string | null;
+  countryId?: number | null;
+};
+
+export type TopSearchQueryRow = {
+  q: string;
+  searches: number;
+  zero_results: number;
+  avg_found: number;
+  nl_share: number;
+};
+
+export type ZeroResultQueryRow = {
+  q: string;
+  searches: number;
+  last_searched_at: string;
+};
+
+export type FilterUsageRow = {
+  purpose_key: string | null;
+  country_id: number | null;
+  filter: string;
+  uses: number;
+  searches: number;
+};
+
+/** Batch insert: one statement for the whole buffer (events passed as a JSON array). */
+export async function insertSearchEvents(events: SearchEventInsert[]): Promise<void> {
+  if (events.length === 0) return;
+  await query(
+    `INSERT INTO user_activity.SEARCH_EVENTS
+       (endpoint, session_id, user_id, purpose_key, country_id, filter_state, q, q_normalized,
+        nl_used, nl_generated_params, found, latency_ms, created_at)
+     SELECT e.endpoint, e.session_id, u.id, e.purpose_key, e.country_id,
+            COALESCE(e.filter_state, '{}'::jsonb), e.q, e.q_normalized, e.nl_used,
+            e.nl_generated_params, e.found, e.latency_ms, e.created_at
+     FROM jsonb_to_recordset($1::jsonb) AS e(
+       endpoint text, session_id text, user_id uuid, purpose_key text, country_id int,
+       filter_state jsonb, q text, q_normalized text, nl_used boolean,
+       nl_generated_params jsonb, found int, latency_ms int, created_at timestamp
+     )
+     LEFT JOIN login.users u ON u.id = e.user_id`,
+    [JSON.stringify(events)]
+  );
+}
+
+const SCOPE_WHERE = `e.created_at >= $1 AND e.created_at < $2
+       AND ($3::text IS NULL OR e.purpose_key = $3)
+       AND ($4::int IS NULL OR e.country_id = $4)`;
+
+function scopeParams(scope: SearchAnalyticsScope) {
+  return [scope.from, scope.to, scope.purposeKey ?? null, scope.countryId ?? null];
+}
+
+/** Most frequent q on /api/search (count calls excluded: they fire while typing). */
+export async function getTopSearchQueries(
+  scope: SearchAnalyticsScope,
+  limit: number
+): Promise<TopSearchQueryRow[]> {
+  const res = await query<TopSearchQueryRow>(
+    `SELECT e.q_normalized AS q,
+            COUNT(*)::int AS searches,
+            COUNT(*) FILTER (WHERE e.found = 0)::int AS zero_results,
+            ROUND(AVG(e.found))::int AS avg_found,
+            ROUND(AVG(CASE WHEN e.nl_used THEN 1 ELSE 0 END), 2)::float AS nl_share
+     FROM user_activity.SEARCH_EVENTS e
+     WHERE e.endpoint = 'search'
+       AND e.q_normalized IS NOT NULL
+       AND ${SCOPE_WHERE}
+     GROUP BY e.q_normalized
+     ORDER BY searches DESC, e.q_normalized
+     LIMIT $5`,
+    [...scopeParams(scope), limit]
+  );
+  return res.rows;
+}
+
+/** q that returned nothing, most frequent first. */
+export async function getZeroResultQueries(
+  scope: SearchAnalyticsScope,
+  limit: number
+): Promise<ZeroResultQueryRow[]> {
+  const res = await query<ZeroResultQueryRow>(
+    `SELECT e.q_normalized AS q,
+            COUNT(*)::int AS searches,
+            MAX(e.created_at) AS last_searched_at
+     FROM user_activity.SEARCH_EVENTS e
+     WHERE e.endpoint = 'search'
+       AND e.found = 0
+       AND e.q_normalized IS NOT NULL
+       AND ${SCOPE_WHERE}
+     GROUP BY e.q_normalized
+     ORDER BY searches DESC, last_searched_at DESC
+     LIMIT $5`,
+    [...scopeParams(scope), limit]
+  );
+  return res.rows;
+}
+
+/** How often each filter key is set, per purpose and country (searches = calls in that group). */
+export async function getFilterUsage(scope: SearchAnalyticsScope): Promise<FilterUsageRow[]> {
+  const res = await query<FilterUsageRow>(
+    `WITH scoped AS (
+       SELECT e.purpose_key, e.country_id, e.filter_state
+       FROM user_activity.SEARCH_EVENTS e
+       WHERE e.endpoint = 'search'
+         AND ${SCOPE_WHERE}
+     ),
+     totals AS (
+       SELECT purpose_key, country_id, COUNT(*)::int AS searches
+       FROM scoped
+       GROUP BY purpose_key, country_id
+     )
+     SELECT s.purpose_key, s.country_id, k.key AS filter, COUNT(*)::int AS uses, t.searches
+     FROM scoped s
+     CROSS JOIN LATERAL jsonb_object_keys(s.filter_state) AS k(key)
+     JOIN totals t
+       ON t.purpose_key IS NOT DISTINCT FROM s.purpose_key
+      AND t.country_id IS NOT DISTINCT FROM s.country_id
+     WHERE k.key NOT IN ('purpose', 'countryId')
+     GROUP BY s.purpose_key, s.country_id, k.key, t.searches
+     ORDER BY s.purpose_key, s.country_id, uses DESC`,
+    scopeParams(scope)
+  );
+  return res.rows;
+}
@@ -0,0 +1,97 @@
+import { query } from '@/lib/db/client';
+
+export type SearchSynonymRow = {
+  synonym_id: number;
+  synonym_key: string;
+  root: string | null;
+  synonyms: string[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SearchSynonymUpdates = {
+  root?: string | null;
+  synonyms?: string[];
+  isActive?: boolean;
+};
+
+export async function listSearchSynonyms(options: { activeOnly?: boolean } = {}): Promise<SearchSynonymRow[]> {
+  const res = await query<SearchSynonymRow>(
+    `SELECT * FROM master.SEARCH_SYNONYMS
+     ${options.activeOnly ? 'WHERE is_active = TRUE' : ''}
+     ORDER BY synonym_key ASC`
+  );
+  return res.rows;
+}
+
+export async function getSearchSynonym(synonymId: number): Promise<SearchSynonymRow | null> {
+  const res = await query<SearchSynonymRow>(
+    'SELECT * FROM master.SEARCH_SYNONYMS WHERE synonym_id = $1',
+    [synonymId]
+  );
+  return res.rows[0] || null;
+}
+
+export async function getSearchSynonymByKey(synonymKey: string): Promise<SearchSynonymRow | null> {
+  const res = await query<SearchSynonymRow>(
+    'SELECT * FROM master.SEARCH_SYNONYMS WHERE synonym_key = $1',
+    [synonymKey]
+  );
+  return res.rows[0] || null;
+}
+
+export async function createSearchSynonym(input: {
+  synonymKey: string;
+  root: string | null;
+  synonyms: string[];
+  isActive: boolean;
+  createdBy: string;
+}): Promise<SearchSynonymRow> {
+  const res = await query<SearchSynonymRow>(
+    `INSERT INTO master.SEARCH_SYNONYMS (synonym_key, root, synonyms, is_active, created_by)
+     VALUES ($1, $2, $3::text[], $4, $5)
+     RETURNING *`,
+    [input.synonymKey, input.root, input.synonyms, input.isActive, input.createdBy]
+  );
+  return res.rows[0];
+}
+
+export async function updateSearchSynonym(
+  synonymId: number,
+  updates: SearchSynonymUpdates
+): Promise<SearchSynonymRow | null> {
+  const setParts: string[] = [];
+  const values: Array<string | number | boolean | string[] | null> = [];
+  const set = (sql: string, value: string | boolean | string[] | null) => {
+    values.push(value);
+    setParts.push(sql.replace('?', `$${values.length}`));
+  };
+
+  if (updates.root !== undefined) set('root = ?', updates.root);
+  if (updates.synonyms !== undefined) set('synonyms = ?::text[]', updates.synonyms);
+  if (updates.isActive !== undefined) set('is_active = ?', updates.isActive);
+
+  if (setParts.length === 0) {
+    return getSearchSynonym(synonymId);
+  }
+
+  values.push(synonymId);
+  const res = await query<SearchSynonymRow>(
+    `UPDATE master.SEARCH_SYNONYMS
+     SET ${setParts.join(', ')}
+     WHERE synonym_id = $${values.length}
+     RETURNING *`,
+    values
+  );
+  return res.rows[0] || null;
+}
+
+export async function deleteSearchSynonym(synonymId: number): Promise<SearchSynonymRow | null> {
+  const res = await query<SearchSynonymRow>(
+    'DELETE FROM master.SEARCH_SYNONYMS WHERE synonym_id = $1 RETURNING *',
+    [synonymId]
+  );
+  return res.rows[0] || null;
+}
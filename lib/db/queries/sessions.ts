@@ -56,6 +56,17 @@ export async function getUserSession(sessionId: string): Promise<UserSession | n
   return result.rows[0] || null;
 }
 
+/**
+ * Country code recorded for the session (null when unknown or no session)
+ */
+export async function getSessionCountryCode(sessionId: string): Promise<string | null> {
+  const result = await query<{ country_code: string | null }>(
+    'SELECT country_code FROM user_activity.user_sessions WHERE session_id = $1',
+    [sessionId]
+  );
+  return result.rows[0]?.country_code ?? null;
+}
+
 /**
  * Link session to user (when user logs in)
  */
@@ -8,7 +8,7 @@ import { invalidateUserPermissionsCache } from '@/lib/authz/rbac';
 export const EMAIL_VERIFICATION_OTP_TTL_MS = 10 * 60 * 1000;
 
 const USER_COLUMNS =
-  'id, email, email_verified, two_factor_enabled, last_login, is_active, preferred_language_code, created_at, updated_at';
+  'id, email, email_verified, two_factor_enabled, last_login, is_active, preferred_language_code, favourite_alerts_enabled, created_at, updated_at';
 
 /**
  * Create a new user
@@ -210,6 +210,7 @@ export async function updateUser(
     'last_login',
     'is_active',
     'preferred_language_code',
+    'favourite_alerts_enabled',
   ];
 
   const setParts: string[] = [];
@@ -1,5 +1,14 @@
 import { getFromEmail, getSmtpTransporter } from './smtp';
-import { buildPasswordResetEmail, buildPasswordResetEmailWithOtp, buildVerificationEmail, buildVerificationEmailWithOtp } from './templates';
+import {
+  buildFavouriteAlertsEmail,
+  buildPasswordResetEmail,
+  buildPasswordResetEmailWithOtp,
+  buildSavedSearchAlertEmail,
+  buildVerificationEmail,
+  buildVerificationEmailWithOtp,
+  type AlertListing,
+  type FavouriteAlertItem,
+} from './templates';
 
 /** Format email/SMTP errors for logging (message, code, SMTP response) */
 export function formatEmailError(err: unknown): string {
@@ -31,7 +40,13 @@ function buildFrontendLink(pathname: string, token: string): string {
   return url.toString();
 }
 
-async function sendEmail(to: string, subject: string, text: string, html: string): Promise<void> {
+async function sendEmail(
+  to: string,
+  subject: string,
+  text: string,
+  html: string,
+  headers?: Record<string, string>
+): Promise<void> {
   const transporter = getSmtpTransporter();
   const from = getFromEmail();
 
@@ -43,6 +58,7 @@ async function sendEmail(to: string, subject: string, text: string, html: string
       subject,
       text,
       html,
+      headers,
     });
     console.info('Email sent', { to, subject });
   } catch (err) {
@@ -75,10 +91,50 @@ export async function sendPasswordResetEmailWithOtp(to: string, otp: string): Pr
   await sendEmail(to, subject, text, html);
 }
 
+/** Frontend link to a property detail page. */
+export function buildPropertyLink(propertyId: number): string {
+  return new URL(`/properties/${propertyId}`, getFrontendBaseUrl()).toString();
+}
 
+/** Public URL of this API (one-click links that must work without the frontend). */
+function buildApiLink(pathname: string, token: string): string {
+  const raw = process.env.API_BASE_URL;
+  if (!raw) throw new Error('Missing API_BASE_URL environment variable');
+  const url = new URL(pathname, raw);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
 
+/** Saved-search digest; List-Unsubscribe headers enable the mail client's one-click unsubscribe. */
+export async function sendSavedSearchAlertEmail(
+  to: string,
+  options: {
+    searchName: string;
+    listings: AlertListing[];
+    totalNew: number;
+    unsubscribeToken: string;
+  }
+): Promise<void> {
+  const unsubscribeUrl = buildApiLink('/api/saved-searches/unsubscribe', options.unsubscribeToken);
+  const { subject, text, html } = buildSavedSearchAlertEmail({
+    searchName: options.searchName,
+    listings: options.listings,
+    totalNew: options.totalNew,
+    unsubscribeUrl,
+  });
+  await sendEmail(to, subject, text, html, {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  });
+}
 
-
-
-
-
+/** Liked-property change digest (en/ar); links to the frontend notification settings to opt out. */
+export async function sendFavouriteAlertsEmail(
+  to: string,
+  lang: 'en' | 'ar',
+  items: FavouriteAlertItem[]
+): Promise<void> {
+  const settingsUrl = new URL('/settings/notifications', getFrontendBaseUrl()).toString();
+  const { subject, text, html } = buildFavouriteAlertsEmail({ lang, items, settingsUrl });
+  await sendEmail(to, subject, text, html);
+}
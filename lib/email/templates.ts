@@ -54,10 +54,158 @@ export function buildPasswordResetEmailWithOtp(otp: string): EmailContent {
   };
 }
 
+export type AlertListing = {
+  title: string;
+  /** Preformatted, e.g. "AED 1,200,000" */
+  price: string | null;
+  location: string | null;
+  url: string;
+};
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
 
+/** New listings for a saved search; totalNew may exceed listings.length (email shows the newest). */
+export function buildSavedSearchAlertEmail(options: {
+  searchName: string;
+  listings: AlertListing[];
+  totalNew: number;
+  unsubscribeUrl: string;
+}): EmailContent {
+  const { searchName, listings, totalNew, unsubscribeUrl } = options;
+  const word = totalNew === 1 ? 'listing' : 'listings';
+  const more = totalNew - listings.length;
+  const lineFor = (l: AlertListing) =>
+    [l.title, l.price, l.location].filter(Boolean).join(' – ');
 
+  return {
+    subject: `${totalNew} new ${word} for "${searchName}"`,
+    text: [
+      `${totalNew} new ${word} match your saved search "${searchName}":`,
+      '',
+      ...listings.map((l) => `- ${lineFor(l)}\n  ${l.url}`),
+      ...(more > 0 ? ['', `…and ${more} more.`] : []),
+      '',
+      `Stop these alerts: ${unsubscribeUrl}`,
+    ].join('\n'),
+    html: `
+      <p>${totalNew} new ${word} match your saved search <strong>${escapeHtml(searchName)}</strong>:</p>
+      <ul>
+        ${listings
+          .map((l) => `<li><a href="${l.url}">${escapeHtml(lineFor(l))}</a></li>`)
+          .join('\n        ')}
+      </ul>
+      ${more > 0 ? `<p>…and ${more} more.</p>` : ''}
+      <p><a href="${unsubscribeUrl}">Stop these alerts</a></p>
+    `.trim(),
+  };
+}
 
+/**
+ * Page behind the email's unsubscribe link. GET only shows it (mail scanners and link prefetchers
+ * follow links); its button POSTs to actionUrl, which turns alerts off. actionUrl null = already off.
+ */
+export function buildSavedSearchUnsubscribePage(searchName: string, actionUrl: string | null): string {
+  const name = escapeHtml(searchName);
+  const content = !actionUrl
+    ? `<p>Alerts are off for <strong>${name}</strong>. The saved search itself is kept.</p>`
+    : `
+      <p>Stop email alerts for your saved search <strong>${name}</strong>?</p>
+      <form method="post" action="${escapeHtml(actionUrl)}">
+        <button type="submit">Stop these alerts</button>
+      </form>`.trim();
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>Saved search alerts</title>
+  </head>
+  <body>
+    ${content}
+  </body>
+</html>`;
+}
 
+export type FavouriteAlertItem = {
+  type: 'price_drop' | 'back_on_market' | 'sold' | 'rented';
+  title: string;
+  /** Preformatted prices, e.g. "AED 1,200,000" */
+  price: string | null;
+  previousPrice: string | null;
+  url: string;
+};
 
+const FAVOURITE_ALERT_STRINGS = {
+  en: {
+    subject: (n: number) => (n === 1 ? 'A property you liked has changed' : `${n} properties you liked have changed`),
+    intro: 'There are updates on properties you liked:',
+    priceDrop: (from: string, to: string) => `Price dropped from ${from} to ${to}`,
+    backOnMarket: 'Back on the market',
+    sold: 'Sold',
+    rented: 'Rented',
+    optOut: 'You are receiving this because you liked these properties. Turn off these emails:',
+  },
+  ar: {
+    subject: (n: number) => (n === 1 ? 'طرأ تغيير على عقار أعجبك' : `طرأ تغيير على ${n} عقارات أعجبتك`),
+    intro: 'هناك تحديثات على عقارات أعجبتك:',
+    priceDrop: (from: string, to: string) => `انخفض السعر من ${from} إلى ${to}`,
+    backOnMarket: 'عاد إلى السوق',
+    sold: 'تم البيع',
+    rented: 'تم التأجير',
+    optOut: 'تصلك هذه الرسالة لأنك أبديت إعجابك بهذه العقارات. لإيقاف هذه الرسائل:',
+  },
+};
+
+/** Digest of changes to a user's liked properties, in English or Arabic (RTL). */
+export function buildFavouriteAlertsEmail(options: {
+  lang: 'en' | 'ar';
+  items: FavouriteAlertItem[];
+  settingsUrl: string;
+}): EmailContent {
+  const { lang, items, settingsUrl } = options;
+  const s = FAVOURITE_ALERT_STRINGS[lang];
+  const describe = (item: FavouriteAlertItem): string => {
+    switch (item.type) {
+      case 'price_drop':
+        return s.priceDrop(item.previousPrice ?? '', item.price ?? '');
+      case 'back_on_market':
+        return item.price ? `${s.backOnMarket} – ${item.price}` : s.backOnMarket;
+      case 'sold':
+        return s.sold;
+      case 'rented':
+        return s.rented;
+    }
+  };
 
+  return {
+    subject: s.subject(items.length),
+    text: [
+      s.intro,
+      '',
+      ...items.map((i) => `- ${i.title}: ${describe(i)}\n  ${i.url}`),
+      '',
+      `${s.optOut} ${settingsUrl}`,
+    ].join('\n'),
+    html: `
+      <div dir="${lang === 'ar' ? 'rtl' : 'ltr'}">
+      <p>${s.intro}</p>
+      <ul>
+        ${items
+          .map(
+            (i) =>
+              `<li><a href="${i.url}">${escapeHtml(i.title)}</a>: ${escapeHtml(describe(i))}</li>`
+          )
+          .join('\n        ')}
+      </ul>
+      <p>${s.optOut} <a href="${settingsUrl}">${settingsUrl}</a></p>
+      </div>
+    `.trim(),
+  };
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { AppError } from '@/lib/utils/errors';
+
+/**
+ * Job routes (/api/jobs/*) are called by cron with Authorization: Bearer <CRON_SECRET>.
+ * Unlike the edge functions, a missing secret rejects every call rather than allowing them.
+ */
+export function assertCronAuthorized(request: NextRequest): void {
+  const secret = process.env.CRON_SECRET?.trim();
+  if (!secret) {
+    throw new AppError('CRON_SECRET is not configured', 500, 'CRON_SECRET_MISSING');
+  }
+  const authHeader = request.headers.get('authorization') || '';
+  if (authHeader !== `Bearer ${secret}`) {
+    throw new AppError('Unauthorized', 401, 'CRON_UNAUTHORIZED');
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Favourite-alerts job (POST /api/jobs/favourite-alerts): turn new property.PROPERTY_HISTORY rows
+ * into queued alerts for users who liked the property, then email each user one digest.
+ */
+
+import {
+  getPendingFavouriteAlerts,
+  getUnprocessedPropertyHistory,
+  markFavouriteAlertsFailed,
+  markFavouriteAlertsSent,
+  markPropertyHistoryProcessed,
+  queueFavouriteAlerts,
+  skipStaleFavouriteAlerts,
+  type FavouriteAlertType,
+  type PendingFavouriteAlertRow,
+  type PropertyHistoryRow,
+} from '@/lib/db/queries/favouriteAlerts';
+import { buildPropertyLink, formatEmailError, sendFavouriteAlertsEmail } from '@/lib/email/send';
+import type { FavouriteAlertItem } from '@/lib/email/templates';
+
+/** History rows classified per run. */
+const HISTORY_BATCH_SIZE = 500;
+/** Users emailed per run (each gets every pending alert in one digest). */
+const USER_BATCH_SIZE = 100;
+/** Send attempts before an alert is marked failed. */
+const MAX_SEND_ATTEMPTS = 3;
+
+export type FavouriteAlertRunResult = {
+  historyProcessed: number;
+  queued: number;
+  skipped: number;
+  emailed: number;
+  failed: number;
+};
+
+function normalizeStatus(status: string | null): string {
+  return (status ?? '').trim().toLowerCase();
+}
+
+/**
+ * Which alert (if any) a history row triggers. Status transitions win over price;
+ * a price drop only counts while the listing is active. Initial snapshots never alert.
+ */
+export function classifyPropertyChange(row: PropertyHistoryRow): FavouriteAlertType | null {
+  if (row.previous_status === null && row.previous_price === null) return null;
+
+  const status = normalizeStatus(row.status);
+  const previousStatus = normalizeStatus(row.previous_status);
+  if (status !== previousStatus) {
+    if (status === 'sold') return 'sold';
+    if (status === 'rented') return 'rented';
+    if (status === 'active' && previousStatus !== '') return 'back_on_market';
+  }
+
+  if (status === 'active' && row.price !== null && row.previous_price !== null) {
+    if (Number(row.price) < Number(row.previous_price)) return 'price_drop';
+  }
+  return null;
+}
+
+function formatPrice(amount: string | null, currencyCode: string | null): string | null {
+  if (amount === null) return null;
+  const value = Number(amount).toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return currencyCode ? `${currencyCode} ${value}` : value;
+}
+
+function toAlertItem(row: PendingFavouriteAlertRow): FavouriteAlertItem {
+  return {
+    type: row.alert_type,
+    title: row.title || `Property #${row.property_id}`,
+    price: formatPrice(row.price, row.currency_code),
+    previousPrice: formatPrice(row.previous_price, row.currency_code),
+    url: buildPropertyLink(row.property_id),
+  };
+}
+
+async function queueNewAlerts(result: FavouriteAlertRunResult): Promise<void> {
+  const history = await getUnprocessedPropertyHistory(HISTORY_BATCH_SIZE);
+  for (const row of history) {
+    const alertType = classifyPropertyChange(row);
+    if (alertType) {
+      result.queued += await queueFavouriteAlerts(row.history_id, row.property_id, alertType);
+    }
+  }
+  await markPropertyHistoryProcessed(history.map((h) => h.history_id));
+  result.historyProcessed = history.length;
+}
+
+async function sendPendingAlerts(result: FavouriteAlertRunResult): Promise<void> {
+  result.skipped = await skipStaleFavouriteAlerts();
+
+  const byUser = new Map<string, PendingFavouriteAlertRow[]>();
+  for (const row of await getPendingFavouriteAlerts(USER_BATCH_SIZE)) {
+    const rows = byUser.get(row.user_id);
+    if (rows) rows.push(row);
+    else byUser.set(row.user_id, [row]);
+  }
+
+  for (const rows of Array.from(byUser.values())) {
+    const alertIds = rows.map((r) => r.alert_id);
+    const lang = rows[0].preferred_language_code === 'ar' ? 'ar' : 'en';
+    try {
+      await sendFavouriteAlertsEmail(rows[0].email, lang, rows.map(toAlertItem));
+      await markFavouriteAlertsSent(alertIds);
+      result.emailed++;
+    } catch (err) {
+      const message = formatEmailError(err);
+      console.error('Favourite alert email failed', { userId: rows[0].user_id, error: message });
+      await markFavouriteAlertsFailed(alertIds, message, MAX_SEND_ATTEMPTS);
+      result.failed++;
+    }
+  }
+}
+
+/** Classify new history rows into the queue, then send queued alerts (one email per user). */
+export async function runFavouriteAlerts(): Promise<FavouriteAlertRunResult> {
+  const result: FavouriteAlertRunResult = {
+    historyProcessed: 0,
+    queued: 0,
+    skipped: 0,
+    emailed: 0,
+    failed: 0,
+  };
+  await queueNewAlerts(result);
+  await sendPendingAlerts(result);
+  return result;
+}
@@ -0,0 +1,173 @@
+/**
+ * Saved-search alert job (POST /api/jobs/saved-search-alerts): re-run each due saved search
+ * for listings created after its watermark and email the newest matches.
+ */
+
+import {
+  buildFilterBy,
+  buildKeywordOrQueries,
+  buildSearchQuery,
+  needsKeywordOrSearch,
+  type SearchFilterState,
+} from '@/lib/search/buildFilterQuery';
+import { getTypesenseNlQuery } from '@/lib/search/naturalLanguageQuery';
+import { resolveSearchNlOptions, type SearchNlOptions } from '@/lib/search/searchRequest';
+import { resolveDisplayCurrency } from '@/lib/search/currency';
+import { resolveKeywordFeatures } from '@/lib/search/keywordFeatures';
+import {
+  typesenseMultiSearchUnion,
+  typesenseNlParse,
+  typesenseSearch,
+  type TypesenseSearchResponse,
+} from '@/lib/search/typesense';
+import { getSearchQueryBy } from '@/lib/search/typesenseSchema';
+import { pickLocalizedTitle } from '@/lib/search/unwrapTitle';
+import {
+  getDueSavedSearches,
+  markSavedSearchChecked,
+  type DueSavedSearchRow,
+} from '@/lib/db/queries/savedSearches';
+import { buildPropertyLink, formatEmailError, sendSavedSearchAlertEmail } from '@/lib/email/send';
+import type { AlertListing } from '@/lib/email/templates';
+
+/** Saved searches processed per run; the rest are picked up by the next cron call (oldest first). */
+const DEFAULT_BATCH_SIZE = 100;
+/** Listings shown in one alert email. */
+const ALERT_LISTINGS_LIMIT = 10;
+
+type AlertListingDoc = {
+  property_id: string;
+  title_en?: string;
+  title_ar?: string;
+  price?: number;
+  currency_code?: string;
+  address?: string;
+  created_at?: number;
+};
+
+export type SavedSearchAlertRunResult = {
+  checked: number;
+  emailed: number;
+  failed: number;
+};
+
+/** Newest listings matching the saved search (state carries createdAfter = watermark). */
+async function fetchNewListings(
+  filterState: SearchFilterState,
+  nlOptions: SearchNlOptions
+): Promise<Pick<TypesenseSearchResponse<AlertListingDoc>, 'found' | 'hits'>> {
+  const useNl = !!(nlOptions.useNlQuery && nlOptions.nlModelId);
+  const queryBy = getSearchQueryBy(filterState.location, useNl);
+  const filterBy = buildFilterBy(filterState);
+  const common = {
+    collection: 'properties',
+    queryBy,
+    sortBy: 'created_at:desc',
+    page: 1,
+    perPage: ALERT_LISTINGS_LIMIT,
+    includeFields: 'property_id,title_en,title_ar,price,currency_code,address,created_at',
+  };
+
+  if (!useNl && needsKeywordOrSearch(filterState)) {
+    const resp = await typesenseMultiSearchUnion<AlertListingDoc>(
+      buildKeywordOrQueries(filterState, filterBy).map((s) => ({ ...common, ...s }))
+    );
+    // Union merges per-keyword pages; restore newest-first across them
+    resp.hits.sort((a, b) => (b.document.created_at ?? 0) - (a.document.created_at ?? 0));
+    return resp;
+  }
+
+  if (useNl) {
+    const parsed = await typesenseNlParse({
+      collection: 'properties',
+      q: getTypesenseNlQuery(nlOptions.rawQ?.trim() || ''),
+      queryBy,
+      filterBy,
+      nlModelId: nlOptions.nlModelId!,
+    });
+    // parsed.filterBy is our filter_by (watermark included) ANDed with the generated one
+    return typesenseSearch<AlertListingDoc>({
+      ...common,
+      q: parsed.q,
+      filterBy: parsed.filterBy,
+    });
+  }
+
+  return typesenseSearch<AlertListingDoc>({
+    ...common,
+    q: buildSearchQuery(filterState),
+    filterBy,
+  });
+}
+
+function toAlertListing(doc: AlertListingDoc, lang: 'en' | 'ar'): AlertListing {
+  const pid = Number(doc.property_id);
+  return {
+    title: pickLocalizedTitle(lang, doc.title_en, doc.title_ar) || `Property #${pid}`,
+    price:
+      typeof doc.price === 'number'
+        ? [doc.currency_code, doc.price.toLocaleString('en-US')].filter(Boolean).join(' ')
+        : null,
+    location: doc.address ?? null,
+    url: buildPropertyLink(pid),
+  };
+}
+
+async function processSavedSearch(search: DueSavedSearchRow): Promise<boolean> {
+  const filterState: SearchFilterState = {
+    ...search.filter_state,
+    createdAfter: Number(search.alert_watermark),
+  };
+  const nlOptions = await resolveSearchNlOptions(
+    filterState,
+    search.q ?? undefined,
+    !search.nl_query
+  );
+  await resolveDisplayCurrency(filterState);
+  await resolveKeywordFeatures(filterState);
+  const resp = await fetchNewListings(filterState, nlOptions);
+
+  if (resp.found === 0 || resp.hits.length === 0) {
+    await markSavedSearchChecked(search.saved_search_id, null);
+    return false;
+  }
+
+  const lang = search.preferred_language_code === 'ar' ? 'ar' : 'en';
+  await sendSavedSearchAlertEmail(search.email, {
+    searchName: search.name,
+    listings: resp.hits.map((h) => toAlertListing(h.document, lang)),
+    totalNew: resp.found,
+    unsubscribeToken: search.unsubscribe_token,
+  });
+
+  const newestCreatedAt = Math.max(...resp.hits.map((h) => h.document.created_at ?? 0));
+  await markSavedSearchChecked(search.saved_search_id, newestCreatedAt);
+  return true;
+}
+
+/**
+ * Run alerts for due saved searches. A failed search (Typesense or SMTP) keeps its watermark
+ * and last_checked_at, so it is retried on the next run.
+ */
+export async function runSavedSearchAlerts(
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<SavedSearchAlertRunResult> {
+  const due = await getDueSavedSearches(batchSize);
+  const result: SavedSearchAlertRunResult = { checked: 0, emailed: 0, failed: 0 };
+
+  for (const search of due) {
+    try {
+      const emailed = await processSavedSearch(search);
+      result.checked++;
+      if (emailed) result.emailed++;
+    } catch (err) {
+      result.failed++;
+      console.error('Saved search alert failed', {
+        savedSearchId: search.saved_search_id,
+        error: formatEmailError(err),
+      });
+    }
+  }
+
+  return result;
+}
@@ -3,13 +3,31 @@
  * Used by GET /api/search to integrate filter values into Typesense search.
  */
 
+import {
+  boundsCenter,
+  boundsToPoints,
+  polygonCentroid,
+  type GeoBounds,
+  type GeoPoint,
+} from './geo';
+
+export type CurrencyPriceRange = {
+  currencyId: number;
+  min?: number;
+  max?: number;
+};
+
 export type SearchFilterState = {
   /** Purpose key: for_sale | for_rent */
   purpose: string;
-  /** Scope */
+  /** Scope: one country (resolveSearchCountry fills it from the session / headers when unset) */
   countryId?: number;
+  /** Scope: several countries (OR'd); set instead of countryId */
+  countryIds?: number[];
   /** Location text → full-text query on property.address (and city/area/community when present) */
   location?: string;
+  /** Location keys (city / area / community) → exact filter on Typesense location_ids */
+  locationIds?: string[];
   /** Completion: 'all' = no filter; any other value filters by completion_status (from PROPERTIES.completion_status) */
   completionStatus?: string;
   /** Completion: multiple values for POST body, filter by completion_status */
@@ -22,25 +40,69 @@ export type SearchFilterState = {
   bedrooms?: (number | string)[];
   /** Baths: discrete values or "6+" for 6 or more */
   bathrooms?: (number | string)[];
-  /** Price range */
+  /** Price range (in displayCurrency when set, else raw listing price) */
   priceMin?: number;
   priceMax?: number;
+  /** ISO currency code the price range and display prices are expressed in (e.g. AED). */
+  displayCurrency?: string;
+  /**
+   * Per-currency price bounds derived from priceMin/priceMax + displayCurrency
+   * (resolveDisplayCurrency). When set, replaces the raw price clause.
+   */
+  priceRanges?: CurrencyPriceRange[];
   /** Area range (always sqm) */
   areaMin?: number;
   areaMax?: number;
+  /** Price per sqm range (in displayCurrency when set, else the listing currency) */
+  pricePerSqmMin?: number;
+  pricePerSqmMax?: number;
+  /** Per-currency price_per_sqm bounds (resolveDisplayCurrency); replaces the raw clause when set. */
+  pricePerSqmRanges?: CurrencyPriceRange[];
+  /** Furnishing keys (furnished, unfurnished, semi_furnished, …), OR'd; lowercase like the index. */
+  furnishingStatuses?: string[];
+  /** Parking spaces range */
+  parkingMin?: number;
+  parkingMax?: number;
+  /** Floor number range (unit's floor) */
+  floorMin?: number;
+  floorMax?: number;
+  /** Building height range (total floors) */
+  totalFloorsMin?: number;
+  totalFloorsMax?: number;
+  /** Year built range */
+  yearBuiltMin?: number;
+  yearBuiltMax?: number;
   /** Free-text residual. Appended to q when no keywords[] chips. */
   keyword?: string;
   /**
-   * Keyword chip values (beach, golf, …). Multiple values are OR'd via multi-search.
-   * Single value is appended to full-text q.
+   * Keyword chip values (beach, golf, …), OR'd. Chips mapped to features (keywordFeatureKeys)
+   * filter on `features`; a single free-text chip is appended to q, several go through multi-search.
    */
   keywords?: string[];
+  /** Chip → feature keys for chips with a KEYWORD_FEATURES mapping (resolveKeywordFeatures). */
+  keywordFeatureKeys?: Record<string, string[]>;
   /** Agent/agency filter: [{"id", "type": "agent"|"agency"}, ...]. OR across agents and agencies in Typesense. */
   agentIds?: { id: number; type: 'agency' | 'agent' }[];
   /** Feature IDs from PROPERTY_DETAILS.feature_ids */
   featureIds?: number[];
   /** Feature keys from Typesense `features` facet (e.g. golf, beachfront). */
   featureKeys?: string[];
+  /** Geo centre (lat/lng): radius filter with radiusKm, and reference point for distance. */
+  geoCenter?: GeoPoint;
+  /** Radius around geoCenter in km. Without it geoCenter only drives distance sort/output. */
+  radiusKm?: number;
+  /** Map viewport (ne/sw corners) → geo polygon filter. */
+  geoBounds?: GeoBounds;
+  /** Drawn area (lasso) vertices, open ring → geo polygon filter. */
+  geoPolygon?: GeoPoint[];
+  /** Only listings created after this epoch second (saved-search alert watermark). */
+  createdAfter?: number;
+  /** Only listings whose last price change was a drop within this many days (from UTC midnight). */
+  reducedWithinDays?: number;
+  /** Move-in by this date (epoch second, UTC midnight); listings available now always match. */
+  availableBefore?: number;
+  /** Move-in date on or after this date (epoch second, UTC midnight). */
+  availableAfter?: number;
   /** Override default sort (e.g. price:asc). */
   sortBy?: string;
 };
@@ -82,6 +144,26 @@ function buildCountFilterParts(
   return parts;
 }
 
+/** field:>=min / field:<=max for an optional numeric range (0 is a valid bound). */
+function buildRangeParts(field: string, min: number | undefined, max: number | undefined): string[] {
+  const parts: string[] = [];
+  if (min != null) parts.push(`${field}:>=${min}`);
+  if (max != null) parts.push(`${field}:<=${max}`);
+  return parts;
+}
+
+/** (currency_id:=1 && price:[a..b]) || (currency_id:=2 && price:>=c) || … */
+function buildCurrencyPriceFilter(ranges: CurrencyPriceRange[], field = 'price'): string {
+  const clauses = ranges.map((r) => {
+    const bounds: string[] = [`currency_id:=${r.currencyId}`];
+    if (r.min != null && r.max != null) bounds.push(`${field}:[${r.min}..${r.max}]`);
+    else if (r.min != null) bounds.push(`${field}:>=${r.min}`);
+    else if (r.max != null) bounds.push(`${field}:<=${r.max}`);
+    return `(${bounds.join(' && ')})`;
+  });
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(' || ')})`;
+}
+
 /**
  * Build Typesense filter_by expression from filter state.
  * Returns undefined if no filters (caller can pass to typesenseSearch as-is).
@@ -92,9 +174,16 @@ export function buildFilterBy(state: SearchFilterState): string | undefined {
   if (state.purpose) {
     parts.push(`purpose_key:=${escapeFilterValue(state.purpose)}`);
   }
-  if (state.countryId != null) {
+  if (state.countryIds?.length) {
+    parts.push(`country_id:=[${state.countryIds.join(',')}]`);
+  } else if (state.countryId != null) {
     parts.push(`country_id:=${state.countryId}`);
   }
+  if (state.locationIds?.length) {
+    // Backtick-quoted: keys contain "/"
+    const keys = state.locationIds.map((k) => `\`${k}\``);
+    parts.push(`location_ids:=[${keys.join(',')}]`);
+  }
   if (state.completionStatuses?.length) {
     // "all" means no completion filter — drop it from multi-select payloads
     const statuses = state.completionStatuses.filter(
@@ -126,11 +215,15 @@ export function buildFilterBy(state: SearchFilterState): string | undefined {
   const bathroomParts = buildCountFilterParts(state.bathrooms, 'bathrooms');
   if (bathroomParts.length === 1) parts.push(bathroomParts[0]);
   else if (bathroomParts.length > 1) parts.push(`(${bathroomParts.join(' || ')})`);
-  if (state.priceMin != null && state.priceMin > 0) {
-    parts.push(`price:>=${state.priceMin}`);
-  }
-  if (state.priceMax != null) {
-    parts.push(`price:<=${state.priceMax}`);
+  if (state.priceRanges?.length) {
+    parts.push(buildCurrencyPriceFilter(state.priceRanges));
+  } else {
+    if (state.priceMin != null && state.priceMin > 0) {
+      parts.push(`price:>=${state.priceMin}`);
+    }
+    if (state.priceMax != null) {
+      parts.push(`price:<=${state.priceMax}`);
+    }
   }
   if (state.areaMin != null && state.areaMin > 0) {
     parts.push(`area_sqm:>=${state.areaMin}`);
@@ -138,6 +231,26 @@ export function buildFilterBy(state: SearchFilterState): string | undefined {
   if (state.areaMax != null) {
     parts.push(`area_sqm:<=${state.areaMax}`);
   }
+  if (state.pricePerSqmRanges?.length) {
+    parts.push(buildCurrencyPriceFilter(state.pricePerSqmRanges, 'price_per_sqm'));
+  } else {
+    if (state.pricePerSqmMin != null && state.pricePerSqmMin > 0) {
+      parts.push(`price_per_sqm:>=${state.pricePerSqmMin}`);
+    }
+    if (state.pricePerSqmMax != null) {
+      parts.push(`price_per_sqm:<=${state.pricePerSqmMax}`);
+    }
+  }
+  if (state.furnishingStatuses?.length) {
+    const keys = state.furnishingStatuses.map((k) => escapeFilterValue(k));
+    parts.push(`furnishing_status:=[${keys.join(',')}]`);
+  }
+  parts.push(
+    ...buildRangeParts('parking_spaces', state.parkingMin, state.parkingMax),
+    ...buildRangeParts('floor_number', state.floorMin, state.floorMax),
+    ...buildRangeParts('total_floors', state.totalFloorsMin, state.totalFloorsMax),
+    ...buildRangeParts('year_built', state.yearBuiltMin, state.yearBuiltMax)
+  );
   if (state.agentIds?.length) {
     // Multi-select is OR: match any selected agent OR any selected agency
     const byAgent = state.agentIds.filter((e) => e.type === 'agent').map((e) => e.id);
@@ -154,11 +267,72 @@ export function buildFilterBy(state: SearchFilterState): string | undefined {
     const keys = state.featureKeys.map((k) => escapeFilterValue(k));
     parts.push(`features:=[${keys.join(',')}]`);
   }
+  // With free-text chips the feature-mapped chips are their own union search (buildKeywordOrQueries)
+  const keywordFeatureFilter = buildKeywordFeatureFilter(state);
+  if (keywordFeatureFilter && !needsKeywordOrSearch(state)) {
+    parts.push(keywordFeatureFilter);
+  }
+
+  if (state.geoCenter && state.radiusKm != null && state.radiusKm > 0) {
+    const { lat, lng } = state.geoCenter;
+    parts.push(`geo:(${lat}, ${lng}, ${state.radiusKm} km)`);
+  }
+  if (state.geoBounds) {
+    parts.push(`geo:(${polygonVertices(boundsToPoints(state.geoBounds))})`);
+  }
+  if (state.geoPolygon && state.geoPolygon.length >= 3) {
+    parts.push(`geo:(${polygonVertices(state.geoPolygon)})`);
+  }
+
+  if (state.createdAfter != null) {
+    parts.push(`created_at:>${state.createdAfter}`);
+  }
+
+  if (state.reducedWithinDays != null && state.reducedWithinDays > 0) {
+    // Whole UTC days: filter_by is part of the cursor scope, so it must not change between pages
+    const todayStart = Math.floor(Date.now() / 1000 / 86400) * 86400;
+    const since = todayStart - state.reducedWithinDays * 86400;
+    parts.push(`price_change_pct:<0 && price_changed_at:>=${since}`);
+  }
+
+  // available_from is 0 for listings available now
+  if (state.availableAfter != null) {
+    parts.push(`available_from:>=${state.availableAfter}`);
+  }
+  if (state.availableBefore != null) {
+    parts.push(`available_from:<=${state.availableBefore}`);
+  }
 
   if (parts.length === 0) return undefined;
   return parts.join(' && ');
 }
 
+/** Typesense polygon filter body: flat "lat, lng, lat, lng, …" list. */
+function polygonVertices(points: GeoPoint[]): string {
+  return points.map((p) => `${p.lat}, ${p.lng}`).join(', ');
+}
+
+/**
+ * Point distances are measured from: geo centre, else viewport centre, else polygon centroid.
+ * Null when no geo filter.
+ */
+export function getGeoReferencePoint(state: SearchFilterState): GeoPoint | null {
+  if (state.geoCenter) return state.geoCenter;
+  if (state.geoBounds) return boundsCenter(state.geoBounds);
+  if (state.geoPolygon?.length) return polygonCentroid(state.geoPolygon);
+  return null;
+}
+
+/**
+ * sort_by for sortBy=distance (nearest first, newest then property_id as tie-break).
+ * Returns undefined when the request has no geo centre, viewport or polygon.
+ */
+export function buildGeoDistanceSortBy(state: SearchFilterState): string | undefined {
+  const ref = getGeoReferencePoint(state);
+  if (!ref) return undefined;
+  return `geo(${ref.lat}, ${ref.lng}):asc,updated_at:desc,property_id_int:desc`;
+}
+
 /**
  * Normalize API keyword (string | comma-separated | string[]) to a string array.
  */
@@ -184,29 +358,59 @@ export function normalizeKeywords(
   return unique.length ? unique : undefined;
 }
 
-/** True when multiple keyword chips should be OR'd (multi-search union). */
+/** Keyword chips without a feature mapping (searched as full text). */
+export function freeTextKeywords(state: SearchFilterState): string[] {
+  return (state.keywords ?? []).filter((kw) => !state.keywordFeatureKeys?.[kw]?.length);
+}
+
+/** features:=[…] for every feature-mapped chip (any mapped feature matches); undefined when none. */
+function buildKeywordFeatureFilter(state: SearchFilterState): string | undefined {
+  const keys = new Set<string>();
+  for (const kw of state.keywords ?? []) {
+    for (const key of state.keywordFeatureKeys?.[kw] ?? []) keys.add(escapeFilterValue(key));
+  }
+  return keys.size ? `features:=[${Array.from(keys).join(',')}]` : undefined;
+}
+
+/**
+ * True when keyword chips need a multi-search union: two or more free-text chips, or free-text
+ * chips alongside feature-mapped ones. Feature-mapped chips alone stay one ranked query.
+ */
 export function needsKeywordOrSearch(state: SearchFilterState): boolean {
-  return (state.keywords?.length ?? 0) > 1;
+  const freeText = freeTextKeywords(state).length;
+  return freeText > 1 || (freeText === 1 && buildKeywordFeatureFilter(state) != null);
 }
 
 /**
- * One Typesense q per keyword for OR multi-search.
- * Combines location with each keyword: (loc+kw1) OR (loc+kw2) …
+ * One Typesense search per free-text chip, (loc+kw1) OR (loc+kw2) …, plus one search for the
+ * feature-mapped chips (location q, features filter) when there are any. filterBy is the shared
+ * filter_by (buildFilterBy, plus cursor clauses); hit.search_index follows freeTextKeywords order.
  */
-export function buildKeywordOrQueries(state: SearchFilterState): string[] {
+export function buildKeywordOrQueries(
+  state: SearchFilterState,
+  filterBy: string | undefined
+): Array<{ q: string; filterBy?: string }> {
   const loc = state.location?.trim();
-  const kws = state.keywords ?? [];
-  return kws.map((kw) => {
+  const searches = freeTextKeywords(state).map((kw) => {
     const parts = [loc, kw].filter((p): p is string => !!p?.trim());
-    return parts.length ? parts.join(' ') : '*';
+    return { q: parts.length ? parts.join(' ') : '*', filterBy };
   });
+  const featureFilter = buildKeywordFeatureFilter(state);
+  if (featureFilter) {
+    searches.push({
+      q: loc || '*',
+      filterBy: filterBy ? `${filterBy} && ${featureFilter}` : featureFilter,
+    });
+  }
+  return searches;
 }
 
 /**
  * Build full-text q from location + keyword(s).
- * - 0 keywords: location or '*'
- * - 1 keyword: location + that keyword
- * - 2+ keywords: location only (keywords OR'd separately via multi-search)
+ * - no keyword chips: location + free-text keyword, or location alone
+ * - one free-text chip and no feature-mapped chips: location + that chip
+ * - feature-mapped chips only, or a multi-search union: location only (chips go to filter_by /
+ *   separate searches)
  * Returns '*' if nothing to search (Typesense wildcard).
  */
 export function buildSearchQuery(state: SearchFilterState): string {
@@ -214,12 +418,12 @@ export function buildSearchQuery(state: SearchFilterState): string {
   if (state.location?.trim()) {
     terms.push(state.location.trim());
   }
-  if (state.keywords?.length === 1) {
-    terms.push(state.keywords[0]);
+  const freeText = freeTextKeywords(state);
+  if (freeText.length === 1 && !needsKeywordOrSearch(state)) {
+    terms.push(freeText[0]);
   } else if (!state.keywords?.length && state.keyword?.trim()) {
     terms.push(state.keyword.trim());
   }
-  // Multiple keywords: do not AND into q — caller uses multi-search OR
   if (terms.length === 0) return '*';
   return terms.join(' ');
 }
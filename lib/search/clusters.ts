@@ -0,0 +1,382 @@
+/**
+ * Map clustering for GET/POST /api/search/clusters. Cells are the geohash_<precision> fields the
+ * sync indexes, so one facet_by search with the same filter_by as search returns every cell's
+ * count, and the next precision's facet places each centroid. Price ranges come from group_by
+ * searches (cheapest and dearest listing per cell); listings are fetched only for small clusters
+ * (exact position, sample ids).
+ */
+
+import {
+  buildFilterBy,
+  buildKeywordOrQueries,
+  buildSearchQuery,
+  needsKeywordOrSearch,
+  type SearchFilterState,
+} from './buildFilterQuery';
+import { resolveDisplayCurrency, toDisplayPrice, type DisplayCurrency } from './currency';
+import { resolveKeywordFeatures } from './keywordFeatures';
+import {
+  docGeoToPoint,
+  encodeGeohash,
+  geohashCellCentre,
+  geohashPrecisionForZoom,
+  type GeoPoint,
+} from './geo';
+import { withoutHiddenListings } from './merchandising';
+import { getTypesenseNlQuery } from './naturalLanguageQuery';
+import type { SearchNlOptions } from './searchRequest';
+import {
+  typesenseMultiSearch,
+  typesenseMultiSearchUnion,
+  typesenseNlParse,
+  type TypesenseSearchResponse,
+} from './typesense';
+import { getSearchQueryBy } from './typesenseSchema';
+
+/** Facet values per request; a viewport at its zoom's precision spans far fewer cells. */
+const MAX_CLUSTER_CELLS = 2000;
+/** Typesense max per_page: listings fetched for small clusters (one page). */
+const POINTS_PAGE_SIZE = 250;
+/** Free-text chip unions cannot be faceted: at most this many points are bucketed instead. */
+const MAX_UNION_POINTS = 1000;
+/** Clusters at or below this size are built from their listings (tap-to-list without another search). */
+const SAMPLE_CLUSTER_MAX_SIZE = 10;
+const SAMPLE_IDS_LIMIT = 5;
+/** Sub-cell facet values for centroids (cells at the next precision, most listings first). */
+const MAX_CENTROID_SUBCELLS = 10000;
+/** Typesense max groups per page for the per-cell price searches. */
+const PRICE_GROUPS_PAGE_SIZE = 250;
+/** Pages of price groups per sort order; cells beyond them keep a null priceMin / priceMax. */
+const MAX_PRICE_GROUP_PAGES = 10;
+/** Geohash fields stop at geohash_8, so precision 8 centroids are cell centres. */
+const MAX_GEOHASH_PRECISION = 8;
+
+type ClusterPointDoc = {
+  property_id: string;
+  geo?: number[];
+  price?: number;
+  currency_code?: string;
+};
+
+export type SearchCluster = {
+  /** Geohash of the cell; stable for a given zoom so clients can diff. */
+  id: string;
+  count: number;
+  /**
+   * Mean position of the listings for small clusters; for larger ones the count-weighted mean of
+   * the next precision's cell centres (the cell centre at precision 8).
+   */
+  centroid: GeoPoint;
+  /** Null when no listing in the cell has a price (or past MAX_PRICE_GROUP_PAGES of groups). */
+  priceMin: number | null;
+  priceMax: number | null;
+  /** Present when count <= SAMPLE_CLUSTER_MAX_SIZE. */
+  samplePropertyIds?: number[];
+};
+
+export type SearchClustersResult = {
+  zoom: number;
+  precision: number;
+  /** Total listings matching the filters. */
+  totalCount: number;
+  /** Listings in the returned clusters. */
+  clusteredCount: number;
+  /** More cells than MAX_CLUSTER_CELLS, or a free-text chip search over MAX_UNION_POINTS. */
+  truncated: boolean;
+  /** Currency of cluster priceMin/priceMax (displayCurrency); null = raw listing prices. */
+  currencyCode: string | null;
+  clusters: SearchCluster[];
+};
+
+type ClusterAccumulator = {
+  count: number;
+  latSum: number;
+  lngSum: number;
+  priceMin: number | null;
+  priceMax: number | null;
+  ids: number[];
+};
+
+const POINT_FIELDS = 'property_id,geo,price,currency_code';
+const PRICE_FIELDS = 'price,currency_code';
+
+/** Bucket fetched listings by geohash cell (mean position, price range, first sample ids). */
+function bucketPoints(
+  docs: ClusterPointDoc[],
+  precision: number,
+  displayCurrency: DisplayCurrency | null
+): Map<string, ClusterAccumulator> {
+  const cells = new Map<string, ClusterAccumulator>();
+  for (const doc of docs) {
+    const point = docGeoToPoint(doc.geo);
+    if (!point) continue;
+    const key = encodeGeohash(point, precision);
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { count: 0, latSum: 0, lngSum: 0, priceMin: null, priceMax: null, ids: [] };
+      cells.set(key, cell);
+    }
+    cell.count++;
+    cell.latSum += point.lat;
+    cell.lngSum += point.lng;
+    const price = displayCurrency
+      ? toDisplayPrice(doc.price, doc.currency_code, displayCurrency)?.amount
+      : doc.price;
+    if (typeof price === 'number') {
+      cell.priceMin = cell.priceMin == null ? price : Math.min(cell.priceMin, price);
+      cell.priceMax = cell.priceMax == null ? price : Math.max(cell.priceMax, price);
+    }
+    if (cell.ids.length < SAMPLE_IDS_LIMIT) cell.ids.push(Number(doc.property_id));
+  }
+  return cells;
+}
+
+/** Centroid per cell: sub-cell centres weighted by their listing counts. */
+function subcellCentroids(
+  subcellCounts: Array<{ value: string; count: number }>,
+  precision: number
+): Map<string, GeoPoint> {
+  const sums = new Map<string, { count: number; latSum: number; lngSum: number }>();
+  for (const c of subcellCounts) {
+    const centre = geohashCellCentre(c.value);
+    const key = c.value.slice(0, precision);
+    const sum = sums.get(key) ?? { count: 0, latSum: 0, lngSum: 0 };
+    sum.count += c.count;
+    sum.latSum += centre.lat * c.count;
+    sum.lngSum += centre.lng * c.count;
+    sums.set(key, sum);
+  }
+  const centroids = new Map<string, GeoPoint>();
+  for (const [key, sum] of sums) {
+    centroids.set(key, { lat: sum.latSum / sum.count, lng: sum.lngSum / sum.count });
+  }
+  return centroids;
+}
+
+type PriceBounds = { min: number | null; max: number | null };
+
+/**
+ * Fold group_by results (top listing per cell, or per cell and currency) into per-cell price
+ * bounds: cheapest-first groups give priceMin, dearest-first groups give priceMax.
+ */
+function addPriceBounds(
+  bounds: Map<string, PriceBounds>,
+  resp: TypesenseSearchResponse<ClusterPointDoc>,
+  side: 'min' | 'max',
+  displayCurrency: DisplayCurrency | null
+): void {
+  for (const group of resp.grouped_hits ?? []) {
+    const doc = group.hits[0]?.document;
+    const key = group.group_key[0];
+    if (!doc || !key) continue;
+    const price = displayCurrency
+      ? toDisplayPrice(doc.price, doc.currency_code, displayCurrency)?.amount
+      : doc.price;
+    if (typeof price !== 'number') continue;
+    const bound = bounds.get(key) ?? { min: null, max: null };
+    const current = bound[side];
+    bound[side] =
+      current == null ? price : side === 'min' ? Math.min(current, price) : Math.max(current, price);
+    bounds.set(key, bound);
+  }
+}
+
+function toCluster(id: string, cell: ClusterAccumulator): SearchCluster {
+  return {
+    id,
+    count: cell.count,
+    centroid: { lat: cell.latSum / cell.count, lng: cell.lngSum / cell.count },
+    priceMin: cell.priceMin,
+    priceMax: cell.priceMax,
+    ...(cell.count <= SAMPLE_CLUSTER_MAX_SIZE ? { samplePropertyIds: cell.ids } : {}),
+  };
+}
+
+/**
+ * Free-text keyword chips run as a multi-search union, which returns no facet counts: bucket up
+ * to MAX_UNION_POINTS matching listings instead.
+ */
+async function runUnionClusters(
+  filterState: SearchFilterState,
+  precision: number,
+  displayCurrency: DisplayCurrency | null
+): Promise<Omit<SearchClustersResult, 'zoom' | 'precision' | 'currencyCode'>> {
+  const queryBy = getSearchQueryBy(filterState.location, false);
+  const searches = buildKeywordOrQueries(
+    filterState,
+    await withoutHiddenListings(buildFilterBy(filterState), filterState)
+  );
+  const docs: ClusterPointDoc[] = [];
+  let found = 0;
+  for (let page = 1; docs.length < MAX_UNION_POINTS; page++) {
+    const resp = await typesenseMultiSearchUnion<ClusterPointDoc>(
+      searches.map((s) => ({
+        collection: 'properties',
+        q: s.q,
+        queryBy,
+        filterBy: s.filterBy,
+        sortBy: 'updated_at:desc',
+        page,
+        perPage: POINTS_PAGE_SIZE,
+        includeFields: POINT_FIELDS,
+      }))
+    );
+    found = resp.found;
+    docs.push(...resp.hits.map((h) => h.document));
+    if (resp.hits.length < POINTS_PAGE_SIZE || docs.length >= found) break;
+  }
+  const cells = bucketPoints(docs.slice(0, MAX_UNION_POINTS), precision, displayCurrency);
+  const clusters = Array.from(cells.entries()).map(([id, c]) => toCluster(id, c));
+  const clusteredCount = clusters.reduce((sum, c) => sum + c.count, 0);
+  return { totalCount: found, clusteredCount, truncated: found > clusteredCount, clusters };
+}
+
+/**
+ * Cluster listings matching filterState into geohash cells sized for zoom.
+ * filterState must carry the viewport (geoBounds) so only visible listings are counted.
+ */
+export async function runSearchClusters(
+  filterState: SearchFilterState,
+  zoom: number,
+  nlOptions?: SearchNlOptions
+): Promise<SearchClustersResult> {
+  const precision = geohashPrecisionForZoom(zoom);
+  const displayCurrency = await resolveDisplayCurrency(filterState);
+  await resolveKeywordFeatures(filterState);
+  const currencyCode = displayCurrency?.rate.code ?? null;
+  const useNl = !!(nlOptions?.useNlQuery && nlOptions?.nlModelId);
+
+  if (!useNl && needsKeywordOrSearch(filterState)) {
+    const result = await runUnionClusters(filterState, precision, displayCurrency);
+    result.clusters.sort((a, b) => b.count - a.count);
+    return { zoom, precision, currencyCode, ...result };
+  }
+
+  const queryBy = getSearchQueryBy(filterState.location, useNl);
+  let q = buildSearchQuery(filterState);
+  // Listings hidden by merchandising rules are not on the map either
+  let filterBy = await withoutHiddenListings(buildFilterBy(filterState), filterState, nlOptions?.rawQ);
+  if (useNl) {
+    // Parse once, then count with the generated q / filter_by (augmented filter_by keeps the viewport)
+    const parsed = await typesenseNlParse({
+      collection: 'properties',
+      q: getTypesenseNlQuery(nlOptions!.rawQ?.trim() || ''),
+      queryBy,
+      filterBy,
+      nlModelId: nlOptions!.nlModelId!,
+    });
+    q = parsed.q;
+    filterBy = parsed.filterBy;
+  }
+
+  const cellField = `geohash_${precision}`;
+  const subcellField =
+    precision < MAX_GEOHASH_PRECISION ? `geohash_${precision + 1}` : null;
+  // Converted prices differ per listing currency, so bounds are taken per cell and currency
+  const priceSearch = (sortBy: string, page: number) => ({
+    collection: 'properties',
+    q,
+    queryBy,
+    filterBy: filterBy ? `${filterBy} && price:>=0` : 'price:>=0',
+    sortBy,
+    groupBy: displayCurrency ? `${cellField},currency_code` : cellField,
+    groupLimit: 1,
+    includeFields: PRICE_FIELDS,
+    page,
+    perPage: PRICE_GROUPS_PAGE_SIZE,
+  });
+  const priceSorts = ['price:asc,property_id_int:desc', 'price:desc,property_id_int:desc'];
+
+  const [counted, ...firstPricePages] = await typesenseMultiSearch<ClusterPointDoc>([
+    {
+      collection: 'properties',
+      q,
+      queryBy,
+      filterBy,
+      facetBy: subcellField ? `${cellField},${subcellField}` : cellField,
+      maxFacetValues: subcellField ? MAX_CENTROID_SUBCELLS : MAX_CLUSTER_CELLS,
+      page: 1,
+      perPage: 0,
+    },
+    ...priceSorts.map((sortBy) => priceSearch(sortBy, 1)),
+  ]);
+  const cellCounts = (
+    counted?.facet_counts?.find((fc) => fc.field_name === cellField)?.counts ?? []
+  ).slice(0, MAX_CLUSTER_CELLS);
+  const centroids = subcellField
+    ? subcellCentroids(
+        counted?.facet_counts?.find((fc) => fc.field_name === subcellField)?.counts ?? [],
+        precision
+      )
+    : new Map<string, GeoPoint>();
+
+  // One page of listings covers the small clusters (fewest listings first, so most of them fit)
+  const sampled: string[] = [];
+  let sampledCount = 0;
+  for (const c of [...cellCounts].sort((a, b) => a.count - b.count)) {
+    if (c.count > SAMPLE_CLUSTER_MAX_SIZE || sampledCount + c.count > POINTS_PAGE_SIZE) break;
+    sampled.push(c.value);
+    sampledCount += c.count;
+  }
+  const pricePageCount = Math.min(
+    Math.ceil((firstPricePages[0]?.found ?? 0) / PRICE_GROUPS_PAGE_SIZE),
+    MAX_PRICE_GROUP_PAGES
+  );
+  const pricePages = [];
+  for (let page = 2; page <= pricePageCount; page++) {
+    pricePages.push(...priceSorts.map((sortBy) => priceSearch(sortBy, page)));
+  }
+  const cellFilter = `${cellField}:=[${sampled.map((v) => `\`${v}\``).join(',')}]`;
+  const sampleSearch = {
+    collection: 'properties',
+    q,
+    queryBy,
+    filterBy: filterBy ? `${filterBy} && ${cellFilter}` : cellFilter,
+    sortBy: 'updated_at:desc',
+    page: 1,
+    perPage: POINTS_PAGE_SIZE,
+    includeFields: POINT_FIELDS,
+  };
+  // Remaining price pages and the small-cluster listings share one multi_search
+  const followUps = await typesenseMultiSearch<ClusterPointDoc>([
+    ...pricePages,
+    ...(sampled.length ? [sampleSearch] : []),
+  ]);
+  const morePricePages = followUps.slice(0, pricePages.length);
+  const sampledDocs = sampled.length
+    ? (followUps[pricePages.length]?.hits ?? []).map((h) => h.document)
+    : [];
+
+  // Pages alternate cheapest-first / dearest-first, as priceSorts
+  const priceBounds = new Map<string, PriceBounds>();
+  [...firstPricePages, ...morePricePages].forEach((resp, i) =>
+    addPriceBounds(priceBounds, resp, i % 2 === 0 ? 'min' : 'max', displayCurrency)
+  );
+  const sampledCells = bucketPoints(sampledDocs, precision, displayCurrency);
+
+  const clusters: SearchCluster[] = cellCounts
+    .map((c) => {
+      const cell = sampledCells.get(c.value);
+      if (cell) return toCluster(c.value, { ...cell, count: c.count });
+      const bound = priceBounds.get(c.value);
+      return {
+        id: c.value,
+        count: c.count,
+        centroid: centroids.get(c.value) ?? geohashCellCentre(c.value),
+        priceMin: bound?.min ?? null,
+        priceMax: bound?.max ?? null,
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+  const clusteredCount = clusters.reduce((sum, c) => sum + c.count, 0);
+
+  return {
+    zoom,
+    precision,
+    totalCount: counted?.found ?? 0,
+    clusteredCount,
+    truncated: clusteredCount < (counted?.found ?? 0),
+    currencyCode,
+    clusters,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Country scope for search, filters and featured listings. Explicit countryId / countryIds win;
+ * otherwise the session's country (USER_SESSIONS.country_code), then the CF-IPCountry / X-Country
+ * header, mapped through master.COUNTRY_SETTINGS. Countries search does not serve fall back to the
+ * default row, which also supplies the default currency.
+ */
+
+import { NextRequest } from 'next/server';
+import { filterConfigCache, sessionCountryCache } from '@/lib/cache';
+import { getSearchCountrySettings, type CountrySettingsRow } from '@/lib/db/queries/countrySettings';
+import { getSessionCountryCode } from '@/lib/db/queries/sessions';
+import type { SearchFilterState } from './buildFilterQuery';
+import { loadExchangeRates } from './currency';
+
+/** Used only when master.COUNTRY_SETTINGS is empty or unreadable. */
+export const FALLBACK_COUNTRY_ID = 1;
+
+const SETTINGS_CACHE_KEY = 'country-settings';
+
+/** ISO 3166-1 alpha-2; Cloudflare sends XX (unknown) and T1 (Tor), which never match a country. */
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+export type RequestCountry = {
+  countryId: number;
+  /** Null when the country is not served by search (explicit id) or settings are unavailable. */
+  settings: CountrySettingsRow | null;
+};
+
+/** Served countries, default first. Empty when the settings cannot be read. */
+async function loadCountrySettings(): Promise<CountrySettingsRow[]> {
+  const cached = filterConfigCache.get<CountrySettingsRow[]>(SETTINGS_CACHE_KEY);
+  if (cached) return cached;
+  try {
+    const rows = await getSearchCountrySettings();
+    filterConfigCache.set(SETTINGS_CACHE_KEY, rows);
+    return rows;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Loading country settings failed: ${message}`);
+    return [];
+  }
+}
+
+function normalizeCountryCode(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase();
+  return code && COUNTRY_CODE_PATTERN.test(code) ? code : null;
+}
+
+async function sessionCountryCode(sessionId: string): Promise<string | null> {
+  const cached = sessionCountryCache.get<string>(sessionId);
+  if (cached != null) return cached || null;
+  try {
+    const code = normalizeCountryCode(await getSessionCountryCode(sessionId));
+    sessionCountryCache.set(sessionId, code ?? '');
+    return code;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Loading session country failed: ${message}`);
+    return null;
+  }
+}
+
+/** Session country (x-session-id), else the CF-IPCountry / X-Country header; null when unknown. */
+export async function detectRequestCountryCode(request: NextRequest): Promise<string | null> {
+  const sessionId = request.headers.get('x-session-id')?.trim();
+  const fromSession = sessionId ? await sessionCountryCode(sessionId) : null;
+  return (
+    fromSession ??
+    normalizeCountryCode(request.headers.get('cf-ipcountry')) ??
+    normalizeCountryCode(request.headers.get('x-country'))
+  );
+}
+
+/** The explicit country, else the detected one when served, else the default country. */
+export async function resolveRequestCountry(
+  request: NextRequest,
+  countryId?: number
+): Promise<RequestCountry> {
+  const settings = await loadCountrySettings();
+  if (countryId != null) {
+    return { countryId, settings: settings.find((s) => s.country_id === countryId) ?? null };
+  }
+  const code = await detectRequestCountryCode(request);
+  const match =
+    (code ? settings.find((s) => s.country_code === code) : undefined) ??
+    settings.find((s) => s.is_default) ??
+    null;
+  return { countryId: match?.country_id ?? FALLBACK_COUNTRY_ID, settings: match };
+}
+
+/**
+ * Scope filterState to the request's country when it sets neither countryId nor countryIds.
+ * For a single country and no displayCurrency, the country's default currency becomes
+ * displayCurrency (only when it has an exchange rate). Mutates filterState.
+ */
+export async function resolveSearchCountry(
+  filterState: SearchFilterState,
+  request: NextRequest
+): Promise<void> {
+  if (filterState.countryIds?.length) return;
+  const { countryId, settings } = await resolveRequestCountry(request, filterState.countryId);
+  filterState.countryId = countryId;
+
+  const currencyCode = settings?.default_currency_code;
+  if (filterState.displayCurrency || !currencyCode) return;
+  try {
+    if ((await loadExchangeRates()).has(currencyCode)) filterState.displayCurrency = currencyCode;
+  } catch (error: unknown) {
+    // Prices then stay in each listing's own currency
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Loading exchange rates for ${currencyCode} failed: ${message}`);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Currency conversion for search: displayCurrency turns priceMin/priceMax into one price range
+ * per listed currency (Typesense price is in the listing's own currency) and converts hit prices.
+ * Rates come from master.EXCHANGE_RATES (USD value of one unit).
+ */
+
+import { AppError } from '@/lib/utils/errors';
+import { exchangeRateCache } from '@/lib/cache';
+import { getExchangeRates } from '@/lib/db/queries/exchangeRates';
+import type { CurrencyPriceRange, SearchFilterState } from '@/lib/search/buildFilterQuery';
+
+export type ExchangeRate = {
+  currencyId: number;
+  code: string;
+  symbol: string | null;
+  decimalPlaces: number;
+  rateToUsd: number;
+};
+
+/** Rates keyed by uppercase currency code. */
+export type ExchangeRates = Map<string, ExchangeRate>;
+
+/** Target currency for display prices (resolved from displayCurrency). */
+export type DisplayCurrency = {
+  rate: ExchangeRate;
+  rates: ExchangeRates;
+};
+
+const CACHE_KEY = 'exchange-rates';
+
+export async function loadExchangeRates(): Promise<ExchangeRates> {
+  const cached = exchangeRateCache.get<ExchangeRates>(CACHE_KEY);
+  if (cached) return cached;
+
+  const rates: ExchangeRates = new Map();
+  for (const row of await getExchangeRates()) {
+    const rateToUsd = Number(row.rate_to_usd);
+    if (!(rateToUsd > 0)) continue;
+    rates.set(row.currency_code.toUpperCase(), {
+      currencyId: row.currency_id,
+      code: row.currency_code.toUpperCase(),
+      symbol: row.currency_symbol,
+      decimalPlaces: row.decimal_places ?? 2,
+      rateToUsd,
+    });
+  }
+  exchangeRateCache.set(CACHE_KEY, rates);
+  return rates;
+}
+
+/** amount in `from` → `to`, rounded to the target's decimal places. */
+export function convertAmount(amount: number, from: ExchangeRate, to: ExchangeRate): number {
+  const factor = 10 ** to.decimalPlaces;
+  return Math.round(((amount * from.rateToUsd) / to.rateToUsd) * factor) / factor;
+}
+
+/** Hit price converted to the display currency; null when the listing's currency has no rate. */
+export function toDisplayPrice(
+  amount: number | null | undefined,
+  currencyCode: string | null | undefined,
+  display: DisplayCurrency
+): { amount: number; currencyCode: string; symbol: string | null } | null {
+  if (amount == null || !currencyCode) return null;
+  const from = display.rates.get(currencyCode.toUpperCase());
+  if (!from) return null;
+  return {
+    amount: convertAmount(amount, from, display.rate),
+    currencyCode: display.rate.code,
+    symbol: display.rate.symbol,
+  };
+}
+
+/** One range per rated currency: min/max converted from the target currency, widened to whole units. */
+function convertRanges(
+  min: number | undefined,
+  max: number | undefined,
+  target: ExchangeRate,
+  rates: ExchangeRates
+): CurrencyPriceRange[] | undefined {
+  const hasMin = min != null && min > 0;
+  const hasMax = max != null;
+  if (!hasMin && !hasMax) return undefined;
+  return Array.from(rates.values()).map((rate) => ({
+    currencyId: rate.currencyId,
+    min: hasMin ? Math.floor(convertAmount(min, target, rate)) : undefined,
+    max: hasMax ? Math.ceil(convertAmount(max, target, rate)) : undefined,
+  }));
+}
+
+/**
+ * Resolve filterState.displayCurrency: 400 INVALID_CURRENCY when unknown; with priceMin/priceMax
+ * (or pricePerSqmMin/Max), sets priceRanges (pricePerSqmRanges). Mutates filterState.
+ */
+export async function resolveDisplayCurrency(
+  filterState: SearchFilterState
+): Promise<DisplayCurrency | null> {
+  const code = filterState.displayCurrency?.trim().toUpperCase();
+  if (!code) return null;
+
+  const rates = await loadExchangeRates();
+  const target = rates.get(code);
+  if (!target) {
+    throw new AppError(`Unsupported displayCurrency: ${code}`, 400, 'INVALID_CURRENCY');
+  }
+
+  filterState.priceRanges = convertRanges(filterState.priceMin, filterState.priceMax, target, rates);
+  filterState.pricePerSqmRanges = convertRanges(
+    filterState.pricePerSqmMin,
+    filterState.pricePerSqmMax,
+    target,
+    rates
+  );
+
+  return { rate: target, rates };
+}
@@ -0,0 +1,175 @@
+/**
+ * Opaque signed cursors for infinite scroll (/api/search, /api/feed).
+ *
+ * A cursor freezes the first page's sort_by (the feed keeps its preferences generation instead
+ * and rebuilds the sort), a snapshot time (listings created later are excluded, so pages cannot
+ * shift) and the position: for sorts made only of always-present numeric fields it keeps the last
+ * hit's sort values and the next page filters past them (keyset, no deep offsets); otherwise it
+ * keeps the offset.
+ * Cursors are bound to the query they came from via a scope hash.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { AppError } from '@/lib/utils/errors';
+
+export type SearchCursor = {
+  /** sort_by of the first page; undefined lets Typesense (or NL) decide. */
+  sortBy?: string;
+  perPage: number;
+  /** Hits returned before this page. */
+  offset: number;
+  /** Sort values of the last returned hit (keyset mode only). */
+  after?: number[];
+  keyset: boolean;
+  /** Epoch seconds of the first page. */
+  snapshot: number;
+  /** found on the first page (keyset pages only see the remainder). */
+  total: number;
+  /** Feed preferences generation (last_analyzed_at, ISO); the feed restarts on a mismatch. */
+  generation?: string | null;
+  /** Hash of the query the cursor belongs to (cursorScope). */
+  scope: string;
+};
+
+/** Fields every indexed document has; only these can drive keyset paging. */
+const KEYSET_FIELDS = new Set(['updated_at', 'created_at', 'property_id_int']);
+
+const DEV_SECRET = 'CURSOR_SECRET-dev-secret-please-set-env';
+
+function getCursorSecret(): string {
+  const secret = process.env.CURSOR_SECRET || process.env.JWT_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV !== 'production') return DEV_SECRET;
+  throw new AppError('CURSOR_SECRET is not configured', 500, 'CURSOR_SECRET_MISSING');
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getCursorSecret()).update(payload).digest('base64url');
+}
+
+function invalidCursor(message = 'Invalid cursor'): AppError {
+  return new AppError(message, 400, 'INVALID_CURSOR');
+}
+
+/** Short hash binding a cursor to its query (filters, q, sort, path). */
+export function cursorScope(...parts: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('base64url').slice(0, 22);
+}
+
+/** [{ field, desc }] when every sort_by component is a plain keyset field; else null. */
+function parseKeysetSort(sortBy: string | undefined): { field: string; desc: boolean }[] | null {
+  if (!sortBy) return null;
+  const keys: { field: string; desc: boolean }[] = [];
+  for (const part of sortBy.split(',')) {
+    const m = part.trim().match(/^([a-z_]+):(asc|desc)$/);
+    if (!m || !KEYSET_FIELDS.has(m[1])) return null;
+    keys.push({ field: m[1], desc: m[2] === 'desc' });
+  }
+  return keys.length ? keys : null;
+}
+
+/** (a:<x) || (a:=x && b:<y) || … — everything strictly after the last hit. */
+function buildKeysetFilter(keys: { field: string; desc: boolean }[], values: number[]): string {
+  const clauses = keys.map((key, i) => {
+    const equal = keys.slice(0, i).map((k, j) => `${k.field}:=${values[j]}`);
+    const past = `${key.field}:${key.desc ? '<' : '>'}${values[i]}`;
+    return `(${[...equal, past].join(' && ')})`;
+  });
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(' || ')})`;
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  const payload = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Verify and decode; 400 INVALID_CURSOR when tampered, malformed or from another query. */
+export function decodeCursor(token: string, scope: string): SearchCursor {
+  const [payload, signature] = token.trim().split('.');
+  if (!payload || !signature) throw invalidCursor();
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw invalidCursor();
+  }
+
+  let cursor: SearchCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SearchCursor;
+  } catch {
+    throw invalidCursor();
+  }
+  if (cursor.scope !== scope) {
+    throw invalidCursor('Cursor does not belong to this query; start again without cursor');
+  }
+  return cursor;
+}
+
+/** Cursor for a page/limit request (page 1 when starting infinite scroll). */
+export function startCursor(options: {
+  sortBy?: string;
+  page: number;
+  perPage: number;
+  scope: string;
+  /** false when the effective sort is not known up front (e.g. NL may generate sort_by). */
+  allowKeyset?: boolean;
+  generation?: string | null;
+}): SearchCursor {
+  return {
+    sortBy: options.sortBy,
+    perPage: options.perPage,
+    offset: (options.page - 1) * options.perPage,
+    keyset: options.allowKeyset !== false && parseKeysetSort(options.sortBy) != null,
+    snapshot: Math.floor(Date.now() / 1000),
+    total: 0,
+    generation: options.generation,
+    scope: options.scope,
+  };
+}
+
+/** Typesense page and filter_by for the cursor's page (snapshot + keyset clauses ANDed on). */
+export function cursorPage(
+  cursor: SearchCursor,
+  filterBy: string | undefined
+): { page: number; perPage: number; filterBy: string | undefined } {
+  const parts = filterBy ? [filterBy] : [];
+  if (cursor.offset > 0) parts.push(`created_at:<=${cursor.snapshot}`);
+
+  const keys = cursor.keyset ? parseKeysetSort(cursor.sortBy) : null;
+  if (keys && cursor.after?.length === keys.length) {
+    parts.push(buildKeysetFilter(keys, cursor.after));
+    return { page: 1, perPage: cursor.perPage, filterBy: parts.join(' && ') };
+  }
+  return {
+    page: Math.floor(cursor.offset / cursor.perPage) + 1,
+    perPage: cursor.perPage,
+    filterBy: parts.length ? parts.join(' && ') : undefined,
+  };
+}
+
+/** Overall total for the response: first page's found (keyset pages only count the remainder). */
+export function cursorTotal(cursor: SearchCursor, found: number): number {
+  return cursor.after ? cursor.total : found;
+}
+
+/** Signed cursor for the page after this one; null on the last page. */
+export function nextCursor(
+  cursor: SearchCursor,
+  hits: Array<{ document: object }>,
+  found: number
+): string | null {
+  const total = cursorTotal(cursor, found);
+  const offset = cursor.offset + hits.length;
+  if (hits.length < cursor.perPage || offset >= total) return null;
+
+  const next: SearchCursor = { ...cursor, offset, total, after: undefined };
+  const keys = cursor.keyset ? parseKeysetSort(cursor.sortBy) : null;
+  if (keys) {
+    const last = hits[hits.length - 1].document as Record<string, unknown>;
+    const values = keys.map((k) => Number(last[k.field]));
+    // A document missing a key (not yet re-synced) cannot anchor a keyset page: fall back to offset
+    if (values.every((v) => Number.isFinite(v))) next.after = values;
+    else next.keyset = false;
+  }
+  return encodeCursor(next);
+}
@@ -0,0 +1,174 @@
+/**
+ * Opt-in facet counts for /api/search and /api/search/count (?facets=bedrooms,features).
+ *
+ * Counts are disjunctive: each facet is counted with every filter except its own selection,
+ * so picking "2 BR" still shows counts for 1 BR / 3 BR. Facets without a selection share
+ * one search; all searches go out in a single multi_search with per_page=0.
+ */
+
+import type { SearchFacet } from '@/lib/security/validation';
+import {
+  buildFilterBy,
+  buildSearchQuery,
+  needsKeywordOrSearch,
+  type SearchFilterState,
+} from './buildFilterQuery';
+import { withoutHiddenListings } from './merchandising';
+import { getTypesenseNlQuery } from './naturalLanguageQuery';
+import type { SearchNlOptions } from './searchRequest';
+import { readNlGeneratedParams, typesenseMultiSearch, typesenseNlParse } from './typesense';
+import { getSearchQueryBy } from './typesenseSchema';
+
+/** Enough for every feature / property type option; bedrooms etc. have far fewer. */
+const MAX_FACET_VALUES = 100;
+
+type FacetDefinition = {
+  /** Typesense facet field */
+  field: string;
+  numeric: boolean;
+  hasSelection: (state: SearchFilterState) => boolean;
+  clearSelection: (state: SearchFilterState) => void;
+};
+
+const FACET_DEFINITIONS: Record<SearchFacet, FacetDefinition> = {
+  bedrooms: {
+    field: 'bedrooms',
+    numeric: true,
+    hasSelection: (s) => !!s.bedrooms?.length,
+    clearSelection: (s) => {
+      s.bedrooms = undefined;
+    },
+  },
+  bathrooms: {
+    field: 'bathrooms',
+    numeric: true,
+    hasSelection: (s) => !!s.bathrooms?.length,
+    clearSelection: (s) => {
+      s.bathrooms = undefined;
+    },
+  },
+  property_type_ids: {
+    field: 'property_type_ids',
+    numeric: true,
+    hasSelection: (s) => !!s.propertyTypeIds?.length,
+    clearSelection: (s) => {
+      s.propertyTypeIds = undefined;
+    },
+  },
+  features: {
+    field: 'feature_ids',
+    numeric: true,
+    hasSelection: (s) => !!s.featureIds?.length || !!s.featureKeys?.length,
+    clearSelection: (s) => {
+      s.featureIds = undefined;
+      s.featureKeys = undefined;
+    },
+  },
+  completion_status: {
+    field: 'completion_status',
+    numeric: false,
+    hasSelection: (s) =>
+      !!s.completionStatuses?.length || (!!s.completionStatus && s.completionStatus !== 'all'),
+    clearSelection: (s) => {
+      s.completionStatus = undefined;
+      s.completionStatuses = undefined;
+    },
+  },
+  furnishing_status: {
+    field: 'furnishing_status',
+    numeric: false,
+    hasSelection: (s) => !!s.furnishingStatuses?.length,
+    clearSelection: (s) => {
+      s.furnishingStatuses = undefined;
+    },
+  },
+};
+
+export type SearchFacetValue = { value: number | string; count: number };
+export type SearchFacetCounts = Partial<Record<SearchFacet, SearchFacetValue[]>>;
+
+/**
+ * Disjunctive facet counts for the current filters.
+ * parsedNlQuery: pass the NL search response's parsed_nl_query to avoid a second LLM parse.
+ * Keyword chips that need a multi-search union (free text) cannot be faceted in one query → undefined.
+ */
+export async function runSearchFacets(
+  filterState: SearchFilterState,
+  facets: SearchFacet[],
+  nlOptions?: SearchNlOptions,
+  parsedNlQuery?: Record<string, unknown>
+): Promise<SearchFacetCounts | undefined> {
+  if (!facets.length) return undefined;
+  const useNl = !!(nlOptions?.useNlQuery && nlOptions?.nlModelId);
+  if (!useNl && needsKeywordOrSearch(filterState)) return undefined;
+
+  const queryBy = getSearchQueryBy(filterState.location, useNl);
+  let q = buildSearchQuery(filterState);
+  // NL: LLM-derived constraints apply to every facet; explicit filters stay disjunctive
+  let nlFilterBy: string | undefined;
+  if (useNl) {
+    let parsed = parsedNlQuery;
+    if (!parsed) {
+      parsed = (
+        await typesenseNlParse({
+          collection: 'properties',
+          q: getTypesenseNlQuery(nlOptions!.rawQ?.trim() || ''),
+          queryBy,
+          filterBy: buildFilterBy(filterState),
+          nlModelId: nlOptions!.nlModelId!,
+        })
+      ).parsedNlQuery;
+    }
+    const generated = readNlGeneratedParams(parsed);
+    q = generated.q;
+    nlFilterBy = generated.filterBy;
+  }
+
+  // Group facets by the filter they are counted against
+  const groups = new Map<string, { filterBy?: string; facets: SearchFacet[] }>();
+  for (const facet of facets) {
+    const def = FACET_DEFINITIONS[facet];
+    const state = { ...filterState };
+    if (def.hasSelection(state)) def.clearSelection(state);
+    // Listings hidden by merchandising rules are not counted (the list never shows them)
+    const filterBy = await withoutHiddenListings(
+      [nlFilterBy, buildFilterBy(state)].filter((p): p is string => !!p).join(' && ') ||
+        undefined,
+      filterState,
+      nlOptions?.rawQ
+    );
+    const key = filterBy ?? '';
+    const group = groups.get(key) ?? { filterBy, facets: [] };
+    group.facets.push(facet);
+    groups.set(key, group);
+  }
+
+  const groupList = Array.from(groups.values());
+  const results = await typesenseMultiSearch<{ property_id: string }>(
+    groupList.map((g) => ({
+      collection: 'properties',
+      q,
+      queryBy,
+      filterBy: g.filterBy,
+      facetBy: g.facets.map((f) => FACET_DEFINITIONS[f].field).join(','),
+      maxFacetValues: MAX_FACET_VALUES,
+      page: 1,
+      perPage: 0,
+    }))
+  );
+
+  const out: SearchFacetCounts = {};
+  groupList.forEach((group, i) => {
+    const facetCounts = results[i]?.facet_counts ?? [];
+    for (const facet of group.facets) {
+      const def = FACET_DEFINITIONS[facet];
+      const counts = facetCounts.find((fc) => fc.field_name === def.field)?.counts ?? [];
+      out[facet] = counts
+        .map((c) => ({ value: def.numeric ? Number(c.value) : c.value, count: c.count }))
+        .sort((a, b) =>
+          def.numeric ? (a.value as number) - (b.value as number) : b.count - a.count
+        );
+    }
+  });
+  return out;
+}
@@ -5,6 +5,7 @@
  * Rule: filter config "id" = search param/body key, except range filters:
  * - id "price" → request uses priceMin, priceMax
  * - id "area"  → request uses areaMin, areaMax (always sqm)
+ * - id "parking" / "floor" / "totalFloors" / "yearBuilt" → request uses <id>Min, <id>Max
  */
 
 /** Filter ids that map 1:1 to a single GET param and POST body key (same name). */
@@ -18,12 +19,17 @@ export const FILTER_IDS_AS_SEARCH_KEYS = [
   'keyword',
   'agentIds',
   'featureIds',
+  'furnishingStatus',
 ] as const;
 
 /** Range filter ids and their corresponding search keys. */
 export const FILTER_ID_TO_SEARCH_KEYS: Record<string, readonly string[]> = {
   price: ['priceMin', 'priceMax'],
   area: ['areaMin', 'areaMax'],
+  parking: ['parkingMin', 'parkingMax'],
+  floor: ['floorMin', 'floorMax'],
+  totalFloors: ['totalFloorsMin', 'totalFloorsMax'],
+  yearBuilt: ['yearBuiltMin', 'yearBuiltMax'],
 } as const;
 
 /** All filter config ids that affect search (single-key + range). */
@@ -37,6 +43,7 @@ export const ALL_SEARCH_FILTER_IDS = [
  * - For most filters: returns [id].
  * - For "price": returns ["priceMin", "priceMax"].
  * - For "area": returns ["areaMin", "areaMax"] (always sqm).
+ * - For "parking", "floor", "totalFloors", "yearBuilt": returns ["<id>Min", "<id>Max"].
  */
 export function getSearchKeysForFilterId(filterId: string): string[] {
   const rangeKeys = FILTER_ID_TO_SEARCH_KEYS[filterId];
@@ -0,0 +1,156 @@
+/**
+ * Geo helpers for the Typesense `geo` geopoint (LOCATIONS latitude/longitude).
+ * Typesense stores geopoints as [lat, lng]; filter_by radius uses km, sort returns meters.
+ */
+
+export type GeoPoint = { lat: number; lng: number };
+
+/** Map viewport: north-east and south-west corners. */
+export type GeoBounds = { ne: GeoPoint; sw: GeoPoint };
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+/** Great-circle distance in km (used when Typesense did not return geo_distance_meters). */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Centre of a viewport (distance sort fallback when only ne/sw are sent). */
+export function boundsCenter(bounds: GeoBounds): GeoPoint {
+  return {
+    lat: (bounds.ne.lat + bounds.sw.lat) / 2,
+    lng: (bounds.ne.lng + bounds.sw.lng) / 2,
+  };
+}
+
+/** Vertex average of a polygon (distance reference for lasso searches). */
+export function polygonCentroid(points: GeoPoint[]): GeoPoint {
+  const n = points.length || 1;
+  return {
+    lat: points.reduce((a, p) => a + p.lat, 0) / n,
+    lng: points.reduce((a, p) => a + p.lng, 0) / n,
+  };
+}
+
+/** Viewport corners → polygon vertices, clockwise from NE. */
+export function boundsToPoints({ ne, sw }: GeoBounds): GeoPoint[] {
+  return [
+    { lat: ne.lat, lng: ne.lng },
+    { lat: sw.lat, lng: ne.lng },
+    { lat: sw.lat, lng: sw.lng },
+    { lat: ne.lat, lng: sw.lng },
+  ];
+}
+
+/** Typesense document geo ([lat, lng]) → GeoPoint. */
+export function docGeoToPoint(geo: number[] | null | undefined): GeoPoint | null {
+  if (!Array.isArray(geo) || geo.length < 2) return null;
+  const [lat, lng] = geo;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return { lat, lng };
+}
+
+/** Parse "lat,lng" (GET ne / sw params). Returns null when malformed or out of range. */
+export function parseLatLng(value: string | undefined): GeoPoint | null {
+  if (!value?.trim()) return null;
+  const [latRaw, lngRaw] = value.split(',').map((s) => s.trim());
+  const lat = Number(latRaw);
+  const lng = Number(lngRaw);
+  if (!latRaw || !lngRaw || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return { lat, lng };
+}
+
+/** Round distance for API output (2 decimals, km). */
+export function roundKm(km: number): number {
+  return Math.round(km * 100) / 100;
+}
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/** Standard base32 geohash; precision = number of characters (1–12). */
+export function encodeGeohash(point: GeoPoint, precision: number): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (point.lng >= mid) {
+        bits = bits * 2 + 1;
+        lngMin = mid;
+      } else {
+        bits *= 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (point.lat >= mid) {
+        bits = bits * 2 + 1;
+        latMin = mid;
+      } else {
+        bits *= 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+    if (++bitCount === 5) {
+      hash += GEOHASH_BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+  return hash;
+}
+
+/** Centre of a geohash cell. */
+export function geohashCellCentre(hash: string): GeoPoint {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let evenBit = true;
+  for (const char of hash) {
+    const bits = GEOHASH_BASE32.indexOf(char);
+    for (let i = 4; i >= 0; i--) {
+      const bit = (bits >> i) & 1;
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (bit) lngMin = mid;
+        else lngMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (bit) latMin = mid;
+        else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+  return { lat: (latMin + latMax) / 2, lng: (lngMin + lngMax) / 2 };
+}
+
+/** Map zoom level (0–22) → geohash precision: cells roughly a few dozen pixels wide on screen. */
+export function geohashPrecisionForZoom(zoom: number): number {
+  if (zoom <= 3) return 2;
+  if (zoom <= 6) return 3;
+  if (zoom <= 9) return 4;
+  if (zoom <= 12) return 5;
+  if (zoom <= 15) return 6;
+  if (zoom <= 18) return 7;
+  return 8;
+}
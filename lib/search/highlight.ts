@@ -0,0 +1,205 @@
+/**
+ * Opt-in result highlighting (highlight=true): Typesense snippets for title, address and
+ * features, plus matchedOn — why a hit matched (location, keyword chip, feature).
+ * Snippets are agent-entered text, so they are HTML-escaped; only the <mark> tags are markup.
+ */
+
+import { freeTextKeywords, type SearchFilterState } from './buildFilterQuery';
+import type { TypesenseSearchResponse } from './typesense';
+
+/**
+ * Typesense wraps matches in these private-use characters (they never occur in listing text);
+ * toSafeSnippet turns them into <mark> / </mark> after escaping.
+ */
+export const HIGHLIGHT_START_TAG = '\uE000';
+export const HIGHLIGHT_END_TAG = '\uE001';
+
+const LOCATION_FIELDS = ['community_en', 'area_en', 'city_en', 'address'] as const;
+
+/** What the request searched for; matchedOn is explained against it. */
+export type HighlightContext = {
+  /** Free-text keyword chips. */
+  keywords: string[];
+  /**
+   * Keyword-OR union: hit.search_index is the index of the free-text chip that matched
+   * (one past the last: the feature-mapped chips' search).
+   */
+  union: boolean;
+  /** Feature-mapped chips → feature keys; a chip matched when the listing has any of them. */
+  keywordFeatureKeys: Record<string, string[]>;
+  locationIds: string[];
+  featureKeys: string[];
+};
+
+export type ItemHighlights = {
+  title: string | null;
+  address: string | null;
+  features: string[];
+};
+
+export type MatchedOn = {
+  type: 'location' | 'keyword' | 'feature';
+  value: string;
+};
+
+type HighlightDoc = {
+  title_en?: string;
+  title_ar?: string;
+  address?: string;
+  city_en?: string;
+  area_en?: string;
+  community_en?: string;
+  features?: string[];
+  location_ids?: string[];
+};
+
+type Hit = TypesenseSearchResponse<HighlightDoc>['hits'][number];
+
+/** One highlighted value: for array fields `index` is the element position. */
+type FieldMatch = { snippet: string; matchedTokens: string[]; index?: number };
+
+export function highlightContextFromState(
+  state: SearchFilterState,
+  union: boolean
+): HighlightContext {
+  return {
+    keywords: freeTextKeywords(state),
+    union,
+    keywordFeatureKeys: Object.fromEntries(
+      (state.keywords ?? [])
+        .filter((kw) => state.keywordFeatureKeys?.[kw]?.length)
+        .map((kw) => [kw, state.keywordFeatureKeys![kw]])
+    ),
+    locationIds: state.locationIds ?? [],
+    featureKeys: state.featureKeys ?? [],
+  };
+}
+
+/** Escaped snippet whose only markup is <mark>…</mark> around the matched tokens. */
+function toSafeSnippet(snippet: string): string {
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(HIGHLIGHT_START_TAG)
+    .join('<mark>')
+    .split(HIGHLIGHT_END_TAG)
+    .join('</mark>');
+}
+
+function toFieldMatch(raw: unknown, index?: number): FieldMatch | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as { snippet?: unknown; matched_tokens?: unknown };
+  const matchedTokens = Array.isArray(r.matched_tokens)
+    ? r.matched_tokens.flat().filter((t): t is string => typeof t === 'string')
+    : [];
+  if (matchedTokens.length === 0 || typeof r.snippet !== 'string') return null;
+  return { snippet: toSafeSnippet(r.snippet), matchedTokens, index };
+}
+
+/**
+ * Matched values per field from `highlight` (Typesense 0.24+, nested per field) or the legacy
+ * `highlights` array. Only values with matched tokens are kept.
+ */
+function readHighlights(hit: Hit): Map<string, FieldMatch[]> {
+  const byField = new Map<string, FieldMatch[]>();
+  const add = (field: string, match: FieldMatch | null) => {
+    if (!match) return;
+    byField.set(field, [...(byField.get(field) ?? []), match]);
+  };
+
+  if (hit.highlight && Object.keys(hit.highlight).length > 0) {
+    for (const [field, value] of Object.entries(hit.highlight)) {
+      if (Array.isArray(value)) value.forEach((v, i) => add(field, toFieldMatch(v, i)));
+      else add(field, toFieldMatch(value));
+    }
+    return byField;
+  }
+
+  for (const raw of hit.highlights ?? []) {
+    const h = raw as {
+      field?: string;
+      snippet?: string;
+      snippets?: string[];
+      indices?: number[];
+      matched_tokens?: unknown[];
+    };
+    if (!h.field) continue;
+    if (Array.isArray(h.snippets)) {
+      h.snippets.forEach((snippet, i) =>
+        add(
+          h.field!,
+          toFieldMatch({ snippet, matched_tokens: h.matched_tokens?.[i] }, h.indices?.[i])
+        )
+      );
+    } else {
+      add(h.field, toFieldMatch(h));
+    }
+  }
+  return byField;
+}
+
+function chipMatches(chip: string, tokens: string[]): boolean {
+  const chipTokens = chip.toLowerCase().split(/\s+/).filter(Boolean);
+  return chipTokens.some((c) => tokens.some((t) => t.startsWith(c) || c.startsWith(t)));
+}
+
+/** Snippets and match explanation for one hit. */
+export function explainHit(
+  hit: Hit,
+  lang: 'en' | 'ar',
+  ctx: HighlightContext
+): { highlights: ItemHighlights; matchedOn: MatchedOn[] } {
+  const d = hit.document;
+  const fields = readHighlights(hit);
+  const titleFields = lang === 'ar' ? ['title_ar', 'title_en'] : ['title_en', 'title_ar'];
+  const titleMatch = titleFields.map((f) => fields.get(f)?.[0]).find(Boolean);
+  const featureMatches = fields.get('features') ?? [];
+
+  const matchedOn: MatchedOn[] = [];
+  const seen = new Set<string>();
+  const push = (type: MatchedOn['type'], value: string | undefined | null) => {
+    if (!value || seen.has(`${type}:${value}`)) return;
+    seen.add(`${type}:${value}`);
+    matchedOn.push({ type, value });
+  };
+
+  for (const key of ctx.locationIds) {
+    if (d.location_ids?.includes(key)) push('location', key);
+  }
+  for (const field of LOCATION_FIELDS) {
+    if (fields.has(field)) push('location', d[field]);
+  }
+
+  if (ctx.union && typeof hit.search_index === 'number') {
+    push('keyword', ctx.keywords[hit.search_index]);
+  } else if (ctx.keywords.length > 0) {
+    const tokens = Array.from(fields.values())
+      .flat()
+      .flatMap((m) => m.matchedTokens.map((t) => t.toLowerCase()));
+    for (const chip of ctx.keywords) {
+      if (chipMatches(chip, tokens)) push('keyword', chip);
+    }
+  }
+  for (const [chip, keys] of Object.entries(ctx.keywordFeatureKeys)) {
+    if (keys.some((key) => d.features?.includes(key))) push('keyword', chip);
+  }
+
+  for (const key of ctx.featureKeys) {
+    if (d.features?.includes(key)) push('feature', key);
+  }
+  for (const m of featureMatches) {
+    push('feature', m.index != null ? d.features?.[m.index] : undefined);
+  }
+
+  return {
+    highlights: {
+      title: titleMatch?.snippet ?? null,
+      address: fields.get('address')?.[0]?.snippet ?? null,
+      features: featureMatches.map((m) => m.snippet),
+    },
+    matchedOn,
+  };
+}
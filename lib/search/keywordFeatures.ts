@@ -0,0 +1,46 @@
+/**
+ * Keyword chips backed by features: property.KEYWORD_FEATURES maps a chip (e.g. beach) to feature
+ * keys, so it searches as an OR'd `features` filter inside the main ranked query instead of a
+ * full-text search merged by multi-search union. Unmapped chips stay free text.
+ */
+
+import { filterConfigCache } from '@/lib/cache';
+import { getKeywordFeatureMappings } from '@/lib/db/queries/filterOptions';
+import type { SearchFilterState } from './buildFilterQuery';
+
+const CACHE_KEY = 'keyword-features';
+
+/** Lowercased keyword_key and display_label → feature keys. Empty when the mappings cannot be read. */
+async function loadKeywordFeatureMappings(): Promise<Map<string, string[]>> {
+  const cached = filterConfigCache.get<Map<string, string[]>>(CACHE_KEY);
+  if (cached) return cached;
+
+  const mappings = new Map<string, string[]>();
+  try {
+    for (const row of await getKeywordFeatureMappings()) {
+      mappings.set(row.keyword_key.trim().toLowerCase(), row.feature_keys);
+      const label = row.display_label?.trim().toLowerCase();
+      if (label && !mappings.has(label)) mappings.set(label, row.feature_keys);
+    }
+  } catch (error: unknown) {
+    // Chips then search as free text, as before the mappings existed
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Loading keyword feature mappings failed: ${message}`);
+    return mappings;
+  }
+  filterConfigCache.set(CACHE_KEY, mappings);
+  return mappings;
+}
+
+/** Sets state.keywordFeatureKeys for the chips that have a feature mapping. */
+export async function resolveKeywordFeatures(state: SearchFilterState): Promise<void> {
+  if (!state.keywords?.length) return;
+  const mappings = await loadKeywordFeatureMappings();
+
+  const resolved: Record<string, string[]> = {};
+  for (const kw of state.keywords) {
+    const keys = mappings.get(kw.trim().toLowerCase());
+    if (keys?.length) resolved[kw] = keys;
+  }
+  state.keywordFeatureKeys = Object.keys(resolved).length ? resolved : undefined;
+}
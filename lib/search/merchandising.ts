@@ -0,0 +1,192 @@
+/**
+ * Merchandising rules for /api/search: pin listings to the top or hide them for searches that
+ * mention a phrase (e.g. "Palm Jumeirah") or filter on a location key, within a schedule.
+ * Matching rules are sent as Typesense pinned_hits / hidden_hits; the global is_featured /
+ * featured_rank ordering still applies to everything that is not pinned. Count, facet, cluster
+ * and relaxation searches exclude hidden listings in filter_by instead (withoutHiddenListings).
+ */
+
+import { merchandisingRuleCache } from '@/lib/cache';
+import {
+  getLiveMerchandisingRules,
+  type MerchandisingRuleRow,
+} from '@/lib/db/queries/merchandisingRules';
+import { AppError } from '@/lib/utils/errors';
+import type { SearchFilterState } from './buildFilterQuery';
+import { normalizeSentence } from './ruleBasedNlParser';
+import type { TypesenseCuration, TypesenseSearchResponse } from './typesense';
+
+const LIVE_RULES_KEY = 'live';
+
+export type SearchCuration = TypesenseCuration & {
+  rules: Array<{ id: number; name: string }>;
+};
+
+/** Rules that can still fire (active, not ended), highest priority first. Empty when the load fails. */
+async function loadLiveMerchandisingRules(): Promise<MerchandisingRuleRow[]> {
+  const cached = merchandisingRuleCache.get<MerchandisingRuleRow[]>(LIVE_RULES_KEY);
+  if (cached) return cached;
+  try {
+    const rules = await getLiveMerchandisingRules();
+    merchandisingRuleCache.set(LIVE_RULES_KEY, rules);
+    return rules;
+  } catch (error: unknown) {
+    // Search must not fail because of merchandising
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Loading merchandising rules failed: ${message}`);
+    return [];
+  }
+}
+
+/** Call after admin writes so the change applies on the next search. */
+export function invalidateMerchandisingRules(): void {
+  merchandisingRuleCache.delete(LIVE_RULES_KEY);
+}
+
+function isScheduled(rule: MerchandisingRuleRow, now: number): boolean {
+  if (rule.starts_at && new Date(rule.starts_at).getTime() > now) return false;
+  if (rule.ends_at && new Date(rule.ends_at).getTime() <= now) return false;
+  return true;
+}
+
+/** Every text the user typed for this search (NL sentence, location text, keyword, chips). */
+function searchText(state: SearchFilterState, rawQ: string | undefined): string {
+  const parts = [rawQ, state.location, state.keyword, ...(state.keywords ?? [])];
+  return normalizeSentence(parts.filter((p): p is string => !!p?.trim()).join(' '));
+}
+
+function ruleMatches(
+  rule: MerchandisingRuleRow,
+  state: SearchFilterState,
+  text: string
+): boolean {
+  if (
+    rule.country_id != null &&
+    rule.country_id !== state.countryId &&
+    !state.countryIds?.includes(rule.country_id)
+  ) {
+    return false;
+  }
+  if (rule.purpose_key && rule.purpose_key !== state.purpose) return false;
+  if (rule.match_location_id && !state.locationIds?.includes(rule.match_location_id)) return false;
+  if (rule.match_query) {
+    const phrase = normalizeSentence(rule.match_query);
+    if (!phrase || !` ${text} `.includes(` ${phrase} `)) return false;
+  }
+  return true;
+}
+
+/**
+ * Pins and hides from every rule matching this search. Higher priority rules place their pins
+ * first; a listing hidden by any matching rule is never pinned. Null when no rule matches.
+ */
+export async function resolveSearchCuration(
+  state: SearchFilterState,
+  rawQ?: string
+): Promise<SearchCuration | null> {
+  const rules = await loadLiveMerchandisingRules();
+  if (rules.length === 0) return null;
+
+  const now = Date.now();
+  const text = searchText(state, rawQ);
+  const matched = rules.filter((rule) => isScheduled(rule, now) && ruleMatches(rule, state, text));
+  if (matched.length === 0) return null;
+
+  const hidden = new Set(matched.flatMap((rule) => rule.hidden_property_ids.map(String)));
+  const pinned = new Set<string>();
+  for (const rule of matched) {
+    for (const id of rule.pinned_property_ids.map(String)) {
+      if (!hidden.has(id)) pinned.add(id);
+    }
+  }
+
+  return {
+    pinnedHits: Array.from(pinned),
+    hiddenHits: Array.from(hidden),
+    rules: matched.map((rule) => ({ id: rule.rule_id, name: rule.name })),
+  };
+}
+
+/**
+ * filterBy plus a clause excluding listings hidden by the rules matching this search, for searches
+ * that send no hidden_hits (count, facets, clusters), so their totals agree with the list.
+ */
+export async function withoutHiddenListings(
+  filterBy: string | undefined,
+  state: SearchFilterState,
+  rawQ?: string
+): Promise<string | undefined> {
+  const hidden = (await resolveSearchCuration(state, rawQ))?.hiddenHits ?? [];
+  if (hidden.length === 0) return filterBy;
+  const clause = `property_id:!=[${hidden.join(',')}]`;
+  return filterBy ? `${filterBy} && ${clause}` : clause;
+}
+
+/**
+ * Response meta: the rules that fired and the pinned listings actually on this page. Hidden ids
+ * stay server-side: bury lists are not for anonymous clients.
+ */
+export function merchandisingMeta(
+  curation: SearchCuration,
+  hits: TypesenseSearchResponse<unknown>['hits']
+) {
+  return {
+    rules: curation.rules,
+    pinnedPropertyIds: hits
+      .filter((h) => h.curated)
+      .map((h) => Number((h.document as { property_id?: string }).property_id)),
+  };
+}
+
+/** Stored rule shape checked on create and (merged with the stored row) on update. */
+export function assertValidMerchandisingRule(rule: {
+  matchQuery: string | null;
+  matchLocationId: string | null;
+  pinnedPropertyIds: number[];
+  hiddenPropertyIds: number[];
+  startsAt: Date | null;
+  endsAt: Date | null;
+}): void {
+  if (!rule.matchQuery && !rule.matchLocationId) {
+    throw new AppError('matchQuery or matchLocationId is required', 400, 'INVALID_MERCHANDISING_RULE');
+  }
+  if (rule.pinnedPropertyIds.length === 0 && rule.hiddenPropertyIds.length === 0) {
+    throw new AppError(
+      'pinnedPropertyIds or hiddenPropertyIds must not be empty',
+      400,
+      'INVALID_MERCHANDISING_RULE'
+    );
+  }
+  if (rule.startsAt && rule.endsAt && rule.endsAt <= rule.startsAt) {
+    throw new AppError('endsAt must be after startsAt', 400, 'INVALID_MERCHANDISING_RULE');
+  }
+}
+
+/** Whether the rule would fire now, given a matching search. */
+function ruleStatus(row: MerchandisingRuleRow): 'inactive' | 'scheduled' | 'live' | 'ended' {
+  if (!row.is_active) return 'inactive';
+  const now = Date.now();
+  if (row.ends_at && new Date(row.ends_at).getTime() <= now) return 'ended';
+  if (row.starts_at && new Date(row.starts_at).getTime() > now) return 'scheduled';
+  return 'live';
+}
+
+export function toMerchandisingRuleResponse(row: MerchandisingRuleRow) {
+  return {
+    id: row.rule_id,
+    name: row.name,
+    matchQuery: row.match_query,
+    matchLocationId: row.match_location_id,
+    countryId: row.country_id,
+    purpose: row.purpose_key,
+    pinnedPropertyIds: row.pinned_property_ids,
+    hiddenPropertyIds: row.hidden_property_ids,
+    priority: row.priority,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    isActive: row.is_active,
+    status: ruleStatus(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Cache for NL query interpretations (phase 1 of NL search, the LLM call). Keyed by the
+ * normalized sentence so identical q strings across users, and the count + list calls for the
+ * same sentence, share one parse. The backend is pluggable (in-memory by default; swap in
+ * Redis / KV for multiple instances) and errors from it are treated as misses.
+ */
+
+import { nlInterpretationCache } from '@/lib/cache';
+import { mapCurrencySymbolsToText } from './naturalLanguageQuery';
+
+/** What the LLM generated for a sentence (independent of the caller's own filters). */
+export type NlInterpretation = {
+  q: string;
+  filterBy?: string;
+  sortBy?: string;
+  parsedNlQuery?: Record<string, unknown>;
+};
+
+export interface NlInterpretationCacheBackend {
+  get(key: string): Promise<NlInterpretation | null>;
+  set(key: string, value: NlInterpretation): Promise<void>;
+}
+
+const memoryBackend: NlInterpretationCacheBackend = {
+  async get(key) {
+    return nlInterpretationCache.get<NlInterpretation>(key);
+  },
+  async set(key, value) {
+    nlInterpretationCache.set(key, value);
+  },
+};
+
+let backend: NlInterpretationCacheBackend = memoryBackend;
+
+/** Parses in flight, so concurrent calls for one sentence (e.g. results + facets) share the LLM call. */
+const inFlight = new Map<string, Promise<NlInterpretation>>();
+
+const stats = { hits: 0, misses: 0 };
+
+/** Replace the cache backend; null restores the in-memory default. */
+export function setNlInterpretationCacheBackend(next: NlInterpretationCacheBackend | null): void {
+  backend = next ?? memoryBackend;
+}
+
+/** Hit/miss counters since the process started (in-flight joins count as hits). */
+export function getNlInterpretationCacheStats(): { hits: number; misses: number; hitRate: number } {
+  const total = stats.hits + stats.misses;
+  return {
+    hits: stats.hits,
+    misses: stats.misses,
+    hitRate: total > 0 ? Math.round((stats.hits / total) * 100) / 100 : 0,
+  };
+}
+
+/** Lowercased, currency symbols mapped to ISO codes, whitespace collapsed. */
+export function normalizeNlQuery(q: string): string {
+  return mapCurrencySymbolsToText(q).toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+async function readBackend(key: string): Promise<NlInterpretation | null> {
+  try {
+    return await backend.get(key);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`NL interpretation cache read failed: ${message}`);
+    return null;
+  }
+}
+
+async function writeBackend(key: string, value: NlInterpretation): Promise<void> {
+  try {
+    await backend.set(key, value);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`NL interpretation cache write failed: ${message}`);
+  }
+}
+
+/**
+ * Cached interpretation of q for this collection and model, or parse() on a miss.
+ * cached is true when no LLM call was made for this request.
+ */
+export async function getOrParseNlInterpretation(
+  options: { collection: string; q: string; nlModelId: string },
+  parse: () => Promise<NlInterpretation>
+): Promise<{ interpretation: NlInterpretation; cached: boolean }> {
+  const key = `${options.collection}:${options.nlModelId}:${normalizeNlQuery(options.q)}`;
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    stats.hits++;
+    return { interpretation: await pending, cached: true };
+  }
+
+  let parsed = false;
+  const promise = (async () => {
+    const stored = await readBackend(key);
+    if (stored) return stored;
+    parsed = true;
+    const interpretation = await parse();
+    await writeBackend(key, interpretation);
+    return interpretation;
+  })();
+  inFlight.set(key, promise);
+  try {
+    const interpretation = await promise;
+    if (parsed) stats.misses++;
+    else stats.hits++;
+    return { interpretation, cached: !parsed };
+  } finally {
+    inFlight.delete(key);
+  }
+}
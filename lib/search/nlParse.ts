@@ -0,0 +1,412 @@
+/**
+ * NL parse preview (POST /api/search/parse): run only phase 1 of NL search and translate the
+ * generated filter_by / sort_by back into SearchFilterState fields, so the client can show
+ * "3 bed villa in Arabian Ranches under 5M" as editable filter chips. Without an NL model the
+ * rule-based parser produces the fields directly.
+ */
+
+import {
+  getMainPropertyTypeIdsByKeys,
+  getPropertyTypeIdsByKeys,
+} from '@/lib/db/queries/filterOptions';
+import { buildFilterBy, type SearchFilterState } from './buildFilterQuery';
+import { getTypesenseNlQuery } from './naturalLanguageQuery';
+import { ruleBasedParse } from './ruleBasedNlParser';
+import { namedSortForSortBy, type SearchSortOption } from './searchSort';
+import { readNlGeneratedParams, typesenseNlParse } from './typesense';
+import { getSearchQueryBy } from './typesenseSchema';
+
+export type NlParsePreview = {
+  /** Who read the sentence: the NL model, or the rule-based parser (no model / model failed). */
+  source: 'model' | 'rules';
+  /** Generated residual query; null when the model left none. */
+  q: string | null;
+  filterBy: string | null;
+  sortBy: string | null;
+  /** Generated filters as SearchFilterState fields. */
+  filters: Partial<SearchFilterState>;
+  /** Named sort (sortBy param) matching the generated sort_by; null when none matches. */
+  sort: SearchSortOption | null;
+  /** filter_by clauses with no SearchFilterState equivalent; left out of filters. */
+  unmapped: string[];
+};
+
+type Op = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+type Clause = {
+  field: string;
+  op: Op;
+  values: string[];
+  /** field:[a..b] */
+  range?: [number, number];
+};
+
+/** Target of each Typesense field; clauses OR'd together must share a target to be merged. */
+const FIELD_TARGETS: Record<string, string> = {
+  purpose_key: 'purpose',
+  country_id: 'countryId',
+  location_ids: 'locationIds',
+  city_en: 'location',
+  area_en: 'location',
+  community_en: 'location',
+  address: 'location',
+  completion_status: 'completionStatuses',
+  furnishing_status: 'furnishingStatuses',
+  main_property_type_ids: 'mainPropertyTypeIds',
+  main_property_type_keys: 'mainPropertyTypeKeys',
+  main_property_type_names_en: 'mainPropertyTypeKeys',
+  property_type_id: 'propertyTypeIds',
+  property_type_ids: 'propertyTypeIds',
+  property_type_key: 'propertyTypeKeys',
+  property_type_keys: 'propertyTypeKeys',
+  property_type_en: 'propertyTypeKeys',
+  property_type_names_en: 'propertyTypeKeys',
+  bedrooms: 'bedrooms',
+  bathrooms: 'bathrooms',
+  price: 'price',
+  currency_code: 'displayCurrency',
+  area_sqm: 'area',
+  price_per_sqm: 'pricePerSqm',
+  parking_spaces: 'parking',
+  floor_number: 'floor',
+  total_floors: 'totalFloors',
+  year_built: 'yearBuilt',
+  feature_ids: 'featureIds',
+  features: 'featureKeys',
+};
+
+/** Most specific location text wins (community over area over city). */
+const LOCATION_FIELD_RANK = ['community_en', 'area_en', 'city_en', 'address'];
+
+/** Widest bedrooms/bathrooms span expanded into exact values. */
+const MAX_COUNT_SPAN = 10;
+
+/** Split on a top-level operator (outside parentheses, brackets and backticks). */
+function splitTopLevel(expr: string, sep: '&&' | '||'): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i];
+    if (ch === '`') quoted = !quoted;
+    if (quoted) continue;
+    if (ch === '(' || ch === '[') depth++;
+    else if (ch === ')' || ch === ']') depth--;
+    else if (depth === 0 && expr.startsWith(sep, i)) {
+      parts.push(expr.slice(start, i));
+      start = i + sep.length;
+      i += sep.length - 1;
+    }
+  }
+  parts.push(expr.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/** "(a || b)" → "a || b" when the parentheses wrap the whole expression. */
+function stripOuterParens(expr: string): string {
+  let s = expr.trim();
+  while (s.startsWith('(') && s.endsWith(')')) {
+    let depth = 0;
+    let wraps = true;
+    for (let i = 0; i < s.length - 1; i++) {
+      if (s[i] === '(') depth++;
+      else if (s[i] === ')') depth--;
+      if (depth === 0) {
+        wraps = false;
+        break;
+      }
+    }
+    if (!wraps) break;
+    s = s.slice(1, -1).trim();
+  }
+  return s;
+}
+
+function unquote(value: string): string {
+  const v = value.trim();
+  return v.startsWith('`') && v.endsWith('`') ? v.slice(1, -1) : v;
+}
+
+function parseClause(text: string): Clause | null {
+  const m = text.trim().match(/^([a-z_]+)\s*:\s*(!=|>=|<=|=|>|<)?\s*([\s\S]+)$/);
+  if (!m) return null;
+  const op = (m[2] ?? '=') as Op;
+  const raw = m[3].trim();
+  if (!raw.startsWith('[')) return { field: m[1], op, values: [unquote(raw)] };
+
+  const inner = raw.replace(/^\[|\]$/g, '');
+  const range = inner.match(/^\s*(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)\s*$/);
+  if (range) return { field: m[1], op, values: [], range: [Number(range[1]), Number(range[2])] };
+  const values = inner
+    .split(/,(?=(?:[^`]*`[^`]*`)*[^`]*$)/)
+    .map(unquote)
+    .filter(Boolean);
+  return { field: m[1], op, values };
+}
+
+/** Clauses ORed over one target (e.g. property_type_id || property_type_ids) → one clause. */
+function parseOrGroup(text: string): Clause | null {
+  const parts = splitTopLevel(text, '||').map((p) => parseClause(stripOuterParens(p)));
+  if (parts.some((c) => !c || c.op !== '=' || c.range)) return null;
+  const clauses = parts as Clause[];
+  const target = FIELD_TARGETS[clauses[0].field];
+  if (!target || clauses.some((c) => FIELD_TARGETS[c.field] !== target)) return null;
+  return { field: clauses[0].field, op: '=', values: clauses.flatMap((c) => c.values) };
+}
+
+function toNumbers(values: string[]): number[] {
+  return values.map(Number).filter((n) => Number.isFinite(n));
+}
+
+/** Bounds for a numeric clause: [min, max] with either side open. */
+function numericBounds(c: Clause): [number | undefined, number | undefined] | null {
+  if (c.range) return c.range;
+  const [n] = toNumbers(c.values);
+  if (n == null) return null;
+  switch (c.op) {
+    case '=':
+      return [n, n];
+    case '>':
+    case '>=':
+      return [n, undefined];
+    case '<':
+    case '<=':
+      return [undefined, n];
+    default:
+      return null;
+  }
+}
+
+/** bedrooms/bathrooms clause → exact values and "N+" options. */
+function countValues(c: Clause, floor: number): (number | string)[] | null {
+  if (c.op === '=' && !c.range) return toNumbers(c.values).map(Math.trunc);
+  if (c.op === '>=' || c.op === '>') {
+    const [n] = toNumbers(c.values);
+    if (n == null) return null;
+    return [`${Math.trunc(n) + (c.op === '>' ? 1 : 0)}+`];
+  }
+  const bounds = numericBounds(c);
+  if (!bounds) return null;
+  const min = Math.max(floor, Math.ceil(bounds[0] ?? floor));
+  const max = Math.floor((bounds[1] ?? min) - (c.op === '<' ? 1 : 0));
+  if (max < min || max - min > MAX_COUNT_SPAN) return null;
+  return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
+
+type Translation = {
+  filters: Partial<SearchFilterState>;
+  propertyTypeKeys: string[];
+  mainPropertyTypeKeys: string[];
+  locations: Map<string, string>;
+  unmapped: string[];
+};
+
+function mergeList<T>(current: T[] | undefined, next: T[]): T[] {
+  return Array.from(new Set([...(current ?? []), ...next]));
+}
+
+type RangeMinKey =
+  | 'priceMin'
+  | 'areaMin'
+  | 'pricePerSqmMin'
+  | 'parkingMin'
+  | 'floorMin'
+  | 'totalFloorsMin'
+  | 'yearBuiltMin';
+type RangeMaxKey =
+  | 'priceMax'
+  | 'areaMax'
+  | 'pricePerSqmMax'
+  | 'parkingMax'
+  | 'floorMax'
+  | 'totalFloorsMax'
+  | 'yearBuiltMax';
+
+function applyRange(
+  filters: Partial<SearchFilterState>,
+  minKey: RangeMinKey,
+  maxKey: RangeMaxKey,
+  c: Clause
+): boolean {
+  const bounds = numericBounds(c);
+  if (!bounds) return false;
+  if (bounds[0] != null) filters[minKey] = bounds[0];
+  if (bounds[1] != null) filters[maxKey] = bounds[1];
+  return true;
+}
+
+/** Apply one clause; false when it has no SearchFilterState equivalent. */
+function applyClause(c: Clause, t: Translation): boolean {
+  const f = t.filters;
+  if (c.op === '!=') return false;
+  const target = FIELD_TARGETS[c.field];
+  const isEq = c.op === '=' && !c.range;
+
+  switch (target) {
+    case 'purpose':
+      if (!isEq || c.values.length !== 1) return false;
+      f.purpose = c.values[0].toLowerCase();
+      return true;
+    case 'countryId': {
+      const ids = toNumbers(c.values);
+      if (!isEq || ids.length !== 1) return false;
+      f.countryId = ids[0];
+      return true;
+    }
+    case 'locationIds':
+      if (!isEq) return false;
+      f.locationIds = mergeList(f.locationIds, c.values);
+      return true;
+    case 'location':
+      if (!isEq || c.values.length === 0) return false;
+      t.locations.set(c.field, c.values[0]);
+      return true;
+    case 'completionStatuses':
+    case 'furnishingStatuses':
+      if (!isEq) return false;
+      f[target] = mergeList(f[target], c.values);
+      return true;
+    case 'mainPropertyTypeIds':
+    case 'propertyTypeIds':
+    case 'featureIds':
+      if (!isEq) return false;
+      f[target] = mergeList(f[target], toNumbers(c.values));
+      return true;
+    case 'propertyTypeKeys':
+      if (!isEq) return false;
+      t.propertyTypeKeys.push(...c.values);
+      return true;
+    case 'mainPropertyTypeKeys':
+      if (!isEq) return false;
+      t.mainPropertyTypeKeys.push(...c.values);
+      return true;
+    case 'featureKeys':
+      if (!isEq) return false;
+      f.featureKeys = mergeList(f.featureKeys, c.values);
+      return true;
+    case 'bedrooms':
+    case 'bathrooms': {
+      const values = countValues(c, target === 'bedrooms' ? 0 : 1);
+      if (!values?.length) return false;
+      f[target] = mergeList(f[target], values);
+      return true;
+    }
+    case 'price':
+      return applyRange(f, 'priceMin', 'priceMax', c);
+    case 'area':
+      return applyRange(f, 'areaMin', 'areaMax', c);
+    case 'pricePerSqm':
+      return applyRange(f, 'pricePerSqmMin', 'pricePerSqmMax', c);
+    case 'parking':
+      return applyRange(f, 'parkingMin', 'parkingMax', c);
+    case 'floor':
+      return applyRange(f, 'floorMin', 'floorMax', c);
+    case 'totalFloors':
+      return applyRange(f, 'totalFloorsMin', 'totalFloorsMax', c);
+    case 'yearBuilt':
+      return applyRange(f, 'yearBuiltMin', 'yearBuiltMax', c);
+    case 'displayCurrency': {
+      const code = c.values[0]?.toUpperCase();
+      if (!isEq || c.values.length !== 1 || !/^[A-Z]{3}$/.test(code)) return false;
+      f.displayCurrency = code;
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+function applyExpression(expr: string, t: Translation): void {
+  for (const part of splitTopLevel(stripOuterParens(expr), '&&')) {
+    const inner = stripOuterParens(part);
+    if (splitTopLevel(inner, '&&').length > 1) {
+      applyExpression(inner, t);
+      continue;
+    }
+    const clause =
+      splitTopLevel(inner, '||').length > 1 ? parseOrGroup(inner) : parseClause(inner);
+    if (!clause || !applyClause(clause, t)) t.unmapped.push(part);
+  }
+}
+
+/**
+ * Translate a generated filter_by into SearchFilterState fields. Property type keys/names are
+ * resolved to ids; keys that match no type are reported in unmapped.
+ */
+export async function translateNlFilterBy(
+  filterBy: string | undefined
+): Promise<{ filters: Partial<SearchFilterState>; unmapped: string[] }> {
+  const t: Translation = {
+    filters: {},
+    propertyTypeKeys: [],
+    mainPropertyTypeKeys: [],
+    locations: new Map(),
+    unmapped: [],
+  };
+  if (filterBy?.trim()) applyExpression(filterBy, t);
+
+  const location = LOCATION_FIELD_RANK.map((field) => t.locations.get(field)).find(Boolean);
+  if (location) t.filters.location = location;
+
+  const [typeIds, mainTypeIds] = await Promise.all([
+    getPropertyTypeIdsByKeys(t.propertyTypeKeys),
+    getMainPropertyTypeIdsByKeys(t.mainPropertyTypeKeys),
+  ]);
+  if (typeIds.length) {
+    t.filters.propertyTypeIds = mergeList(t.filters.propertyTypeIds, typeIds);
+  } else if (t.propertyTypeKeys.length) {
+    t.unmapped.push(`property_type:[${t.propertyTypeKeys.join(',')}]`);
+  }
+  if (mainTypeIds.length) {
+    t.filters.mainPropertyTypeIds = mergeList(t.filters.mainPropertyTypeIds, mainTypeIds);
+  } else if (t.mainPropertyTypeKeys.length) {
+    t.unmapped.push(`main_property_type:[${t.mainPropertyTypeKeys.join(',')}]`);
+  }
+
+  return { filters: t.filters, unmapped: t.unmapped };
+}
+
+/**
+ * Phase 1 of NL search only (nl_query, per_page=0), translated to filter fields. Without an NL
+ * model (nlModelId undefined) the rule-based parser reads the sentence instead.
+ */
+export async function runNlParsePreview(
+  rawQ: string,
+  nlModelId: string | undefined
+): Promise<NlParsePreview> {
+  if (!nlModelId) {
+    const { filters, residual } = await ruleBasedParse(rawQ);
+    if (residual) filters.keyword = residual;
+    return {
+      source: 'rules',
+      q: residual || null,
+      filterBy: buildFilterBy({ ...filters, purpose: filters.purpose ?? '' }) ?? null,
+      sortBy: null,
+      filters,
+      sort: null,
+      unmapped: [],
+    };
+  }
+
+  const parsed = await typesenseNlParse({
+    collection: 'properties',
+    q: getTypesenseNlQuery(rawQ),
+    queryBy: getSearchQueryBy(undefined, true),
+    nlModelId,
+  });
+  const generated = readNlGeneratedParams(parsed.parsedNlQuery);
+  const { filters, unmapped } = await translateNlFilterBy(generated.filterBy);
+  const q = generated.q !== '*' ? generated.q : null;
+  if (q) filters.keyword = q;
+
+  return {
+    source: parsed.parsedNlQuery?.parser === 'rules' ? 'rules' : 'model',
+    q,
+    filterBy: generated.filterBy ?? null,
+    sortBy: generated.sortBy ?? null,
+    filters,
+    sort: namedSortForSortBy(generated.sortBy),
+    unmapped,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Zero-result relaxation for /api/search: drop constraints in a fixed priority (keyword chips,
+ * features, exact bedroom counts, price range ±20%) and count each step, so the empty state can
+ * offer "remove X → N results" without extra round trips. NL searches are not relaxed: their
+ * constraints live in the LLM-generated filter_by, which a client cannot send back.
+ */
+
+import type { SearchFilterState } from './buildFilterQuery';
+import { resolveDisplayCurrency } from './currency';
+import { runSearchCount } from './searchCount';
+import { searchBodyFromFilterState, type SearchBodyInput } from './searchRequest';
+
+export type RelaxedFilter = 'keywords' | 'features' | 'bedrooms' | 'price';
+
+export type RelaxedSuggestion = {
+  /** Constraint relaxed at this step (earlier steps stay relaxed). */
+  dropped: RelaxedFilter;
+  count: number;
+  /** POST /api/search body with this and every earlier step applied (no sort or paging). */
+  query: SearchBodyInput;
+};
+
+const PRICE_WIDEN = 0.2;
+
+type RelaxStep = {
+  dropped: RelaxedFilter;
+  /** Relaxed copy of state, or null when the constraint is not set. */
+  apply: (state: SearchFilterState) => SearchFilterState | null;
+};
+
+const RELAX_STEPS: RelaxStep[] = [
+  {
+    dropped: 'keywords',
+    apply: (s) =>
+      s.keywords?.length || s.keyword ? { ...s, keywords: undefined, keyword: undefined } : null,
+  },
+  {
+    dropped: 'features',
+    apply: (s) =>
+      s.featureIds?.length || s.featureKeys?.length
+        ? { ...s, featureIds: undefined, featureKeys: undefined }
+        : null,
+  },
+  {
+    // Exact counts (2, 3) are dropped; open-ended values ("4+") stay
+    dropped: 'bedrooms',
+    apply: (s) => {
+      if (!s.bedrooms?.some((v) => typeof v === 'number')) return null;
+      const openEnded = s.bedrooms.filter((v) => typeof v === 'string');
+      return { ...s, bedrooms: openEnded.length ? openEnded : undefined };
+    },
+  },
+  {
+    dropped: 'price',
+    apply: (s) => {
+      const hasMin = s.priceMin != null && s.priceMin > 0;
+      const hasMax = s.priceMax != null;
+      if (!hasMin && !hasMax) return null;
+      return {
+        ...s,
+        priceMin: hasMin ? Math.floor(s.priceMin! * (1 - PRICE_WIDEN)) : s.priceMin,
+        priceMax: hasMax ? Math.ceil(s.priceMax! * (1 + PRICE_WIDEN)) : s.priceMax,
+        priceRanges: undefined,
+      };
+    },
+  },
+];
+
+/**
+ * Relax step by step (cumulatively) and count each step in parallel. Returns the steps up to and
+ * including the first with results; all attempted steps (count 0) when none helps.
+ */
+export async function buildRelaxedSuggestions(
+  filterState: SearchFilterState
+): Promise<RelaxedSuggestion[]> {
+  const steps: { dropped: RelaxedFilter; state: SearchFilterState }[] = [];
+  let current = filterState;
+  for (const step of RELAX_STEPS) {
+    const relaxed = step.apply(current);
+    if (!relaxed) continue;
+    current = relaxed;
+    steps.push({ dropped: step.dropped, state: relaxed });
+  }
+  if (steps.length === 0) return [];
+
+  const counts = await Promise.all(
+    steps.map(async ({ state }) => {
+      // Widened price bounds need their per-currency ranges again
+      if (state.displayCurrency && !state.priceRanges) await resolveDisplayCurrency(state);
+      return runSearchCount(state);
+    })
+  );
+
+  const suggestions: RelaxedSuggestion[] = [];
+  for (let i = 0; i < steps.length; i++) {
+    suggestions.push({
+      dropped: steps[i].dropped,
+      count: counts[i],
+      query: searchBodyFromFilterState(steps[i].state),
+    });
+    if (counts[i] > 0) break;
+  }
+  return suggestions;
+}
@@ -0,0 +1,390 @@
+/**
+ * Deterministic NL parser (English and Arabic), used when TYPESENSE_NL_MODEL_ID is unset or the
+ * Typesense NL call fails. Extracts purpose, bedrooms/bathrooms (studio, 3+, 2-3), price
+ * expressions (under 2.5M, between 80k and 120k AED), property types (PROPERTY_TYPES), feature
+ * keys (FEATURES) and a location phrase ("in …"); whatever is left stays a full-text keyword.
+ *
+ * parseSearchSentence is pure (vocabulary passed in) so it also runs without a database.
+ */
+
+import { filterConfigCache } from '@/lib/cache';
+import { getFeatureVocabulary, getPropertyTypeVocabulary } from '@/lib/db/queries/filterOptions';
+import { buildFilterBy, type SearchFilterState } from './buildFilterQuery';
+import { loadExchangeRates, resolveDisplayCurrency } from './currency';
+import { mapCurrencySymbolsToText } from './naturalLanguageQuery';
+import type { NlInterpretation } from './nlCache';
+
+export type NlVocabulary = {
+  propertyTypes: { id: number; names: string[] }[];
+  /** Feature keys as indexed in Typesense `features`. */
+  features: { key: string; names: string[] }[];
+  /** Currency codes (lowercase) that may appear in price expressions. */
+  currencyCodes: string[];
+};
+
+export type RuleBasedParse = {
+  filters: Partial<SearchFilterState>;
+  /** Words no rule consumed; searched as full-text keyword. */
+  residual: string;
+};
+
+/** Word boundaries that also work for Arabic script. */
+const B = '(?<![\\p{L}\\p{N}])';
+const E = '(?![\\p{L}\\p{N}])';
+
+/** Consumed spans are replaced by this, so leftovers on either side do not merge into one phrase. */
+const CUT = ' | ';
+
+const RENT_WORDS = [
+  'for rent', 'to rent', 'rent', 'rental', 'renting', 'lease',
+  'للايجار', 'الايجار', 'ايجار',
+];
+const SALE_WORDS = [
+  'for sale', 'to buy', 'buy', 'buying', 'sale', 'purchase',
+  'للبيع', 'للشراء', 'شراء', 'بيع', 'تمليك',
+];
+
+const BED_WORDS = 'bed(?:room)?s?|br|bhk|b/r|bd|غرف(?:ه)? نوم|غرف|غرفه';
+const BATH_WORDS = 'bath(?:room)?s?|ba|حمامات|حمام';
+const STUDIO_WORDS = 'studios?|ستوديو|استوديو';
+const PLUS_WORDS = '\\+|plus|or more|و ?اكثر|او اكثر';
+const AT_LEAST_WORDS = 'at least|min(?:imum)?|على الاقل';
+
+const NUM = '(\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?)';
+const MULT = '(k|m|mn|million|millions|thousand|الف|الاف|مليون|ملايين)';
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  الف: 1e3,
+  الاف: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  millions: 1e6,
+  مليون: 1e6,
+  ملايين: 1e6,
+};
+/** Currency words that are not ISO codes. */
+const CURRENCY_WORDS: Record<string, string> = { درهم: 'aed', دولار: 'usd', يورو: 'eur' };
+
+const MAX_PRICE_WORDS =
+  'under|below|less than|max(?:imum)?|up to|upto|within|cheaper than|budget(?: of)?|اقل من|تحت|حتى|بحد اقصى';
+const MIN_PRICE_WORDS =
+  'over|above|more than|min(?:imum)?|at least|from|starting(?: at| from)?|اكثر من|فوق|من';
+const RANGE_START_WORDS = 'between|from|بين|من';
+const RANGE_SEP_WORDS = 'and|to|-|و|الى';
+
+const LOCATION_PREPOSITIONS = 'in|at|near|around|close to|بالقرب من|قرب|في';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'with', 'and', 'or', 'of', 'for', 'me', 'i', 'im', 'want', 'need',
+  'show', 'find', 'search', 'looking', 'look', 'property', 'properties', 'home', 'homes',
+  'price', 'priced', 'cost', 'costing', 'budget', 'please', 'some', 'any', 'that', 'has', 'have',
+  'مع', 'و', 'او', 'عن', 'على', 'اريد', 'ابحث', 'عقار', 'عقارات', 'سعر', 'بسعر',
+]);
+
+const ARTICLES = new Set(['the', 'a', 'an']);
+
+/** Lowercase; Arabic letter variants, diacritics and tatweel folded; Eastern Arabic digits → ASCII. */
+export function normalizeSentence(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u064B-\u0652\u0640]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function alternation(words: string[]): string {
+  return [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+    .join('|');
+}
+
+/** English plurals ("villas") and the Arabic article ("الفيلا") so both forms match. */
+function nameVariants(name: string): string[] {
+  if (/^[a-z ]+$/.test(name)) return [name, /(s|x|ch|sh)$/.test(name) ? `${name}es` : `${name}s`];
+  if (/^[\u0600-\u06FF]/.test(name) && !name.startsWith('ال')) return [name, `ال${name}`];
+  return [name];
+}
+
+function vocabularyNames(key: string, nameEn: string | null, nameAr: string | null): string[] {
+  const names = [key.replace(/_/g, ' '), nameEn, nameAr]
+    .filter((n): n is string => !!n?.trim())
+    .map(normalizeSentence)
+    .flatMap(nameVariants);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Remove every match of a global regex from text. onMatch gets [match, ...groups]; returning
+ * false keeps that match in place.
+ */
+function consume(text: string, re: RegExp, onMatch: (m: string[]) => boolean | void): string {
+  return text.replace(re, (...args: unknown[]) => {
+    const m = args.slice(0, -2) as string[];
+    return onMatch(m) === false ? m[0] : CUT;
+  });
+}
+
+function parseNumber(raw: string): number {
+  return Number(raw.replace(/,/g, ''));
+}
+
+type Amount = { value: number; hasMultiplier: boolean; currency?: string };
+
+function amountPattern(currencies: string): string {
+  const cur = currencies ? `(?:(${currencies})\\s*)?` : '()';
+  const curAfter = currencies ? `(?:\\s*(${currencies}))?` : '()';
+  return `${cur}${NUM}\\s*${MULT}?${E}${curAfter}`;
+}
+
+/** Reads the 4 groups of amountPattern starting at index i. */
+function readAmount(m: string[], i: number): Amount {
+  const mult = m[i + 2] ? MULTIPLIERS[m[i + 2]] : undefined;
+  const currency = m[i] || m[i + 3];
+  return {
+    value: parseNumber(m[i + 1]) * (mult ?? 1),
+    hasMultiplier: mult != null,
+    currency: currency ? (CURRENCY_WORDS[currency] ?? currency) : undefined,
+  };
+}
+
+/** A bare small number ("from 3") is not a price; needs a multiplier, a currency or ≥ 1000. */
+function isPrice(a: Amount): boolean {
+  return a.hasMultiplier || !!a.currency || a.value >= 1000;
+}
+
+/** Rent wins when both rent and sale words appear ("rent, not buy"). */
+function extractPurpose(text: string, out: Partial<SearchFilterState>): string {
+  let rent = false;
+  let sale = false;
+  let rest = consume(text, new RegExp(`${B}(?:${alternation(RENT_WORDS)})${E}`, 'gu'), () => {
+    rent = true;
+  });
+  rest = consume(rest, new RegExp(`${B}(?:${alternation(SALE_WORDS)})${E}`, 'gu'), () => {
+    sale = true;
+  });
+  if (rent) out.purpose = 'for_rent';
+  else if (sale) out.purpose = 'for_sale';
+  return rest;
+}
+
+/** "3 bed", "3+ beds", "2-3 bedrooms", "at least 2 baths", "studio" → values for the field. */
+function extractCounts(
+  text: string,
+  words: string,
+  field: 'bedrooms' | 'bathrooms',
+  out: Partial<SearchFilterState>
+): string {
+  const values: (number | string)[] = [];
+  let rest = text;
+  if (field === 'bedrooms') {
+    rest = consume(rest, new RegExp(`${B}(?:${STUDIO_WORDS})${E}`, 'gu'), () => {
+      values.push(0);
+    });
+    rest = consume(rest, new RegExp(`${B}غرفتين(?: نوم)?${E}`, 'gu'), () => {
+      values.push(2);
+    });
+  }
+  rest = consume(
+    rest,
+    new RegExp(`${B}(\\d+)\\s*(?:-|to|الى)\\s*(\\d+)\\s*-?\\s*(?:${words})${E}`, 'gu'),
+    (m) => {
+      const [from, to] = [Number(m[1]), Number(m[2])];
+      if (to < from || to - from > 10) return false;
+      for (let n = from; n <= to; n++) values.push(n);
+    }
+  );
+  rest = consume(
+    rest,
+    new RegExp(
+      `${B}(?:(${AT_LEAST_WORDS})\\s+)?(\\d+)\\s*(${PLUS_WORDS})?\\s*-?\\s*(?:${words})${E}(?:\\s*(${PLUS_WORDS}))?`,
+      'gu'
+    ),
+    (m) => {
+      const n = Number(m[2]);
+      values.push(m[1] || m[3] || m[4] ? `${n}+` : n);
+    }
+  );
+  if (values.length) out[field] = Array.from(new Set(values));
+  return rest;
+}
+
+function applyCurrency(amounts: Amount[], out: Partial<SearchFilterState>): void {
+  const currency = amounts.find((a) => a.currency)?.currency;
+  if (currency) out.displayCurrency = currency.toUpperCase();
+}
+
+function extractPrice(text: string, vocabulary: NlVocabulary, out: Partial<SearchFilterState>): string {
+  const currencyWords = Object.keys(CURRENCY_WORDS).filter((w) =>
+    vocabulary.currencyCodes.includes(CURRENCY_WORDS[w])
+  );
+  const currencies = alternation([...vocabulary.currencyCodes, ...currencyWords]);
+  const amount = amountPattern(currencies);
+  let rest = text;
+
+  rest = consume(
+    rest,
+    new RegExp(
+      `${B}(?:(?:${RANGE_START_WORDS})\\s+)?${amount}\\s*(?:${RANGE_SEP_WORDS})\\s*${amount}`,
+      'gu'
+    ),
+    (m) => {
+      const lo = readAmount(m, 1);
+      const hi = readAmount(m, 5);
+      // "between 1 and 2 million": the multiplier applies to both ends
+      if (!lo.hasMultiplier && hi.hasMultiplier) {
+        lo.value *= MULTIPLIERS[m[7]];
+        lo.hasMultiplier = true;
+      }
+      if (!isPrice(lo) && !isPrice(hi)) return false;
+      if (lo.value > hi.value) return false;
+      out.priceMin = lo.value;
+      out.priceMax = hi.value;
+      applyCurrency([lo, hi], out);
+    }
+  );
+  rest = consume(rest, new RegExp(`${B}(?:${MAX_PRICE_WORDS})\\s*${amount}`, 'gu'), (m) => {
+    const a = readAmount(m, 1);
+    if (!isPrice(a)) return false;
+    out.priceMax = a.value;
+    applyCurrency([a], out);
+  });
+  rest = consume(rest, new RegExp(`${B}(?:${MIN_PRICE_WORDS})\\s*${amount}`, 'gu'), (m) => {
+    const a = readAmount(m, 1);
+    if (!isPrice(a)) return false;
+    out.priceMin = a.value;
+    applyCurrency([a], out);
+  });
+  return rest;
+}
+
+/** Longest names first; each match adds its value and is removed from the text. */
+function extractVocabulary<T>(
+  text: string,
+  entries: { value: T; names: string[] }[]
+): { rest: string; values: T[] } {
+  const byName = new Map<string, T>();
+  for (const entry of entries) {
+    for (const name of entry.names) if (!byName.has(name)) byName.set(name, entry.value);
+  }
+  if (byName.size === 0) return { rest: text, values: [] };
+  const values = new Set<T>();
+  const re = new RegExp(`${B}(${alternation(Array.from(byName.keys()))})${E}`, 'gu');
+  const rest = consume(text, re, (m) => {
+    values.add(byName.get(m[1])!);
+  });
+  return { rest, values: Array.from(values) };
+}
+
+function meaningfulWords(text: string): string[] {
+  return text.split(/[\s,.;!?،|]+/).filter((w) => w && !STOP_WORDS.has(w));
+}
+
+/**
+ * "… in Arabian Ranches …" → location: the words after the first preposition up to the next
+ * consumed span or stop word. Leftovers become the residual keyword.
+ */
+function extractLocation(text: string, out: Partial<SearchFilterState>): string {
+  const re = new RegExp(`${B}(?:${LOCATION_PREPOSITIONS})\\s+([^|]+)`, 'gu');
+  for (const m of Array.from(text.matchAll(re))) {
+    const phrase = m[1].trim().split(/\s+/);
+    // "in the Palm" → "palm"
+    while (ARTICLES.has(phrase[0])) phrase.shift();
+    const stop = phrase.findIndex((w) => STOP_WORDS.has(w));
+    const words = stop === -1 ? phrase : phrase.slice(0, stop);
+    if (words.length === 0) continue;
+    out.location = words.join(' ');
+    const leftover = phrase.slice(words.length).join(' ');
+    const end = m.index! + m[0].length;
+    return `${text.slice(0, m.index)}${CUT}${leftover}${text.slice(end)}`;
+  }
+  return text;
+}
+
+/** Parse one sentence against the vocabulary. Pure: no I/O. */
+export function parseSearchSentence(q: string, vocabulary: NlVocabulary): RuleBasedParse {
+  const filters: Partial<SearchFilterState> = {};
+  let text = ` ${normalizeSentence(mapCurrencySymbolsToText(q))} `;
+
+  text = extractPurpose(text, filters);
+  text = extractCounts(text, BED_WORDS, 'bedrooms', filters);
+  text = extractCounts(text, BATH_WORDS, 'bathrooms', filters);
+  text = extractPrice(text, vocabulary, filters);
+
+  const types = extractVocabulary(
+    text,
+    vocabulary.propertyTypes.map((t) => ({ value: t.id, names: t.names }))
+  );
+  text = types.rest;
+  if (types.values.length) filters.propertyTypeIds = types.values;
+
+  const features = extractVocabulary(
+    text,
+    vocabulary.features.map((f) => ({ value: f.key, names: f.names }))
+  );
+  text = features.rest;
+  if (features.values.length) filters.featureKeys = features.values;
+
+  text = extractLocation(text, filters);
+  return { filters, residual: meaningfulWords(text).join(' ') };
+}
+
+const VOCABULARY_CACHE_KEY = 'nl-vocabulary';
+
+/** Property types, active features and rated currencies; cached with the filter config. */
+export async function loadNlVocabulary(): Promise<NlVocabulary> {
+  const cached = filterConfigCache.get<NlVocabulary>(VOCABULARY_CACHE_KEY);
+  if (cached) return cached;
+
+  const [types, features, rates] = await Promise.all([
+    getPropertyTypeVocabulary(),
+    getFeatureVocabulary(),
+    loadExchangeRates(),
+  ]);
+  const vocabulary: NlVocabulary = {
+    propertyTypes: types.map((t) => ({
+      id: t.id,
+      names: vocabularyNames(t.key, t.name_en, t.name_ar),
+    })),
+    features: features.map((f) => ({
+      key: f.key,
+      names: vocabularyNames(f.key, f.name_en, f.name_ar),
+    })),
+    currencyCodes: Array.from(rates.keys()).map((c) => c.toLowerCase()),
+  };
+  filterConfigCache.set(VOCABULARY_CACHE_KEY, vocabulary);
+  return vocabulary;
+}
+
+/** parseSearchSentence with the database vocabulary. */
+export async function ruleBasedParse(q: string): Promise<RuleBasedParse> {
+  return parseSearchSentence(q, await loadNlVocabulary());
+}
+
+/**
+ * Rule-based stand-in for the LLM interpretation when the NL call fails: same shape (including
+ * parsed_nl_query.generated_params), so facets and analytics work unchanged.
+ */
+export async function ruleBasedNlInterpretation(q: string): Promise<NlInterpretation> {
+  const { filters, residual } = await ruleBasedParse(q);
+  const state: SearchFilterState = { ...filters, purpose: filters.purpose ?? '' };
+  await resolveDisplayCurrency(state);
+  const filterBy = buildFilterBy(state);
+  const text = [filters.location, residual].filter(Boolean).join(' ') || '*';
+  return {
+    q: text,
+    filterBy,
+    parsedNlQuery: { generated_params: { q: text, filter_by: filterBy ?? '' }, parser: 'rules' },
+  };
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import type { SavedSearchRow } from '@/lib/db/queries/savedSearches';
+import type { SearchFilterState } from '@/lib/search/buildFilterQuery';
+import { resolveSearchCountry } from '@/lib/search/country';
+import { filterStateFromBody, type SearchBodyInput } from '@/lib/search/searchRequest';
+
+/**
+ * Stored form of a POST /api/search body: filters plus the raw q (resolved again on each alert run).
+ * The country (and its default currency) is fixed at save time, since alert runs have no request.
+ */
+export async function savedSearchFieldsFromBody(
+  body: SearchBodyInput,
+  request: NextRequest
+): Promise<{
+  filterState: SearchFilterState;
+  q: string | null;
+  nlQuery: boolean;
+}> {
+  const filterState = filterStateFromBody(body);
+  await resolveSearchCountry(filterState, request);
+  return {
+    filterState,
+    q: body.q?.trim() || null,
+    nlQuery: body.nl_query !== false,
+  };
+}
+
+export function toSavedSearchResponse(row: SavedSearchRow) {
+  return {
+    id: row.saved_search_id,
+    name: row.name,
+    search: {
+      q: row.q,
+      nlQuery: row.nl_query,
+      filters: row.filter_state,
+    },
+    frequency: row.alert_frequency,
+    alertsEnabled: row.alerts_enabled,
+    lastAlertedAt: row.last_alerted_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -12,6 +12,7 @@ import {
 import { getSearchQueryBy } from './typesenseSchema';
 import { typesenseSearch, typesenseNlSearch, typesenseMultiSearchUnion } from './typesense';
 import { getTypesenseNlQuery } from './naturalLanguageQuery';
+import { withoutHiddenListings } from './merchandising';
 
 const PURPOSE_KEY_TO_LABEL: Record<string, string> = {
   for_sale: 'For Sale',
@@ -37,26 +38,34 @@ export async function runSearchCount(
   filterState: SearchFilterState,
   nlOptions?: SearchCountNlOptions
 ): Promise<number> {
+  return (await runSearchCountResult(filterState, nlOptions)).found;
+}
+
+/** runSearchCount plus the NL interpretation when NL was used (for analytics). */
+export async function runSearchCountResult(
+  filterState: SearchFilterState,
+  nlOptions?: SearchCountNlOptions
+): Promise<{ found: number; parsedNlQuery?: Record<string, unknown> }> {
   const state = { ...filterState };
   const useNl = !!(nlOptions?.useNlQuery && nlOptions?.nlModelId);
-  const filterBy = buildFilterBy(state);
+  // Same merchandising hides as the list, so "Show N properties" matches the results
+  const filterBy = await withoutHiddenListings(buildFilterBy(state), state, nlOptions?.rawQ);
   const queryBy = getSearchQueryBy(state.location, useNl);
 
   if (!useNl && needsKeywordOrSearch(state)) {
-    const qs = buildKeywordOrQueries(state);
     const sortBy = state.sortBy?.trim() || 'updated_at:desc';
     const resp = await typesenseMultiSearchUnion<{ property_id: string }>(
-      qs.map((q) => ({
+      buildKeywordOrQueries(state, filterBy).map((s) => ({
         collection: 'properties',
-        q,
+        q: s.q,
         queryBy,
-        filterBy: filterBy ?? undefined,
+        filterBy: s.filterBy,
         sortBy,
         page: 1,
         perPage: 0,
       }))
     );
-    return resp.found;
+    return { found: resp.found };
   }
 
   if (useNl) {
@@ -69,7 +78,7 @@ export async function runSearchCount(
       perPage: 0,
       nlModelId: nlOptions!.nlModelId!,
     });
-    return resp.found;
+    return { found: resp.found, parsedNlQuery: resp.parsed_nl_query };
   }
 
   const resp = await typesenseSearch<{ property_id: string }>({
@@ -82,7 +91,7 @@ export async function runSearchCount(
     perPage: 0,
   });
 
-  return resp.found;
+  return { found: resp.found };
 }
 
 /** Build resultButtonLabel from purpose label and count. */
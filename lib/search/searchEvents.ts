@@ -0,0 +1,99 @@
+/**
+ * Search analytics: /api/search and /api/search/count calls are buffered in memory and written
+ * to user_activity.SEARCH_EVENTS in batches, so logging adds no latency to the request.
+ * Best effort: a failed batch is logged and dropped, and an instance that stops loses its buffer.
+ */
+
+import { NextRequest } from 'next/server';
+import { insertSearchEvents, type SearchEventInsert } from '@/lib/db/queries/searchEvents';
+import { verifyAccessToken } from '@/lib/auth/jwt';
+import type { SearchFilterState } from './buildFilterQuery';
+import { toRequestFilterState } from './searchRequest';
+
+/** Flush when this many events are waiting, else every FLUSH_INTERVAL_MS. */
+const FLUSH_BATCH_SIZE = 50;
+const FLUSH_INTERVAL_MS = 5000;
+/** Oldest events are dropped beyond this (e.g. while the database is unreachable). */
+const MAX_BUFFERED = 1000;
+
+const buffer: SearchEventInsert[] = [];
+let flushing = false;
+
+function getSessionId(request: NextRequest): string | null {
+  const sessionId = request.headers.get('x-session-id');
+  if (!sessionId?.trim()) return null;
+  return sessionId.trim();
+}
+
+function tryGetUserIdFromAuthHeader(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+  const token = authHeader.substring(7).trim();
+  if (!token) return null;
+  try {
+    const payload = verifyAccessToken(token);
+    return payload.userId;
+  } catch {
+    return null;
+  }
+}
+
+/** Lowercase, collapse whitespace; null when empty. */
+export function normalizeSearchQuery(q: string | null | undefined): string | null {
+  const normalized = q?.trim().toLowerCase().replace(/\s+/g, ' ');
+  return normalized || null;
+}
+
+async function flushSearchEvents(): Promise<void> {
+  if (flushing || buffer.length === 0) return;
+  flushing = true;
+  const batch = buffer.splice(0, buffer.length);
+  try {
+    await insertSearchEvents(batch);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Failed to write ${batch.length} search events: ${message}`);
+  } finally {
+    flushing = false;
+  }
+}
+
+/** Queue one search/count call; never throws and never waits on the database. */
+export function recordSearchEvent(
+  request: NextRequest,
+  event: {
+    endpoint: 'search' | 'count';
+    filterState: SearchFilterState;
+    q?: string | null;
+    nlUsed: boolean;
+    parsedNlQuery?: Record<string, unknown>;
+    found: number;
+    startedAt: number;
+  }
+): void {
+  const generated = event.parsedNlQuery?.generated_params;
+  buffer.push({
+    endpoint: event.endpoint,
+    session_id: getSessionId(request),
+    user_id: tryGetUserIdFromAuthHeader(request),
+    purpose_key: event.filterState.purpose || null,
+    country_id: event.filterState.countryId ?? null,
+    filter_state: toRequestFilterState(event.filterState),
+    q: event.q?.trim() || null,
+    q_normalized: normalizeSearchQuery(event.q),
+    nl_used: event.nlUsed,
+    nl_generated_params:
+      generated && typeof generated === 'object' ? (generated as Record<string, unknown>) : null,
+    found: event.found,
+    latency_ms: Date.now() - event.startedAt,
+    created_at: new Date().toISOString(),
+  });
+  if (buffer.length > MAX_BUFFERED) buffer.splice(0, buffer.length - MAX_BUFFERED);
+  if (buffer.length >= FLUSH_BATCH_SIZE) void flushSearchEvents();
+}
+
+if (typeof setInterval !== 'undefined') {
+  setInterval(() => {
+    void flushSearchEvents();
+  }, FLUSH_INTERVAL_MS);
+}
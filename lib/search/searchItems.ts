@@ -0,0 +1,251 @@
+/**
+ * Typesense property hits → /api/search items ({ property: {...} }), shared by search and
+ * the property detail "similar" endpoint. isLiked is filled from the x-session-id / bearer user.
+ */
+
+import { NextRequest } from 'next/server';
+import { zipMediaUrls, toMediaItem, imageMediaUrls } from '@/lib/search/propertyMedia';
+import { pickLocalizedTitle } from '@/lib/search/unwrapTitle';
+import { docGeoToPoint, haversineKm, roundKm, type GeoPoint } from '@/lib/search/geo';
+import { toDisplayPrice, type DisplayCurrency } from '@/lib/search/currency';
+import { explainHit, type HighlightContext } from '@/lib/search/highlight';
+import type { TypesenseSearchResponse } from '@/lib/search/typesense';
+import { getPropertyViewStatus } from '@/lib/db/queries/propertyViews';
+import { verifyAccessToken } from '@/lib/auth/jwt';
+
+export type TypesensePropertyDoc = {
+  property_id: string;
+  country_id: number;
+  purpose_id?: number;
+  purpose_key?: string;
+  property_type_id?: number;
+  property_type_ids?: number[];
+  property_type_en?: string;
+  property_type_keys?: string[];
+  property_type_names_en?: string[];
+  main_property_type_ids?: number[];
+  main_property_type_keys?: string[];
+  main_property_type_names_en?: string[];
+  price?: number;
+  currency_id?: number;
+  currency_code?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  area_sqft?: number;
+  area_sqm?: number;
+  price_per_sqm?: number;
+  price_per_sqft?: number;
+  address?: string;
+  features?: string[];
+  feature_ids?: number[];
+  location_ids?: string[];
+  agent_id?: number;
+  agency_id?: number;
+  agency_name?: string;
+  profile_image_url?: string;
+  agent_name?: string;
+  agent_email?: string;
+  agent_phone?: string;
+  agent_whatsapp?: string;
+  status?: string;
+  is_off_plan?: boolean;
+  /** Lowercase key, e.g. semi_furnished */
+  furnishing_status?: string;
+  parking_spaces?: number;
+  floor_number?: number;
+  total_floors?: number;
+  year_built?: number;
+  is_featured?: boolean;
+  featured_rank?: number;
+  created_at?: number;
+  updated_at?: number;
+  /** 0 when the price never changed */
+  price_changed_at?: number;
+  price_change_pct?: number;
+  /** Move-in date (UTC midnight); 0 when available now */
+  available_from?: number;
+  /** for_rent only: yearly | monthly */
+  rent_frequency?: string;
+  number_of_cheques?: number;
+  /** Open-house slots (epoch seconds), parallel arrays; may include slots that ended since the last sync */
+  open_house_starts?: number[];
+  open_house_ends?: number[];
+  title_en?: string;
+  title_ar?: string;
+  city_en?: string;
+  area_en?: string;
+  community_en?: string;
+  primary_image_url?: string;
+  primary_media_type?: string;
+  primary_thumbnail_url?: string;
+  additional_image_urls?: string[];
+  additional_media_types?: string[];
+  additional_thumbnail_urls?: string[];
+  all_image_urls?: string[];
+  all_media_types?: string[];
+  image_is_featured?: number[];
+  /** [lat, lng] from LOCATIONS */
+  geo?: number[];
+};
+
+function getSessionId(request: NextRequest): string | null {
+  const sessionId = request.headers.get('x-session-id');
+  if (!sessionId?.trim()) return null;
+  return sessionId.trim();
+}
+
+function tryGetUserIdFromAuthHeader(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+  const token = authHeader.substring(7).trim();
+  if (!token) return null;
+  try {
+    const payload = verifyAccessToken(token);
+    return payload.userId;
+  } catch {
+    return null;
+  }
+}
+
+/** Open-house slots that have not ended yet, soonest first. */
+function upcomingOpenHouses(
+  starts: number[] | undefined,
+  ends: number[] | undefined,
+  nowSeconds: number
+): Array<{ startsAt: string; endsAt: string }> {
+  if (!starts?.length || !ends?.length) return [];
+  const slots: Array<{ startsAt: string; endsAt: string }> = [];
+  starts.forEach((start, i) => {
+    const end = ends[i];
+    if (end == null || end <= nowSeconds) return;
+    slots.push({
+      startsAt: new Date(start * 1000).toISOString(),
+      endsAt: new Date(end * 1000).toISOString(),
+    });
+  });
+  return slots;
+}
+
+/** Distance from the geo reference: Typesense geo_distance_meters when sorted by geo, else haversine. */
+function hitDistanceKm(
+  hit: TypesenseSearchResponse<TypesensePropertyDoc>['hits'][number],
+  point: GeoPoint | null,
+  geoRef: GeoPoint | null
+): number | null {
+  const meters = hit.geo_distance_meters?.geo;
+  if (typeof meters === 'number') return roundKm(meters / 1000);
+  if (geoRef && point) return roundKm(haversineKm(geoRef, point));
+  return null;
+}
+
+export async function mapHitsToItems(
+  resp: Pick<TypesenseSearchResponse<TypesensePropertyDoc>, 'hits' | 'found'>,
+  lang: 'en' | 'ar',
+  request: NextRequest,
+  geoRef: GeoPoint | null = null,
+  displayCurrency: DisplayCurrency | null = null,
+  highlight: HighlightContext | null = null
+): Promise<{ items: Array<{ property: object }>; found: number }> {
+  const sessionId = getSessionId(request);
+  const userId = tryGetUserIdFromAuthHeader(request);
+  const propertyIds = resp.hits.map((h) => Number(h.document.property_id));
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  const items = resp.hits.map((h) => {
+    const d = h.document;
+    const pid = Number(d.property_id);
+    const locationParts = [d.address].filter(Boolean);
+    const location = locationParts.length ? locationParts.join(', ') : null;
+    const primaryMedia = toMediaItem(
+      d.primary_image_url,
+      d.primary_media_type,
+      d.primary_thumbnail_url
+    );
+    const additionalMedia = zipMediaUrls(
+      d.additional_image_urls,
+      d.additional_media_types,
+      d.additional_thumbnail_urls
+    );
+    const coordinates = docGeoToPoint(d.geo);
+    return {
+      property: {
+        id: pid,
+        title: pickLocalizedTitle(lang, d.title_en, d.title_ar),
+        location,
+        price: d.price ?? null,
+        currencyCode: d.currency_code ?? null,
+        displayPrice: displayCurrency ? toDisplayPrice(d.price, d.currency_code, displayCurrency) : null,
+        priceChange: d.price_changed_at
+          ? {
+              changedAt: new Date(d.price_changed_at * 1000).toISOString(),
+              pct: d.price_change_pct ?? null,
+            }
+          : null,
+        availableFrom: d.available_from
+          ? new Date(d.available_from * 1000).toISOString().slice(0, 10)
+          : null,
+        rentTerms:
+          d.purpose_key === 'for_rent' && (d.rent_frequency || d.number_of_cheques)
+            ? { frequency: d.rent_frequency ?? null, cheques: d.number_of_cheques ?? null }
+            : null,
+        openHouses: upcomingOpenHouses(d.open_house_starts, d.open_house_ends, nowSeconds),
+        area: d.area_sqm ?? null,
+        areaSqft: d.area_sqft ?? null,
+        areaSqm: d.area_sqm ?? null,
+        pricePerSqm: d.price_per_sqm ?? null,
+        pricePerSqft: d.price_per_sqft ?? null,
+        bedrooms: d.bedrooms ?? null,
+        bathrooms: d.bathrooms ?? null,
+        furnishingStatus: d.furnishing_status ?? null,
+        parkingSpaces: d.parking_spaces ?? null,
+        floorNumber: d.floor_number ?? null,
+        totalFloors: d.total_floors ?? null,
+        yearBuilt: d.year_built ?? null,
+        primaryImageUrl: primaryMedia?.url ?? d.primary_image_url ?? null,
+        profileImageUrl: d.profile_image_url ?? null,
+        agent: d.agent_id
+          ? {
+              id: d.agent_id,
+              name: d.agent_name ?? null,
+              email: d.agent_email ?? null,
+              phone: d.agent_phone ?? null,
+              whatsapp: d.agent_whatsapp ?? null,
+              profileImageUrl: d.profile_image_url ?? null,
+              agency: d.agency_id
+                ? { id: d.agency_id, name: d.agency_name ?? null }
+                : null,
+            }
+          : null,
+        additionalImageUrls: imageMediaUrls(additionalMedia),
+        primaryMedia,
+        additionalMedia,
+        purposeKey: d.purpose_key ?? null,
+        mainPropertyTypeIds: d.main_property_type_ids ?? [],
+        mainPropertyTypeKeys: d.main_property_type_keys ?? [],
+        propertyTypeIds: d.property_type_ids?.length
+          ? d.property_type_ids
+          : d.property_type_id != null
+            ? [d.property_type_id]
+            : [],
+        propertyType: d.property_type_en ?? null,
+        coordinates,
+        distanceKm: hitDistanceKm(h, coordinates, geoRef),
+        // highlight=true only: { highlights: { title, address, features }, matchedOn }
+        ...(highlight ? explainHit(h, lang, highlight) : {}),
+        isLiked: false,
+      },
+    };
+  });
+
+  if (sessionId) {
+    const viewStatusMap = await getPropertyViewStatus(propertyIds, sessionId, userId);
+    items.forEach((item) => {
+      const status = viewStatusMap.get(item.property.id);
+      if (status) {
+        item.property.isLiked = status.isLiked;
+      }
+    });
+  }
+
+  return { items, found: resp.found };
+}
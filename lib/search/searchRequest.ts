@@ -0,0 +1,310 @@
+/**
+ * Shared request → SearchFilterState mapping for /api/search, /api/search/count and
+ * /api/search/clusters so list, count and map always apply the same filters.
+ */
+
+import { z } from 'zod';
+import {
+  agentIdFilterEntrySchema,
+  normalizeAgentIds,
+  normalizeGeoFilter,
+  searchBodySchema,
+  searchQuerySchema,
+} from '@/lib/security/validation';
+import { normalizeKeywords, type SearchFilterState } from './buildFilterQuery';
+import { resolveNaturalLanguageSearchMode } from './naturalLanguageQuery';
+import { ruleBasedParse } from './ruleBasedNlParser';
+
+export type SearchQueryInput = z.infer<typeof searchQuerySchema>;
+export type SearchBodyInput = z.infer<typeof searchBodySchema>;
+
+export type SearchNlOptions = {
+  useNlQuery: boolean;
+  rawQ?: string;
+  nlModelId?: string;
+};
+
+function parseOptionalIntList(value: string | undefined): number[] | undefined {
+  if (!value?.trim()) return undefined;
+  const parsed = value
+    .split(',')
+    .map((s) => parseInt(s.trim(), 10))
+    .filter((n) => Number.isFinite(n) && n >= 0);
+  return parsed.length ? parsed : undefined;
+}
+
+/** Parse comma-separated bedrooms/bathrooms; allows "6+" for 6 or more. */
+function parseBedroomsBathsList(value: string | undefined): (number | string)[] | undefined {
+  if (!value?.trim()) return undefined;
+  const out: (number | string)[] = [];
+  for (const s of value.split(',').map((x) => x.trim()).filter(Boolean)) {
+    if (/^\d+\+$/.test(s)) out.push(s);
+    else {
+      const n = parseInt(s, 10);
+      if (Number.isFinite(n) && n >= 0) out.push(n);
+    }
+  }
+  return out.length ? out : undefined;
+}
+
+/** Parse agentIds from GET query (JSON string). Expects [{"id": number, "type": "agent"|"agency"}, ...]. */
+function parseAgentIdsFromQuery(value: string | undefined): { id: number; type: 'agency' | 'agent' }[] | undefined {
+  if (!value?.trim()) return undefined;
+  try {
+    const raw = JSON.parse(value) as unknown;
+    if (!Array.isArray(raw) || raw.length === 0) return undefined;
+    const out: { id: number; type: 'agency' | 'agent' }[] = [];
+    for (const item of raw) {
+      const r = agentIdFilterEntrySchema.safeParse(item);
+      if (r.success) out.push(r.data);
+    }
+    return out.length ? out : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** countryId plus countryIds → countryId when one country, else countryIds; empty = detect later. */
+function normalizeCountryScope(
+  countryId: number | undefined,
+  countryIds: number[] | undefined
+): Pick<SearchFilterState, 'countryId' | 'countryIds'> {
+  const ids = Array.from(new Set([...(countryId != null ? [countryId] : []), ...(countryIds ?? [])]));
+  if (ids.length === 0) return {};
+  return ids.length === 1 ? { countryId: ids[0] } : { countryIds: ids };
+}
+
+/** Comma-separated location keys (already format-checked by the schema). */
+function parseLocationIds(value: string | undefined): string[] | undefined {
+  if (!value?.trim()) return undefined;
+  const keys = Array.from(new Set(value.split(',').map((s) => s.trim()).filter(Boolean)));
+  return keys.length ? keys : undefined;
+}
+
+/** Furnishing values → index keys ("Semi-Furnished" → semi_furnished), deduped. */
+function normalizeFurnishingStatuses(values: string[] | undefined): string[] | undefined {
+  if (!values?.length) return undefined;
+  const keys = values
+    .map((v) => v.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, ''))
+    .filter(Boolean);
+  return keys.length ? Array.from(new Set(keys)) : undefined;
+}
+
+/** YYYY-MM-DD (schema-checked) → epoch second at UTC midnight, matching the indexed available_from. */
+function parseDateToEpoch(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+/** Normalize purpose: lowercase, spaces -> underscore (so "For Sale" / "for_sale" match Typesense). */
+function normalizePurpose(purpose: string | undefined): string {
+  return purpose?.trim().toLowerCase().replace(/\s+/g, '_') ?? '';
+}
+
+/** GET query params → filter state. */
+export function filterStateFromQuery(parsed: SearchQueryInput): SearchFilterState {
+  return {
+    purpose: normalizePurpose(parsed.purpose),
+    ...normalizeCountryScope(
+      parsed.countryId,
+      parseOptionalIntList(parsed.countryIds)?.filter((n) => n >= 1)
+    ),
+    location: parsed.location,
+    locationIds: parseLocationIds(parsed.locationIds),
+    completionStatus: parsed.completionStatus,
+    mainPropertyTypeIds: parseOptionalIntList(parsed.mainPropertyTypeIds)?.filter((n) => n >= 1),
+    propertyTypeIds: parseOptionalIntList(parsed.propertyTypeIds),
+    bedrooms: parseBedroomsBathsList(parsed.bedrooms),
+    bathrooms: parseBedroomsBathsList(parsed.bathrooms)?.filter(
+      (v) => typeof v === 'string' || v >= 1
+    ),
+    priceMin: parsed.priceMin,
+    priceMax: parsed.priceMax,
+    displayCurrency: parsed.displayCurrency,
+    areaMin: parsed.areaMin,
+    areaMax: parsed.areaMax,
+    pricePerSqmMin: parsed.pricePerSqmMin,
+    pricePerSqmMax: parsed.pricePerSqmMax,
+    furnishingStatuses: normalizeFurnishingStatuses(parsed.furnishingStatus?.split(',')),
+    parkingMin: parsed.parkingMin,
+    parkingMax: parsed.parkingMax,
+    floorMin: parsed.floorMin,
+    floorMax: parsed.floorMax,
+    totalFloorsMin: parsed.totalFloorsMin,
+    totalFloorsMax: parsed.totalFloorsMax,
+    yearBuiltMin: parsed.yearBuiltMin,
+    yearBuiltMax: parsed.yearBuiltMax,
+    keyword: undefined,
+    keywords: normalizeKeywords(parsed.keyword ?? parsed.keywords),
+    agentIds: parseAgentIdsFromQuery(parsed.agentIds),
+    featureIds: parseOptionalIntList(parsed.featureIds)?.filter((n) => n >= 1),
+    reducedWithinDays: parsed.reducedWithinDays,
+    availableAfter: parseDateToEpoch(parsed.availableAfter),
+    availableBefore: parseDateToEpoch(parsed.availableBefore),
+    ...normalizeGeoFilter(parsed),
+  };
+}
+
+/** POST body → filter state. */
+export function filterStateFromBody(body: SearchBodyInput): SearchFilterState {
+  return {
+    purpose: normalizePurpose(body.purpose),
+    ...normalizeCountryScope(body.countryId, body.countryIds),
+    location: body.location,
+    locationIds: body.locationIds?.length ? Array.from(new Set(body.locationIds)) : undefined,
+    completionStatuses: body.completionStatus?.length ? body.completionStatus : undefined,
+    mainPropertyTypeIds: body.mainPropertyTypeIds?.length ? body.mainPropertyTypeIds : undefined,
+    propertyTypeIds: body.propertyTypeIds,
+    bedrooms: body.bedrooms?.length ? body.bedrooms : undefined,
+    bathrooms: body.bathrooms?.length ? body.bathrooms : undefined,
+    priceMin: body.price?.[0] ?? undefined,
+    priceMax: body.price?.[1] ?? undefined,
+    displayCurrency: body.displayCurrency,
+    areaMin: body.area?.[0] ?? undefined,
+    areaMax: body.area?.[1] ?? undefined,
+    pricePerSqmMin: body.pricePerSqm?.[0] ?? undefined,
+    pricePerSqmMax: body.pricePerSqm?.[1] ?? undefined,
+    furnishingStatuses: normalizeFurnishingStatuses(body.furnishingStatus),
+    parkingMin: body.parking?.[0] ?? undefined,
+    parkingMax: body.parking?.[1] ?? undefined,
+    floorMin: body.floor?.[0] ?? undefined,
+    floorMax: body.floor?.[1] ?? undefined,
+    totalFloorsMin: body.totalFloors?.[0] ?? undefined,
+    totalFloorsMax: body.totalFloors?.[1] ?? undefined,
+    yearBuiltMin: body.yearBuilt?.[0] ?? undefined,
+    yearBuiltMax: body.yearBuilt?.[1] ?? undefined,
+    keyword: undefined,
+    keywords: normalizeKeywords(body.keyword ?? body.keywords),
+    agentIds: normalizeAgentIds(body.agentIds),
+    featureIds: body.featureIds?.length ? body.featureIds : undefined,
+    featureKeys: body.featureKeys?.length ? Array.from(new Set(body.featureKeys)) : undefined,
+    reducedWithinDays: body.reducedWithinDays,
+    availableAfter: parseDateToEpoch(body.availableAfter),
+    availableBefore: parseDateToEpoch(body.availableBefore),
+    ...normalizeGeoFilter(body),
+  };
+}
+
+function rangeTuple<T extends number>(
+  min: T | undefined,
+  max: T | undefined
+): [T | null, T | null] | undefined {
+  return min == null && max == null ? undefined : [min ?? null, max ?? null];
+}
+
+function epochToDate(epoch: number | undefined): string | undefined {
+  return epoch == null ? undefined : new Date(epoch * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Filter state → POST /api/search body that reproduces it (inverse of filterStateFromBody).
+ * Filters parsed from q are spelled out, so the body has no q; sort and paging are left to the caller.
+ */
+export function searchBodyFromFilterState(state: SearchFilterState): SearchBodyInput {
+  const completion =
+    state.completionStatuses ??
+    (state.completionStatus && state.completionStatus !== 'all' ? [state.completionStatus] : undefined);
+  // A residual keyword only applies when there are no chips (buildSearchQuery)
+  const keywords = state.keywords?.length ? state.keywords : state.keyword ? [state.keyword] : undefined;
+  const body: SearchBodyInput = {
+    purpose: state.purpose || undefined,
+    countryId: state.countryIds?.length ? undefined : state.countryId,
+    countryIds: state.countryIds,
+    location: state.location,
+    locationIds: state.locationIds,
+    completionStatus: completion,
+    mainPropertyTypeIds: state.mainPropertyTypeIds,
+    propertyTypeIds: state.propertyTypeIds,
+    bedrooms: state.bedrooms,
+    bathrooms: state.bathrooms,
+    price: rangeTuple(state.priceMin, state.priceMax),
+    displayCurrency: state.displayCurrency,
+    area: rangeTuple(state.areaMin, state.areaMax),
+    pricePerSqm: rangeTuple(state.pricePerSqmMin, state.pricePerSqmMax),
+    furnishingStatus: state.furnishingStatuses,
+    parking: rangeTuple(state.parkingMin, state.parkingMax),
+    floor: rangeTuple(state.floorMin, state.floorMax),
+    totalFloors: rangeTuple(state.totalFloorsMin, state.totalFloorsMax),
+    yearBuilt: rangeTuple(state.yearBuiltMin, state.yearBuiltMax),
+    keywords,
+    agentIds: state.agentIds,
+    featureIds: state.featureIds,
+    featureKeys: state.featureKeys,
+    lat: state.geoCenter?.lat,
+    lng: state.geoCenter?.lng,
+    radiusKm: state.radiusKm,
+    ne: state.geoBounds ? [state.geoBounds.ne.lat, state.geoBounds.ne.lng] : undefined,
+    sw: state.geoBounds ? [state.geoBounds.sw.lat, state.geoBounds.sw.lng] : undefined,
+    polygon: state.geoPolygon,
+    reducedWithinDays: state.reducedWithinDays,
+    availableAfter: epochToDate(state.availableAfter),
+    availableBefore: epochToDate(state.availableBefore),
+  };
+  return Object.fromEntries(
+    Object.entries(body).filter(([, v]) => v != null && !(Array.isArray(v) && v.length === 0))
+  ) as SearchBodyInput;
+}
+
+/** Request-level filters only: drops derived fields (per-currency ranges, chip features, sort_by, watermark). */
+export function toRequestFilterState(state: SearchFilterState): Partial<SearchFilterState> {
+  const filters: Partial<SearchFilterState> = { ...state };
+  delete filters.priceRanges;
+  delete filters.pricePerSqmRanges;
+  delete filters.keywordFeatureKeys;
+  delete filters.sortBy;
+  delete filters.createdAfter;
+  return filters;
+}
+
+/** Copy parsed fields the request did not set itself (explicit filters win). */
+function mergeParsedFilters(
+  filterState: SearchFilterState,
+  parsed: Partial<SearchFilterState>
+): void {
+  const target = filterState as Record<string, unknown>;
+  for (const [key, value] of Object.entries(parsed)) {
+    const current = target[key];
+    const unset =
+      current == null || current === '' || (Array.isArray(current) && current.length === 0);
+    if (unset) target[key] = value;
+  }
+}
+
+/**
+ * Decide NL vs keyword search for q. Without an NL model, q goes through the rule-based parser
+ * (purpose, beds/baths, price, type, features, location) and only its leftover words become the
+ * full-text keyword; with nl_query=false q is taken literally as keyword. purpose defaults to
+ * for_sale only for non-NL search (NL lets the model set purpose_key, e.g. for_rent).
+ * Mutates filterState.
+ */
+export async function resolveSearchNlOptions(
+  filterState: SearchFilterState,
+  q: string | undefined,
+  nlQueryOptOut: boolean
+): Promise<SearchNlOptions> {
+  const nlModelId = process.env.TYPESENSE_NL_MODEL_ID?.trim() || undefined;
+  const { qValue, willUseNl } = resolveNaturalLanguageSearchMode(q, nlModelId, nlQueryOptOut);
+
+  if (qValue && !willUseNl) {
+    let keyword = qValue;
+    if (!nlQueryOptOut) {
+      try {
+        const parsed = await ruleBasedParse(qValue);
+        mergeParsedFilters(filterState, parsed.filters);
+        keyword = parsed.residual;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Rule-based query parse failed, searching q as keyword: ${message}`);
+      }
+    }
+    if (keyword) {
+      filterState.keyword = filterState.keyword ? `${filterState.keyword} ${keyword}` : keyword;
+    }
+  }
+  if (!willUseNl && !filterState.purpose?.trim()) {
+    filterState.purpose = 'for_sale';
+  }
+
+  return { useNlQuery: willUseNl, rawQ: qValue || undefined, nlModelId };
+}
@@ -0,0 +1,85 @@
+/**
+ * Named sorts for /api/search (sortBy). Each name maps to a fixed Typesense sort_by ending in
+ * property_id_int so equal keys page stably; raw sort_by strings are never taken from clients.
+ * Typesense allows at most 3 sort fields per query.
+ */
+
+import { AppError } from '@/lib/utils/errors';
+import { buildGeoDistanceSortBy, type SearchFilterState } from './buildFilterQuery';
+
+/** Used when the request has no sortBy (most recently updated first). */
+export const DEFAULT_SEARCH_SORT_BY = 'updated_at:desc,property_id_int:desc';
+
+const STATIC_SORTS = {
+  newest: 'created_at:desc,property_id_int:desc',
+  price_asc: 'price(missing_values: last):asc,property_id_int:desc',
+  price_desc: 'price(missing_values: last):desc,property_id_int:desc',
+  area_desc: 'area_sqm(missing_values: last):desc,property_id_int:desc',
+  featured: 'is_featured:desc,featured_rank:asc,property_id_int:desc',
+  relevance: '_text_match:desc,updated_at:desc,property_id_int:desc',
+  /** Listings with a price drop first, latest drop first. */
+  recently_reduced: '_eval(price_change_pct:<0):desc,price_changed_at:desc,property_id_int:desc',
+  /** Price per sqm in the listing currency; listings without area go last. */
+  price_per_sqm_asc: 'price_per_sqm(missing_values: last):asc,property_id_int:desc',
+  price_per_sqm_desc: 'price_per_sqm(missing_values: last):desc,property_id_int:desc',
+} as const;
+
+export type SearchSortOption = keyof typeof STATIC_SORTS | 'distance';
+
+export const SEARCH_SORT_OPTIONS = [
+  ...(Object.keys(STATIC_SORTS) as (keyof typeof STATIC_SORTS)[]),
+  'distance',
+] as readonly SearchSortOption[];
+
+function isSearchSortOption(value: string): value is SearchSortOption {
+  return (SEARCH_SORT_OPTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Set filterState.sortBy from a named sort. Unknown names → 400 INVALID_SORT;
+ * distance without lat/lng, viewport or polygon → 400 GEO_REQUIRED. No-op when sortBy is empty.
+ */
+export function applySearchSort(filterState: SearchFilterState, sortBy: string | undefined): void {
+  const name = sortBy?.trim().toLowerCase();
+  if (!name) return;
+  if (!isSearchSortOption(name)) {
+    throw new AppError(
+      `Invalid sortBy: ${sortBy}. Allowed: ${SEARCH_SORT_OPTIONS.join(', ')}`,
+      400,
+      'INVALID_SORT'
+    );
+  }
+
+  if (name !== 'distance') {
+    filterState.sortBy = STATIC_SORTS[name];
+    return;
+  }
+  const geoSort = buildGeoDistanceSortBy(filterState);
+  if (!geoSort) {
+    throw new AppError(
+      'sortBy=distance requires lat/lng, ne/sw bounds or polygon',
+      400,
+      'GEO_REQUIRED'
+    );
+  }
+  filterState.sortBy = geoSort;
+}
+
+/** "price(missing_values: last):asc" → "price:asc" (first sort field only). */
+function leadingSortKey(sortBy: string): string {
+  const first = sortBy.split(',')[0]?.trim() ?? '';
+  return first.replace(/\([^)]*\)(?=:(asc|desc)$)/i, '').replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Named sort whose leading field and direction match a raw sort_by (e.g. NL-generated
+ * "price:asc" → price_asc); null when none does.
+ */
+export function namedSortForSortBy(sortBy: string | undefined): SearchSortOption | null {
+  if (!sortBy?.trim()) return null;
+  const key = leadingSortKey(sortBy);
+  for (const [name, value] of Object.entries(STATIC_SORTS)) {
+    if (leadingSortKey(value) === key) return name as SearchSortOption;
+  }
+  return null;
+}
@@ -0,0 +1,56 @@
+/**
+ * Admin-managed search synonyms (e.g. flat ⇄ apartment). master.SEARCH_SYNONYMS is the source of
+ * truth; admin writes push each row to the Typesense collection right away, and typesense-sync
+ * re-applies the whole table on force=true runs and whenever it (re)creates the collection.
+ */
+
+import type { SearchSynonymRow } from '@/lib/db/queries/searchSynonyms';
+import { typesenseDeleteSynonym, typesenseUpsertSynonym } from './typesense';
+
+const SYNONYM_COLLECTION = 'properties';
+
+export function toSearchSynonymResponse(row: SearchSynonymRow) {
+  return {
+    id: row.synonym_id,
+    key: row.synonym_key,
+    type: row.root ? 'one-way' : 'multi-way',
+    root: row.root,
+    synonyms: row.synonyms,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Push a stored synonym to Typesense (inactive ones are removed). Returns false when Typesense
+ * is unreachable: the row is saved either way and typesense-sync (force=true) re-applies it.
+ */
+export async function applySearchSynonym(row: SearchSynonymRow): Promise<boolean> {
+  try {
+    if (row.is_active) {
+      await typesenseUpsertSynonym(SYNONYM_COLLECTION, row.synonym_key, {
+        root: row.root ?? undefined,
+        synonyms: row.synonyms,
+      });
+    } else {
+      await typesenseDeleteSynonym(SYNONYM_COLLECTION, row.synonym_key);
+    }
+    return true;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Applying search synonym ${row.synonym_key} failed: ${message}`);
+    return false;
+  }
+}
+
+export async function removeSearchSynonym(synonymKey: string): Promise<boolean> {
+  try {
+    await typesenseDeleteSynonym(SYNONYM_COLLECTION, synonymKey);
+    return true;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Removing search synonym ${synonymKey} failed: ${message}`);
+    return false;
+  }
+}
@@ -1,4 +1,7 @@
 import { AppError } from '@/lib/utils/errors';
+import { HIGHLIGHT_END_TAG, HIGHLIGHT_START_TAG } from './highlight';
+import { getOrParseNlInterpretation, type NlInterpretation } from './nlCache';
+import { ruleBasedNlInterpretation } from './ruleBasedNlParser';
 
 type TypesenseConfig = {
   baseUrl: string;
@@ -72,6 +75,23 @@ export type TypesenseSearchResponse<TDoc> = {
     highlights?: unknown[];
     text_match?: number;
     text_match_info?: Record<string, unknown>;
+    /** Present when sort_by uses a geopoint: meters from the sort origin, keyed by field. */
+    geo_distance_meters?: Record<string, number>;
+    /** Union multi-search: index of the search that produced the hit. */
+    search_index?: number;
+    /** Placed by pinned_hits (merchandising). */
+    curated?: boolean;
+  }>;
+  /** Present when facet_by was sent. */
+  facet_counts?: Array<{
+    field_name: string;
+    counts: Array<{ value: string; count: number; highlighted?: string }>;
+  }>;
+  /** Present when group_by was sent (found then counts groups). */
+  grouped_hits?: Array<{
+    group_key: string[];
+    found?: number;
+    hits: TypesenseSearchResponse<TDoc>['hits'];
   }>;
 };
 
@@ -83,10 +103,15 @@ export async function typesenseSearch<TDoc>(options: {
   sortBy?: string;
   page: number;
   perPage: number;
+  /** Comma-separated document fields to return (smaller payloads for map/cluster fetches). */
+  includeFields?: string;
+  /** Wrap matched tokens in <mark> (highlight=true). */
+  highlight?: boolean;
   /** Use Typesense Natural Language Search (LLM parses q into filters/sorts). */
   nlQuery?: boolean;
   /** Typesense NL model id (e.g. gemini-model). Required when nlQuery is true. */
   nlModelId?: string;
+  curation?: TypesenseCuration;
 }): Promise<TypesenseSearchResponse<TDoc>> {
   // Always POST /multi_search — GET query strings max out at 4000 chars (long _eval sort_by).
   const searchBody: Record<string, string | number | boolean> = {
@@ -98,6 +123,9 @@ export async function typesenseSearch<TDoc>(options: {
   };
   if (options.filterBy) searchBody.filter_by = options.filterBy;
   if (options.sortBy) searchBody.sort_by = options.sortBy;
+  if (options.includeFields) searchBody.include_fields = options.includeFields;
+  if (options.highlight) Object.assign(searchBody, highlightParams());
+  if (options.curation) Object.assign(searchBody, curationParams(options.curation));
   if (options.nlQuery === true && options.nlModelId) {
     searchBody.nl_query = true;
     searchBody.nl_model_id = options.nlModelId;
@@ -120,6 +148,27 @@ export async function typesenseSearch<TDoc>(options: {
   return raw;
 }
 
+function highlightParams() {
+  return { highlight_start_tag: HIGHLIGHT_START_TAG, highlight_end_tag: HIGHLIGHT_END_TAG };
+}
+
+/** Merchandising: document ids pinned to positions 1..n (in order) and ids removed from results. */
+export type TypesenseCuration = {
+  pinnedHits: string[];
+  hiddenHits: string[];
+};
+
+/** filter_curated_hits keeps pinned listings subject to the search's filter_by (purpose, price, …). */
+function curationParams(curation: TypesenseCuration): Record<string, string | boolean> {
+  const params: Record<string, string | boolean> = {};
+  if (curation.pinnedHits.length) {
+    params.pinned_hits = curation.pinnedHits.map((id, i) => `${id}:${i + 1}`).join(',');
+  }
+  if (curation.hiddenHits.length) params.hidden_hits = curation.hiddenHits.join(',');
+  if (params.pinned_hits || params.hidden_hits) params.filter_curated_hits = true;
+  return params;
+}
+
 type NlSearchParams = {
   q?: string;
   filter_by?: string;
@@ -130,6 +179,82 @@ function nlParamString(value: unknown): string {
   return typeof value === 'string' ? value.trim() : '';
 }
 
+/** LLM-generated q / filter_by / sort_by only (without the caller's explicit filters); q '*' when empty. */
+export function readNlGeneratedParams(
+  parsedNlQuery: Record<string, unknown> | undefined
+): { q: string; filterBy?: string; sortBy?: string } {
+  const generated = (parsedNlQuery?.generated_params ?? {}) as NlSearchParams;
+  return {
+    q: nlParamString(generated.q) || '*',
+    filterBy: nlParamString(generated.filter_by) || undefined,
+    sortBy: nlParamString(generated.sort_by) || undefined,
+  };
+}
+
+export type TypesenseNlParseResult = {
+  /** Generated q ('*' when the LLM returned an empty q). */
+  q: string;
+  filterBy?: string;
+  sortBy?: string;
+  parsedNlQuery?: Record<string, unknown>;
+  searchTimeMs: number;
+};
+
+/**
+ * Phase 1 of NL search: nl_query with per_page=0, returning the generated q / filter_by /
+ * sort_by. The generated filter_by is ANDed with the caller's filterBy; sortBy falls back to the
+ * caller's. Interpretations are cached per normalized sentence (nlCache), so only a miss calls
+ * the LLM; searchTimeMs is 0 on a hit. When the NL call fails the rule-based parser stands in.
+ */
+export async function typesenseNlParse(options: {
+  collection: string;
+  q: string;
+  queryBy: string;
+  filterBy?: string;
+  sortBy?: string;
+  nlModelId: string;
+}): Promise<TypesenseNlParseResult> {
+  let searchTimeMs = 0;
+  let interpretation: NlInterpretation;
+  try {
+    ({ interpretation } = await getOrParseNlInterpretation(options, async () => {
+      // Parsed without the caller's filters so the cached interpretation fits any request
+      const parsed = await typesenseSearch<Record<string, unknown>>({
+        collection: options.collection,
+        q: options.q,
+        queryBy: options.queryBy,
+        page: 1,
+        perPage: 0,
+        nlQuery: true,
+        nlModelId: options.nlModelId,
+      });
+      searchTimeMs = parsed.search_time_ms || 0;
+      // augmented_params would only echo this request's (empty) filters
+      const parsedNlQuery = parsed.parsed_nl_query ? { ...parsed.parsed_nl_query } : undefined;
+      delete parsedNlQuery?.augmented_params;
+      return { ...readNlGeneratedParams(parsed.parsed_nl_query), parsedNlQuery };
+    }));
+  } catch (error: unknown) {
+    // Failed parses are not cached, so the model is retried on the next request
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Typesense NL parse failed, using rule-based parser: ${message}`);
+    interpretation = await ruleBasedNlInterpretation(options.q);
+  }
+
+  const filterBy = [options.filterBy, interpretation.filterBy]
+    .filter((p): p is string => !!p)
+    .map((p) => (p.includes('||') ? `(${p})` : p))
+    .join(' && ');
+
+  return {
+    q: interpretation.q,
+    filterBy: filterBy || undefined,
+    sortBy: interpretation.sortBy || options.sortBy || undefined,
+    parsedNlQuery: interpretation.parsedNlQuery,
+    searchTimeMs,
+  };
+}
+
 /**
  * Typesense NL still keyword-searches the original sentence even when the LLM
  * returns q:"". Parse with nl_query, then search again using generated q / filters.
@@ -143,40 +268,28 @@ export async function typesenseNlSearch<TDoc>(options: {
   page: number;
   perPage: number;
   nlModelId: string;
+  highlight?: boolean;
+  curation?: TypesenseCuration;
 }): Promise<TypesenseSearchResponse<TDoc>> {
-  const parsed = await typesenseSearch<TDoc>({
-    ...options,
-    page: 1,
-    perPage: 0,
-    nlQuery: true,
-    nlModelId: options.nlModelId,
-  });
-
-  const generated = (parsed.parsed_nl_query?.generated_params ?? {}) as NlSearchParams;
-  const augmented = (parsed.parsed_nl_query?.augmented_params ?? {}) as NlSearchParams;
-
-  const q = nlParamString(generated.q) || '*';
-  const filterBy =
-    nlParamString(augmented.filter_by) ||
-    nlParamString(generated.filter_by) ||
-    options.filterBy;
-  const sortBy = nlParamString(generated.sort_by) || options.sortBy;
+  const { highlight, curation, ...parseOptions } = options;
+  const parsed = await typesenseNlParse(parseOptions);
 
   const results = await typesenseSearch<TDoc>({
     collection: options.collection,
-    q,
+    q: parsed.q,
     queryBy: options.queryBy,
-    filterBy: filterBy || undefined,
-    sortBy: sortBy || undefined,
+    filterBy: parsed.filterBy,
+    sortBy: parsed.sortBy,
     page: options.page,
     perPage: options.perPage,
+    highlight,
+    curation,
   });
 
-  if (parsed.parsed_nl_query) {
-    results.parsed_nl_query = parsed.parsed_nl_query;
+  if (parsed.parsedNlQuery) {
+    results.parsed_nl_query = parsed.parsedNlQuery;
   }
-  results.search_time_ms =
-    (parsed.search_time_ms || 0) + (results.search_time_ms || 0);
+  results.search_time_ms = parsed.searchTimeMs + (results.search_time_ms || 0);
 
   return results;
 }
@@ -189,11 +302,64 @@ type TypesenseSearchParams = {
   sortBy?: string;
   page: number;
   perPage: number;
+  includeFields?: string;
+  facetBy?: string;
+  maxFacetValues?: number;
+  /** group_by fields; only typesenseMultiSearch sends them. */
+  groupBy?: string;
+  groupLimit?: number;
+  highlight?: boolean;
+  curation?: TypesenseCuration;
 };
 
+/** Plain multi-search (no union): one response per search, in order. */
+export async function typesenseMultiSearch<TDoc>(
+  searches: TypesenseSearchParams[]
+): Promise<TypesenseSearchResponse<TDoc>[]> {
+  if (searches.length === 0) return [];
+  const raw = await typesenseFetch<{
+    results?: Array<TypesenseSearchResponse<TDoc> & { error?: string; code?: number }>;
+  }>(
+    '/multi_search',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        searches: searches.map((s) => ({
+          collection: s.collection,
+          q: s.q,
+          query_by: s.queryBy,
+          filter_by: s.filterBy,
+          sort_by: s.sortBy,
+          include_fields: s.includeFields,
+          facet_by: s.facetBy,
+          max_facet_values: s.maxFacetValues,
+          group_by: s.groupBy,
+          group_limit: s.groupLimit,
+          page: s.page,
+          per_page: s.perPage,
+        })),
+      }),
+    }
+  );
+  const results = raw.results ?? [];
+  // multi_search returns 200 with per-search errors
+  const failed = results.find((r) => r.error);
+  if (failed) {
+    throw new AppError(
+      `Typesense error (${failed.code ?? 500}) ${failed.error}`,
+      502,
+      'TYPESENSE_ERROR'
+    );
+  }
+  return results;
+}
+
 /**
  * Multi-search with union=true so multiple keyword queries are OR'd
- * (beach OR golf), with shared filter_by / pagination.
+ * (beach OR golf), with shared filter_by / pagination. found is Typesense's deduplicated union
+ * total, so list and count agree. Needs a Typesense with union support: there is no client-side
+ * merge (it could only see one page per search, so found and deep pages were wrong).
  */
 export async function typesenseMultiSearchUnion<TDoc>(
   searches: TypesenseSearchParams[]
@@ -212,92 +378,72 @@ export async function typesenseMultiSearchUnion<TDoc>(
     return typesenseSearch<TDoc>(searches[0]);
   }
 
-  const toSearchBody = (withUnion: boolean) => ({
-    ...(withUnion ? { union: true } : {}),
-    searches: searches.map((s) => ({
-      collection: s.collection,
-      q: s.q,
-      query_by: s.queryBy,
-      filter_by: s.filterBy,
-      sort_by: s.sortBy,
-      page: s.page,
-      per_page: s.perPage === 0 ? 250 : s.perPage,
-    })),
+  const raw = await typesenseFetch<
+    TypesenseSearchResponse<TDoc> & { error?: string; code?: number }
+  >('/multi_search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      union: true,
+      searches: searches.map((s) => ({
+        collection: s.collection,
+        q: s.q,
+        query_by: s.queryBy,
+        filter_by: s.filterBy,
+        sort_by: s.sortBy,
+        include_fields: s.includeFields,
+        ...(s.highlight ? highlightParams() : {}),
+        ...(s.curation ? curationParams(s.curation) : {}),
+        page: s.page,
+        // Count-only callers read found; the union total does not depend on the page size
+        per_page: s.perPage === 0 ? 1 : s.perPage,
+      })),
+    }),
   });
+  if (raw.error || !Array.isArray(raw.hits)) {
+    throw new AppError(
+      `Typesense union search failed (${raw.code ?? 500}) ${raw.error ?? 'no hits in response'}`,
+      502,
+      'TYPESENSE_ERROR'
+    );
+  }
+  return raw;
+}
 
-  const mergeResults = (
-    results: TypesenseSearchResponse<TDoc>[]
-  ): TypesenseSearchResponse<TDoc> => {
-    const byId = new Map<string, TypesenseSearchResponse<TDoc>['hits'][0]>();
-    for (const r of results) {
-      for (const hit of r.hits ?? []) {
-        const id = String((hit.document as { property_id?: string }).property_id ?? '');
-        if (id && !byId.has(id)) byId.set(id, hit);
-      }
-    }
-    const mergedHits = Array.from(byId.values());
-    const page = searches[0].page;
-    const perPage = searches[0].perPage;
-    // Count-only (per_page=0): return unique found, no hits
-    if (perPage === 0) {
-      return {
-        found: mergedHits.length,
-        out_of: results[0]?.out_of ?? mergedHits.length,
-        page: 1,
-        request_params: {},
-        search_time_ms: results.reduce((a, r) => a + (r.search_time_ms || 0), 0),
-        hits: [],
-      };
-    }
-    const start = (page - 1) * perPage;
-    return {
-      found: mergedHits.length,
-      out_of: results[0]?.out_of ?? mergedHits.length,
-      page,
-      request_params: {},
-      search_time_ms: results.reduce((a, r) => a + (r.search_time_ms || 0), 0),
-      hits: mergedHits.slice(start, start + perPage),
-    };
-  };
+export type TypesenseSynonym = {
+  /** Set → one-way: searching root also matches the synonyms. Unset → multi-way. */
+  root?: string;
+  synonyms: string[];
+};
 
-  const parseMulti = (
-    raw: TypesenseSearchResponse<TDoc> & { results?: TypesenseSearchResponse<TDoc>[] }
-  ): TypesenseSearchResponse<TDoc> => {
-    if (Array.isArray(raw.hits) && typeof raw.found === 'number') {
-      return raw;
-    }
-    if (Array.isArray(raw.results) && raw.results.length > 0) {
-      return mergeResults(raw.results);
+export async function typesenseUpsertSynonym(
+  collection: string,
+  synonymId: string,
+  synonym: TypesenseSynonym
+): Promise<void> {
+  await typesenseFetch(
+    `/collections/${encodeURIComponent(collection)}/synonyms/${encodeURIComponent(synonymId)}`,
+    {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(synonym.root ? synonym : { synonyms: synonym.synonyms }),
     }
-    return {
-      found: 0,
-      out_of: 0,
-      page: searches[0].page,
-      request_params: {},
-      search_time_ms: 0,
-      hits: [],
-    };
-  };
+  );
+}
 
-  try {
-    const raw = await typesenseFetch<
-      TypesenseSearchResponse<TDoc> & { results?: TypesenseSearchResponse<TDoc>[] }
-    >('/multi_search', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(toSearchBody(true)),
-    });
-    return parseMulti(raw);
-  } catch {
-    // Typesense without union support — merge unique hits client-side
-    const raw = await typesenseFetch<
-      TypesenseSearchResponse<TDoc> & { results?: TypesenseSearchResponse<TDoc>[] }
-    >('/multi_search', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(toSearchBody(false)),
-    });
-    return parseMulti(raw);
+/** Removes a synonym; one that is already gone (404) is not an error. */
+export async function typesenseDeleteSynonym(collection: string, synonymId: string): Promise<void> {
+  const { baseUrl } = getTypesenseConfig();
+  const res = await fetch(
+    `${baseUrl}/collections/${encodeURIComponent(collection)}/synonyms/${encodeURIComponent(synonymId)}`,
+    { method: 'DELETE', headers: withApiKey(), cache: 'no-store' }
+  );
+  if (!res.ok && res.status !== 404) {
+    const text = await res.text().catch(() => '');
+    throw new AppError(
+      `Typesense error (${res.status}) ${text || res.statusText}`,
+      502,
+      'TYPESENSE_ERROR'
+    );
   }
 }
-
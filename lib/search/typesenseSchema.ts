@@ -7,6 +7,7 @@ export type TypesenseField =
     | 'int32'
     | 'int32[]'
     | 'int64'
+    | 'int64[]'
     | 'float'
     | 'bool'
     | 'geopoint';
@@ -40,6 +41,8 @@ export const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
   fields: [
     // Identity
     { name: 'property_id', type: 'string' },
+    // Numeric copy of property_id: stable tie-break for sort_by
+    { name: 'property_id_int', type: 'int64', sort: true, optional: true },
 
     // Scoping
     { name: 'country_id', type: 'int32', facet: true },
@@ -71,8 +74,14 @@ export const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
     { name: 'area_sqft_str', type: 'string', optional: true },
     { name: 'area_sqm', type: 'float', facet: true, optional: true },
     { name: 'area_sqm_str', type: 'string', optional: true },
-    // Location search uses `address` (text) instead of location_id filtering
+    // price / area in the listing currency (null when price or area is missing)
+    { name: 'price_per_sqm', type: 'float', sort: true, optional: true },
+    { name: 'price_per_sqft', type: 'float', sort: true, optional: true },
+    // Free-text location search uses `address`; exact location filter uses `location_ids`
     { name: 'address', type: 'string', optional: true },
+    { name: 'location_id', type: 'int32', facet: true, optional: true },
+    // Location keys for every level (city / area / community), e.g. "1/dubai/dubai-marina"
+    { name: 'location_ids', type: 'string[]', facet: true, optional: true },
     // Feature IDs (filter by feature_ids); keys kept for display if needed
     { name: 'feature_ids', type: 'int32[]', facet: true, optional: true },
     { name: 'features', type: 'string[]', facet: true, optional: true },
@@ -83,6 +92,19 @@ export const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
     { name: 'status', type: 'string', facet: true, optional: true },
     { name: 'completion_status', type: 'string', facet: true, optional: true },
     { name: 'is_off_plan', type: 'bool', facet: true, optional: true },
+    // Lowercase key of PROPERTIES.furnishing_status, e.g. "semi_furnished"
+    { name: 'furnishing_status', type: 'string', facet: true, optional: true },
+    // PROPERTY_DETAILS building / unit facts
+    { name: 'parking_spaces', type: 'int32', facet: true, optional: true },
+    { name: 'floor_number', type: 'int32', facet: true, optional: true },
+    { name: 'total_floors', type: 'int32', facet: true, optional: true },
+    { name: 'year_built', type: 'int32', facet: true, optional: true },
+    // Rent terms (for_rent only): price per year | month, paid in N cheques
+    { name: 'rent_frequency', type: 'string', facet: true, optional: true },
+    { name: 'number_of_cheques', type: 'int32', facet: true, optional: true },
+    // Upcoming open-house slots (epoch seconds), parallel arrays ordered by start
+    { name: 'open_house_starts', type: 'int64[]', optional: true },
+    { name: 'open_house_ends', type: 'int64[]', optional: true, index: false },
 
     // Featured
     { name: 'is_featured', type: 'bool', facet: true, optional: true },
@@ -91,6 +113,11 @@ export const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
 
     // Sort fields
     { name: 'created_at', type: 'int64', sort: true, optional: true },
+    // Last price change (property.PROPERTY_HISTORY): epoch seconds and % vs previous price; 0 when never changed
+    { name: 'price_changed_at', type: 'int64', sort: true, optional: true },
+    { name: 'price_change_pct', type: 'float', sort: true, optional: true },
+    // Move-in date (UTC midnight, epoch seconds); 0 when unset = available now
+    { name: 'available_from', type: 'int64', sort: true, optional: true },
     // Must be non-optional because it's the default_sorting_field
     { name: 'updated_at', type: 'int64', sort: true },
 
@@ -120,6 +147,14 @@ export const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
 
     // Optional geo
     { name: 'geo', type: 'geopoint', optional: true },
+    // Geohash of geo per cluster precision (geohashPrecisionForZoom: 2–8), faceted by clusters
+    { name: 'geohash_2', type: 'string', facet: true, optional: true },
+    { name: 'geohash_3', type: 'string', facet: true, optional: true },
+    { name: 'geohash_4', type: 'string', facet: true, optional: true },
+    { name: 'geohash_5', type: 'string', facet: true, optional: true },
+    { name: 'geohash_6', type: 'string', facet: true, optional: true },
+    { name: 'geohash_7', type: 'string', facet: true, optional: true },
+    { name: 'geohash_8', type: 'string', facet: true, optional: true },
   ],
 };
 
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { AppError } from '@/lib/utils/errors';
+import { parseLatLng, type GeoBounds, type GeoPoint } from '@/lib/search/geo';
 
 // Authentication schemas
 export const registerSchema = z.object({
@@ -92,6 +94,7 @@ export const updateUserSchema = z.object({
   email: z.string().email('Invalid email address').optional(),
   twoFactorEnabled: z.boolean().optional(),
   preferredLanguageCode: z.string().length(2, 'Language code must be 2 characters').optional(),
+  favouriteAlertsEnabled: z.boolean().optional(),
 }).strict();
 
 export const updateLanguagePreferenceSchema = z.object({
@@ -145,7 +148,8 @@ export const queryParamsSchema = z.object({
 
 // Featured / onboarding / views schemas
 export const featuredQuerySchema = z.object({
-  countryId: z.coerce.number().int().min(1),
+  // Omitted: detected from the session or CF-IPCountry / X-Country (lib/search/country.ts)
+  countryId: z.coerce.number().int().min(1).optional(),
   page: z.coerce.number().int().min(1).optional(),
   limit: z.coerce.number().int().min(1).max(100).optional(),
 }).transform(({ countryId, page, limit }) => ({
@@ -162,13 +166,60 @@ export const filtersQuerySchema = z.object({
   languageCode: z.string().max(5).optional(),
 });
 
+/** Stable location key from /api/locations/suggest: "<countryId>/<city>[/<area>[/<community>]]" slugs. */
+export const LOCATION_KEY_PATTERN = /^\d+(\/[a-z0-9]+(-[a-z0-9]+)*){1,3}$/;
+const locationKeySchema = z.string().regex(LOCATION_KEY_PATTERN, 'Invalid locationId');
+
+// Location typeahead
+export const locationSuggestQuerySchema = z.object({
+  q: z.string().trim().min(1, 'q is required').max(100),
+  countryId: z.coerce.number().int().min(1).optional(),
+  /** Scope listing counts to a purpose (for_sale / for_rent) */
+  purpose: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+/** ISO 4217 code, normalized to uppercase */
+const currencyCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, 'Invalid currency code')
+  .transform((v) => v.toUpperCase());
+
+/** Calendar date (YYYY-MM-DD), e.g. a move-in date */
+const searchDateSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date (use YYYY-MM-DD)')
+  .refine((v) => !Number.isNaN(Date.parse(v)), 'Invalid date (use YYYY-MM-DD)');
+
+/** Year built bounds shared by GET and POST search */
+const yearBuiltSchema = z.coerce.number().int().min(1800).max(2100);
+
+/** Longest search sentence: q is an NL prompt and an NL cache key, so it is bounded. */
+const MAX_SEARCH_Q_LENGTH = 500;
+
 // Search with filter values (Typesense). Purpose optional: can be inferred from q (e.g. "selling" → for_sale, "rent" → for_rent).
 export const searchQuerySchema = z.object({
   purpose: z.string().min(1).optional(),
   /** Natural language query sent to Typesense (nl_query + nl_model_id when model is configured). */
-  q: z.string().optional(),
+  q: z.string().max(MAX_SEARCH_Q_LENGTH).optional(),
+  /** One country; without countryId / countryIds the session / CF-IPCountry country is used */
   countryId: z.coerce.number().int().min(1).optional(),
+  /** Comma-separated country IDs (any of them) */
+  countryIds: z
+    .string()
+    .optional()
+    .refine((v) => !v || v.split(',').every((s) => !s.trim() || /^\d+$/.test(s.trim())), 'Invalid countryIds'),
   location: z.string().optional(),
+  /** Comma-separated location keys from /api/locations/suggest (exact match, any level) */
+  locationIds: z
+    .string()
+    .optional()
+    .refine(
+      (v) => !v || v.split(',').every((k) => !k.trim() || LOCATION_KEY_PATTERN.test(k.trim())),
+      'Invalid locationIds'
+    ),
   /** 'all' = no filter; any other value filters by completion_status (distinct from property table) */
   completionStatus: z.string().optional(),
   mainPropertyTypeIds: z.string().optional(), // comma-separated main type IDs
@@ -177,8 +228,24 @@ export const searchQuerySchema = z.object({
   bathrooms: z.string().optional(), // comma-separated, e.g. "2,3"
   priceMin: z.coerce.number().min(0).optional(),
   priceMax: z.coerce.number().min(0).optional(),
+  /** ISO code (e.g. AED): priceMin/priceMax are in this currency and prices are converted to it */
+  displayCurrency: currencyCodeSchema.optional(),
   areaMin: z.coerce.number().min(0).optional(),
   areaMax: z.coerce.number().min(0).optional(),
+  /** Price per sqm range (displayCurrency when set, else listing currency) */
+  pricePerSqmMin: z.coerce.number().min(0).optional(),
+  pricePerSqmMax: z.coerce.number().min(0).optional(),
+  /** Comma-separated furnishing keys, e.g. "furnished,semi_furnished" */
+  furnishingStatus: z.string().optional(),
+  parkingMin: z.coerce.number().int().min(0).optional(),
+  parkingMax: z.coerce.number().int().min(0).optional(),
+  /** Unit floor (negative = basement levels) */
+  floorMin: z.coerce.number().int().min(-10).optional(),
+  floorMax: z.coerce.number().int().min(-10).optional(),
+  totalFloorsMin: z.coerce.number().int().min(1).optional(),
+  totalFloorsMax: z.coerce.number().int().min(1).optional(),
+  yearBuiltMin: yearBuiltSchema.optional(),
+  yearBuiltMax: yearBuiltSchema.optional(),
     /** Single string or comma-separated keywords, e.g. "beach,golf,marina" */
     keyword: z.string().optional(),
     /** Alias for keyword (some clients) */
@@ -186,10 +253,33 @@ export const searchQuerySchema = z.object({
     /** JSON array of { id: number, type: "agent"|"agency" } e.g. [{"id":1,"type":"agent"},{"id":2,"type":"agency"}] */
     agentIds: z.string().optional(),
     featureIds: z.string().optional(), // comma-separated feature IDs
+  /** Geo centre; with radiusKm filters by radius, alone it only drives distance sort/output. */
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive().max(500).optional(),
+  /** Map viewport corners as "lat,lng", e.g. ne=25.12,55.25&sw=25.05,55.11 */
+  ne: z.string().optional(),
+  sw: z.string().optional(),
+  /** Only listings whose price dropped within the last N days */
+  reducedWithinDays: z.coerce.number().int().min(1).max(365).optional(),
+  /** Move-in window (YYYY-MM-DD): listings available from on/after availableAfter, by availableBefore */
+  availableAfter: searchDateSchema.optional(),
+  availableBefore: searchDateSchema.optional(),
+  /**
+   * Named sort (SEARCH_SORT_OPTIONS): newest, price_asc, price_desc, area_desc, featured, relevance,
+   * recently_reduced, price_per_sqm_asc|desc, distance (needs geo). Unknown → 400 INVALID_SORT.
+   */
+  sortBy: z.string().max(50).optional(),
+  /** Opt-in facet counts, comma-separated: bedrooms,bathrooms,property_type_ids,features,completion_status,furnishing_status */
+  facets: z.string().optional(),
   /** Opt out of Typesense NL with false. When omitted/true and q is set, NL is used if model id is configured. */
   nl_query: z.coerce.boolean().optional(),
   page: z.coerce.number().int().min(1).optional(),
   limit: z.coerce.number().int().min(1).max(100).optional(),
+  /** nextCursor from the previous page (infinite scroll); page/limit are then ignored. */
+  cursor: z.string().max(8192).optional(),
+  /** true → highlights (title/address/features snippets) and matchedOn on each item */
+  highlight: z.enum(['true', 'false']).optional(),
 });
 
 /** One agent/agency entry for agentIds filter. */
@@ -217,13 +307,160 @@ export function normalizeAgentIds(
   return out.length ? out : undefined;
 }
 
+/** Facets returned on request (?facets=bedrooms,features). Keys are API names, not Typesense fields. */
+export const SEARCH_FACETS = [
+  'bedrooms',
+  'bathrooms',
+  'property_type_ids',
+  'features',
+  'completion_status',
+  'furnishing_status',
+] as const;
+export type SearchFacet = (typeof SEARCH_FACETS)[number];
+
+/** Comma-separated string or array → deduped facet names; unknown names are a 400. */
+export function normalizeSearchFacets(value: string | string[] | undefined): SearchFacet[] | undefined {
+  if (value == null) return undefined;
+  const names = (Array.isArray(value) ? value : value.split(','))
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const unknown = names.filter((n) => !(SEARCH_FACETS as readonly string[]).includes(n));
+  if (unknown.length) {
+    throw new AppError(
+      `Unknown facets: ${unknown.join(', ')}. Allowed: ${SEARCH_FACETS.join(', ')}`,
+      400,
+      'INVALID_FACET'
+    );
+  }
+  const unique = Array.from(new Set(names)) as SearchFacet[];
+  return unique.length ? unique : undefined;
+}
+
+/** Polygon (lasso) search limits: a closed area needs 3 vertices; cap keeps filter_by small. */
+export const MIN_POLYGON_VERTICES = 3;
+export const MAX_POLYGON_VERTICES = 100;
+
+const geoVertexSchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+});
+
+/** GeoJSON Polygon; only the outer ring (coordinates[0], [lng, lat] order) is used. */
+const geoJsonPolygonSchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: z
+    .array(
+      z.array(
+        z.tuple([z.coerce.number().min(-180).max(180), z.coerce.number().min(-90).max(90)])
+      )
+    )
+    .min(1),
+});
+
+/** POST polygon: vertex list [{ lat, lng }, ...] or a GeoJSON Polygon. */
+export const searchPolygonSchema = z.union([z.array(geoVertexSchema), geoJsonPolygonSchema]);
+export type SearchPolygonInput = z.infer<typeof searchPolygonSchema>;
+
+/** Polygon input → open ring of vertices (closing vertex dropped), vertex count checked. */
+export function normalizeSearchPolygon(value: SearchPolygonInput | undefined): GeoPoint[] | undefined {
+  if (value == null) return undefined;
+  let points: GeoPoint[] = Array.isArray(value)
+    ? value.map((v) => ({ lat: v.lat, lng: v.lng }))
+    : value.coordinates[0].map(([lng, lat]) => ({ lat, lng }));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.lat === last.lat && first.lng === last.lng) {
+    points = points.slice(0, -1);
+  }
+
+  if (points.length < MIN_POLYGON_VERTICES || points.length > MAX_POLYGON_VERTICES) {
+    throw new AppError(
+      `polygon must have between ${MIN_POLYGON_VERTICES} and ${MAX_POLYGON_VERTICES} vertices`,
+      400,
+      'INVALID_POLYGON'
+    );
+  }
+  return points;
+}
+
+type GeoFilterInput = {
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  /** GET: "lat,lng"; POST: [lat, lng] */
+  ne?: string | [number, number];
+  sw?: string | [number, number];
+  /** POST only */
+  polygon?: SearchPolygonInput;
+};
+
+function toGeoPoint(value: string | [number, number] | undefined): GeoPoint | null {
+  if (value == null) return null;
+  if (typeof value === 'string') return parseLatLng(value);
+  return { lat: value[0], lng: value[1] };
+}
+
+/**
+ * Normalize lat/lng/radiusKm, ne/sw and polygon into SearchFilterState geo fields.
+ * lat and lng must come together; radiusKm needs a centre; ne and sw must come together.
+ */
+export function normalizeGeoFilter(input: GeoFilterInput): {
+  geoCenter?: GeoPoint;
+  radiusKm?: number;
+  geoBounds?: GeoBounds;
+  geoPolygon?: GeoPoint[];
+} {
+  const out: {
+    geoCenter?: GeoPoint;
+    radiusKm?: number;
+    geoBounds?: GeoBounds;
+    geoPolygon?: GeoPoint[];
+  } = {};
+
+  if ((input.lat == null) !== (input.lng == null)) {
+    throw new AppError('lat and lng must be provided together', 400, 'INVALID_GEO_FILTER');
+  }
+  if (input.lat != null && input.lng != null) {
+    out.geoCenter = { lat: input.lat, lng: input.lng };
+  }
+  if (input.radiusKm != null) {
+    if (!out.geoCenter) {
+      throw new AppError('radiusKm requires lat and lng', 400, 'INVALID_GEO_FILTER');
+    }
+    out.radiusKm = input.radiusKm;
+  }
+
+  if (input.ne != null || input.sw != null) {
+    const ne = toGeoPoint(input.ne);
+    const sw = toGeoPoint(input.sw);
+    if (!ne || !sw) {
+      throw new AppError('ne and sw must both be valid "lat,lng" corners', 400, 'INVALID_GEO_FILTER');
+    }
+    if (sw.lat > ne.lat) {
+      throw new AppError('sw latitude must not be north of ne latitude', 400, 'INVALID_GEO_FILTER');
+    }
+    out.geoBounds = { ne, sw };
+  }
+
+  const polygon = normalizeSearchPolygon(input.polygon);
+  if (polygon) out.geoPolygon = polygon;
+
+  return out;
+}
+
 /** Search request body for POST. Supports arrays for multi-select filters. */
 export const searchBodySchema = z
   .object({
     purpose: z.string().min(1).optional(),
-    q: z.string().optional(),
+    q: z.string().max(MAX_SEARCH_Q_LENGTH).optional(),
+    /** One country; without countryId / countryIds the session / CF-IPCountry country is used */
     countryId: z.coerce.number().int().min(1).optional(),
+    /** Country IDs (any of them) */
+    countryIds: z.array(z.coerce.number().int().min(1)).max(20).optional(),
     location: z.string().optional(),
+    /** Location keys from /api/locations/suggest (exact match, any level) */
+    locationIds: z.array(locationKeySchema).max(50).optional(),
     completionStatus: z.array(z.string()).optional(),
     mainPropertyTypeIds: z.array(z.coerce.number().int().min(1)).optional(),
     propertyTypeIds: z.array(z.coerce.number().int().min(1)).optional(),
@@ -233,14 +470,36 @@ export const searchBodySchema = z
     bathrooms: z
       .array(z.union([z.coerce.number().int().min(1), z.string().regex(/^\d+\+$/)]))
       .optional(),
-    /** Price range: [min, max], index 0 = min, index 1 = max */
+    /** Price range: [min, max], index 0 = min, index 1 = max; null leaves that end open (all ranges) */
     price: z
-      .tuple([z.coerce.number().min(0), z.coerce.number().min(0)])
+      .tuple([z.coerce.number().min(0).nullable(), z.coerce.number().min(0).nullable()])
       .optional(),
+    /** ISO code (e.g. AED): price range is in this currency and prices are converted to it */
+    displayCurrency: currencyCodeSchema.optional(),
     /** Area range (sqm): [min, max], index 0 = min, index 1 = max */
     area: z
-      .tuple([z.coerce.number().min(0), z.coerce.number().min(0)])
+      .tuple([z.coerce.number().min(0).nullable(), z.coerce.number().min(0).nullable()])
+      .optional(),
+    /** Price per sqm range: [min, max] (displayCurrency when set, else listing currency) */
+    pricePerSqm: z
+      .tuple([z.coerce.number().min(0).nullable(), z.coerce.number().min(0).nullable()])
       .optional(),
+    /** Furnishing keys, e.g. ["furnished", "semi_furnished"] */
+    furnishingStatus: z.array(z.string().trim().min(1).max(50)).max(10).optional(),
+    /** Parking spaces range: [min, max] */
+    parking: z
+      .tuple([z.coerce.number().int().min(0).nullable(), z.coerce.number().int().min(0).nullable()])
+      .optional(),
+    /** Unit floor range: [min, max] (negative = basement levels) */
+    floor: z
+      .tuple([z.coerce.number().int().min(-10).nullable(), z.coerce.number().int().min(-10).nullable()])
+      .optional(),
+    /** Building height range: [min, max] */
+    totalFloors: z
+      .tuple([z.coerce.number().int().min(1).nullable(), z.coerce.number().int().min(1).nullable()])
+      .optional(),
+    /** Year built range: [min, max] */
+    yearBuilt: z.tuple([yearBuiltSchema.nullable(), yearBuiltSchema.nullable()]).optional(),
     /** Keywords: string or array e.g. ["beach", "golf", "marina"] */
     keyword: z.union([z.string(), z.array(z.string())]).optional(),
     /** Alias accepted by some clients; merged with keyword in route handlers */
@@ -251,13 +510,175 @@ export const searchBodySchema = z
      */
     agentIds: z.array(z.unknown()).optional(),
     featureIds: z.array(z.coerce.number().int().min(1)).optional(),
+    /** Feature keys from the `features` facet (e.g. golf, beachfront) */
+    featureKeys: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+    /** Geo centre; with radiusKm filters by radius, alone it only drives distance sort/output. */
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+    radiusKm: z.coerce.number().positive().max(500).optional(),
+    /** Map viewport corners: [lat, lng] */
+    ne: z.tuple([z.coerce.number().min(-90).max(90), z.coerce.number().min(-180).max(180)]).optional(),
+    sw: z.tuple([z.coerce.number().min(-90).max(90), z.coerce.number().min(-180).max(180)]).optional(),
+    /** Draw-on-map area: [{ lat, lng }, ...] or GeoJSON Polygon (3–100 vertices). */
+    polygon: searchPolygonSchema.optional(),
+    /** Only listings whose price dropped within the last N days */
+    reducedWithinDays: z.coerce.number().int().min(1).max(365).optional(),
+    /** Move-in window (YYYY-MM-DD): listings available from on/after availableAfter, by availableBefore */
+    availableAfter: searchDateSchema.optional(),
+    availableBefore: searchDateSchema.optional(),
+    /**
+     * Named sort (SEARCH_SORT_OPTIONS): newest, price_asc, price_desc, area_desc, featured, relevance,
+     * recently_reduced, price_per_sqm_asc|desc, distance (needs geo). Unknown → 400 INVALID_SORT.
+     */
+    sortBy: z.string().max(50).optional(),
+    /** Opt-in facet counts: ["bedrooms", "features", ...] or comma-separated string */
+    facets: z.union([z.string(), z.array(z.string())]).optional(),
     /** Opt out of Typesense NL with false. When omitted/true and q is set, NL is used if model id is configured. */
     nl_query: z.boolean().optional(),
     page: z.coerce.number().int().min(1).optional(),
     limit: z.coerce.number().int().min(1).max(100).optional(),
+    /** nextCursor from the previous page (infinite scroll); page/limit are then ignored. */
+    cursor: z.string().max(8192).optional(),
+    /** true → highlights (title/address/features snippets) and matchedOn on each item */
+    highlight: z.boolean().optional(),
   })
   .strict();
 
+/** POST /api/search/parse: the sentence to interpret. */
+export const searchParseBodySchema = z
+  .object({
+    q: z.string().trim().min(1, 'q is required').max(MAX_SEARCH_Q_LENGTH),
+  })
+  .strict();
+
+// Saved searches
+export const savedSearchFrequencySchema = z.enum(['instant', 'daily', 'weekly']);
+
+export const savedSearchIdSchema = z.object({
+  id: z.coerce.number().int().min(1),
+});
+
+/** search = POST /api/search body; page/limit/facets are ignored when saving. */
+export const createSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1, 'name is required').max(100),
+    search: searchBodySchema,
+    frequency: savedSearchFrequencySchema.optional(),
+  })
+  .strict();
+
+export const updateSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    search: searchBodySchema.optional(),
+    frequency: savedSearchFrequencySchema.optional(),
+    alertsEnabled: z.boolean().optional(),
+  })
+  .strict()
+  .refine((v) => Object.values(v).some((x) => x !== undefined), {
+    message: 'At least one field is required',
+  });
+
+export const savedSearchUnsubscribeSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{48}$/, 'Invalid token'),
+});
+
+/** Map zoom level (web-mercator 0–22); drives cluster cell size. */
+const mapZoomSchema = z.coerce.number().int().min(0).max(22);
+
+/** GET /api/search/clusters: search params plus zoom; ne/sw viewport required in the route. */
+export const searchClustersQuerySchema = searchQuerySchema.extend({ zoom: mapZoomSchema });
+
+/** POST /api/search/clusters: search body plus zoom. */
+export const searchClustersBodySchema = searchBodySchema.extend({ zoom: mapZoomSchema });
+
+const analyticsDateSchema = z
+  .string()
+  .trim()
+  .refine((v) => !Number.isNaN(Date.parse(v)), 'Invalid date (use YYYY-MM-DD or ISO 8601)');
+
+/** GET /api/admin/search/analytics: from/to default to the last 7 days in the route. */
+export const searchAnalyticsQuerySchema = z
+  .object({
+    from: analyticsDateSchema.optional(),
+    to: analyticsDateSchema.optional(),
+    purpose: z.string().trim().min(1).max(50).optional(),
+    countryId: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+// Search synonyms (admin)
+export const searchSynonymIdSchema = z.object({
+  id: z.coerce.number().int().min(1),
+});
+
+const synonymTermSchema = z.string().trim().min(1).max(200);
+const synonymTermsSchema = z.array(synonymTermSchema).min(1).max(50);
+
+/** root set → one-way (root also matches synonyms); root null → synonyms are interchangeable (2+). */
+export const createSearchSynonymSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .min(1)
+      .max(100)
+      .regex(/^[a-z0-9][a-z0-9_-]*$/, 'key may only contain lowercase letters, digits, - and _'),
+    root: synonymTermSchema.nullable().optional(),
+    synonyms: synonymTermsSchema,
+    isActive: z.boolean().optional(),
+  })
+  .strict()
+  .refine((v) => v.root || v.synonyms.length >= 2, {
+    message: 'Multi-way synonyms need at least two terms',
+    path: ['synonyms'],
+  });
+
+/** The root/synonyms combination is re-checked against the stored row in the route. */
+export const updateSearchSynonymSchema = z
+  .object({
+    root: synonymTermSchema.nullable().optional(),
+    synonyms: synonymTermsSchema.optional(),
+    isActive: z.boolean().optional(),
+  })
+  .strict()
+  .refine((v) => Object.values(v).some((x) => x !== undefined), {
+    message: 'At least one field is required',
+  });
+
+// Search merchandising rules (admin)
+export const merchandisingRuleIdSchema = z.object({
+  id: z.coerce.number().int().min(1),
+});
+
+const merchandisingRuleFields = {
+  name: z.string().trim().min(1).max(200),
+  /** Phrase matched against the search text (q, location, keywords), case-insensitive. */
+  matchQuery: z.string().trim().min(1).max(200).nullable().optional(),
+  /** Location key (as in locationIds) the search must filter on. */
+  matchLocationId: z.string().trim().min(1).max(200).nullable().optional(),
+  countryId: z.number().int().min(1).nullable().optional(),
+  purpose: z.string().trim().min(1).max(50).nullable().optional(),
+  /** In order: the first id is pinned to position 1. */
+  pinnedPropertyIds: z.array(z.number().int().min(1)).max(20).optional(),
+  hiddenPropertyIds: z.array(z.number().int().min(1)).max(100).optional(),
+  priority: z.number().int().min(-1000).max(1000).optional(),
+  startsAt: analyticsDateSchema.nullable().optional(),
+  endsAt: analyticsDateSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+/** Match / action / schedule consistency is checked in the route (also against the stored rule on PATCH). */
+export const createMerchandisingRuleSchema = z.object(merchandisingRuleFields).strict();
+
+export const updateMerchandisingRuleSchema = z
+  .object({ ...merchandisingRuleFields, name: merchandisingRuleFields.name.optional() })
+  .strict()
+  .refine((v) => Object.values(v).some((x) => x !== undefined), {
+    message: 'At least one field is required',
+  });
+
 export const onboardingPreferencesSchema = z
   .object({
     preferredBedroomsMin: z.number().int().min(0).optional(),
@@ -8,6 +8,8 @@ export interface User {
   last_login: string | null;
   is_active: boolean;
   preferred_language_code: string | null;
+  /** Emails about price/status changes on liked properties */
+  favourite_alerts_enabled: boolean;
   created_at: string;
   updated_at: string;
 }
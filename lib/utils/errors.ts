@@ -74,9 +74,17 @@ export function createPaginatedResponse<T>(
   page: number,
   limit: number,
   total?: number | null,
-  meta?: Record<string, unknown>
+  meta?: Record<string, unknown>,
+  /** Opaque cursor for the next page (cursor-paginated endpoints); null on the last page. */
+  nextCursor?: string | null
 ): NextResponse {
-  const pagination: { page: number; limit: number; total?: number; totalPages?: number } = {
+  const pagination: {
+    page: number;
+    limit: number;
+    total?: number;
+    totalPages?: number;
+    nextCursor?: string | null;
+  } = {
     page,
     limit,
   };
@@ -84,6 +92,9 @@ export function createPaginatedResponse<T>(
     pagination.total = total;
     pagination.totalPages = Math.ceil(total / limit);
   }
+  if (nextCursor !== undefined) {
+    pagination.nextCursor = nextCursor;
+  }
   const body: {
     data: T[];
     pagination: typeof pagination;
@@ -9,6 +9,7 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
 import { Pool } from 'https://deno.land/x/postgres@v0.17.0/mod.ts';
 
+// Fallbacks when master.COUNTRY_SETTINGS has no row for the config's scope
 const DEFAULT_COUNTRY_ID = 1;
 const DEFAULT_CURRENCY_ID = 1;
 const DEFAULT_LANG = 'en';
@@ -31,7 +32,22 @@ type ConfigRow = {
 type OptionItem = { value: string | number; label: string };
 type RangeResult = { min: number; max: number } | null;
 
-function humanizeCompletionStatus(v: string): string {
+/** PROPERTY_DETAILS columns exposed as range filters, keyed by filter config id. */
+const DETAIL_RANGE_COLUMNS = {
+  parking: 'parking_spaces',
+  floor: 'floor_number',
+  totalFloors: 'total_floors',
+  yearBuilt: 'year_built',
+} as const;
+type DetailRangeFilterId = keyof typeof DETAIL_RANGE_COLUMNS;
+
+/** Same key typesense-sync indexes as furnishing_status ("Semi-Furnished" → semi_furnished). */
+const FURNISHING_KEY_SQL = `NULLIF(
+  btrim(regexp_replace(lower(btrim(p.furnishing_status)), '[^a-z0-9]+', '_', 'g'), '_'),
+  ''
+)`;
+
+function humanizeStatusKey(v: string): string {
   if (!v) return v;
   return v.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
 }
@@ -39,9 +55,20 @@ function humanizeCompletionStatus(v: string): string {
 async function getAllActiveConfigs(pool: Pool): Promise<ConfigRow[]> {
   const client = await pool.connect();
   try {
+    // Unscoped configs take the default country and that country's currency from COUNTRY_SETTINGS
     const res = await client.queryObject<ConfigRow>(
-      `SELECT config_id, purpose_key, country_id, currency_id, language_code, config_json
-       FROM master.SEARCH_FILTER_CONFIGS WHERE is_active = TRUE ORDER BY config_id`
+      `SELECT c.config_id, c.purpose_key, scope.country_id,
+              COALESCE(c.currency_id, cs.default_currency_id) AS currency_id,
+              c.language_code, c.config_json
+       FROM master.SEARCH_FILTER_CONFIGS c
+       CROSS JOIN LATERAL (
+         SELECT COALESCE(
+           c.country_id,
+           (SELECT d.country_id FROM master.COUNTRY_SETTINGS d WHERE d.is_default LIMIT 1)
+         ) AS country_id
+       ) scope
+       LEFT JOIN master.COUNTRY_SETTINGS cs ON cs.country_id = scope.country_id
+       WHERE c.is_active = TRUE ORDER BY c.config_id`
     );
     return res.rows;
   } finally {
@@ -91,12 +118,32 @@ async function getCompletionOptions(
   );
   const rest = res.rows.map((r) => ({
     value: r.completion_status,
-    label: humanizeCompletionStatus(r.completion_status),
+    label: humanizeStatusKey(r.completion_status),
   }));
   if (rest.length === 0) return [];
   return [{ value: 'all', label: 'All' }, ...rest];
 }
 
+async function getFurnishingOptions(
+  client: any,
+  purposeKey: string,
+  countryId: number | null
+): Promise<OptionItem[]> {
+  const res = await client.queryObject<{ furnishing_key: string }>(
+    `SELECT DISTINCT ${FURNISHING_KEY_SQL} AS furnishing_key FROM property.PROPERTIES p
+     JOIN property.PURPOSES pur ON p.purpose_id = pur.purpose_id
+     JOIN property.LOCATIONS l ON p.location_id = l.location_id
+     WHERE pur.purpose_key = $1 AND ${FURNISHING_KEY_SQL} IS NOT NULL
+       AND ($2::int IS NULL OR l.country_id = $2)
+     ORDER BY furnishing_key`,
+    [purposeKey, countryId]
+  );
+  return res.rows.map((r) => ({
+    value: r.furnishing_key,
+    label: humanizeStatusKey(r.furnishing_key),
+  }));
+}
+
 async function getPropertyTypes(client: any, lang: string): Promise<OptionItem[]> {
   const res = await client.queryObject<{ type_id: number; label: string }>(
     `SELECT type_id, COALESCE(name_translations->>$1, name_translations->>'en') AS label
@@ -156,6 +203,31 @@ async function getAreaRange(
   return { min, max };
 }
 
+async function getDetailRange(
+  client: any,
+  filterId: DetailRangeFilterId,
+  purposeKey: string,
+  countryId: number | null
+): Promise<RangeResult> {
+  const column = DETAIL_RANGE_COLUMNS[filterId];
+  const res = await client.queryObject<{ min_val: number | null; max_val: number | null }>(
+    `SELECT MIN(pd.${column}) AS min_val, MAX(pd.${column}) AS max_val
+     FROM property.PROPERTY_DETAILS pd
+     JOIN property.PROPERTIES p ON pd.property_id = p.property_id
+     JOIN property.PURPOSES pur ON p.purpose_id = pur.purpose_id
+     JOIN property.LOCATIONS l ON p.location_id = l.location_id
+     WHERE pur.purpose_key = $1 AND pd.${column} IS NOT NULL
+       AND ($2::int IS NULL OR l.country_id = $2)`,
+    [purposeKey, countryId]
+  );
+  const row = res.rows[0];
+  if (!row || row.min_val == null || row.max_val == null) return null;
+  const min = Number(row.min_val);
+  const max = Number(row.max_val);
+  if (Number.isNaN(min) || Number.isNaN(max) || min > max) return null;
+  return { min, max };
+}
+
 async function getFeatures(
   client: any,
   purposeKey: string,
@@ -205,6 +277,11 @@ async function fetchOptionsForScope(
     areaRange,
     featureOptions,
     keywordOptions,
+    furnishingOptions,
+    parkingRange,
+    floorRange,
+    totalFloorsRange,
+    yearBuiltRange,
   ] = await Promise.all([
     getPropertyCount(client, purposeKey, countryId, lang),
     getCompletionOptions(client, purposeKey, countryId),
@@ -213,6 +290,11 @@ async function fetchOptionsForScope(
     getAreaRange(client, purposeKey, countryId),
     getFeatures(client, purposeKey, countryId, lang),
     getKeywords(client),
+    getFurnishingOptions(client, purposeKey, countryId),
+    getDetailRange(client, 'parking', purposeKey, countryId),
+    getDetailRange(client, 'floor', purposeKey, countryId),
+    getDetailRange(client, 'totalFloors', purposeKey, countryId),
+    getDetailRange(client, 'yearBuilt', purposeKey, countryId),
   ]);
 
   return {
@@ -223,6 +305,13 @@ async function fetchOptionsForScope(
     areaRange,
     featureOptions,
     keywordOptions,
+    furnishingOptions,
+    detailRanges: {
+      parking: parkingRange,
+      floor: floorRange,
+      totalFloors: totalFloorsRange,
+      yearBuilt: yearBuiltRange,
+    },
   };
 }
 
@@ -234,6 +323,8 @@ type MergedOpts = {
   areaRange: RangeResult;
   featureOptions: OptionItem[];
   keywordOptions: OptionItem[];
+  furnishingOptions: OptionItem[];
+  detailRanges: Record<DetailRangeFilterId, RangeResult>;
 };
 
 function mergeOptionsIntoConfig(
@@ -244,7 +335,17 @@ function mergeOptionsIntoConfig(
   const cfg = JSON.parse(JSON.stringify(config)) as Record<string, unknown>;
   const filtersIn = (cfg.filters as Record<string, unknown>[] | undefined) ?? [];
   const meta = cfg.meta as Record<string, unknown> | undefined;
-  const { countResult, completionOptions, propertyTypeOptions, priceRange, areaRange, featureOptions, keywordOptions } = opts;
+  const {
+    countResult,
+    completionOptions,
+    propertyTypeOptions,
+    priceRange,
+    areaRange,
+    featureOptions,
+    keywordOptions,
+    furnishingOptions,
+    detailRanges,
+  } = opts;
   const totalCount = countResult.count;
   const purposeLabel = countResult.purpose_label || purposeKey;
   if (meta && typeof meta === 'object') {
@@ -313,6 +414,24 @@ function mergeOptionsIntoConfig(
       case 'keyword':
         filter.options = keywordOptions;
         break;
+      case 'furnishingStatus':
+        if (furnishingOptions.length === 0) continue;
+        filter.options = furnishingOptions;
+        break;
+      case 'parking':
+      case 'floor':
+      case 'totalFloors':
+      case 'yearBuilt': {
+        const range = detailRanges[id as DetailRangeFilterId];
+        if (range) {
+          filter.min = range.min;
+          filter.max = range.max;
+          filter.defaultMin = range.min;
+          filter.defaultMax = range.max;
+          (filter as Record<string, unknown>).apiSample = [range.min, range.max];
+        }
+        break;
+      }
       default:
         break;
     }
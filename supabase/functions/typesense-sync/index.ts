@@ -34,6 +34,8 @@ const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
   default_sorting_field: 'updated_at',
   fields: [
     { name: 'property_id', type: 'string' },
+    // Numeric copy of property_id: stable tie-break for sort_by
+    { name: 'property_id_int', type: 'int64', sort: true, optional: true },
     { name: 'country_id', type: 'int32', facet: true },
     { name: 'purpose_id', type: 'int32', facet: true, optional: true },
     { name: 'purpose_key', type: 'string', facet: true, optional: true },
@@ -60,8 +62,14 @@ const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
     { name: 'area_sqft_str', type: 'string', optional: true },
     { name: 'area_sqm', type: 'float', facet: true, optional: true },
     { name: 'area_sqm_str', type: 'string', optional: true },
-    // Location search uses address text
+    // price / area in the listing currency (null when either is missing)
+    { name: 'price_per_sqm', type: 'float', sort: true, optional: true },
+    { name: 'price_per_sqft', type: 'float', sort: true, optional: true },
+    // Location search uses address text; exact location filter uses location_ids
     { name: 'address', type: 'string', optional: true },
+    { name: 'location_id', type: 'int32', facet: true, optional: true },
+    // Keys for every level (city / area / community), e.g. "1/dubai/dubai-marina" (property.LOCATION_KEYS)
+    { name: 'location_ids', type: 'string[]', facet: true, optional: true },
     // Feature IDs (filter by feature_ids); display keys in features
     { name: 'feature_ids', type: 'int32[]', facet: true, optional: true },
     { name: 'features', type: 'string[]', facet: true, optional: true },
@@ -72,9 +80,27 @@ const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
     { name: 'status', type: 'string', facet: true, optional: true },
     { name: 'completion_status', type: 'string', facet: true, optional: true },
     { name: 'is_off_plan', type: 'bool', facet: true, optional: true },
+    // Lowercase key of PROPERTIES.furnishing_status, e.g. "semi_furnished"
+    { name: 'furnishing_status', type: 'string', facet: true, optional: true },
+    // PROPERTY_DETAILS building / unit facts
+    { name: 'parking_spaces', type: 'int32', facet: true, optional: true },
+    { name: 'floor_number', type: 'int32', facet: true, optional: true },
+    { name: 'total_floors', type: 'int32', facet: true, optional: true },
+    { name: 'year_built', type: 'int32', facet: true, optional: true },
     { name: 'is_featured', type: 'bool', facet: true, optional: true },
     { name: 'featured_rank', type: 'int32', optional: true },
     { name: 'created_at', type: 'int64', sort: true, optional: true },
+    // Last price change (property.PROPERTY_HISTORY); 0 when never changed
+    { name: 'price_changed_at', type: 'int64', sort: true, optional: true },
+    { name: 'price_change_pct', type: 'float', sort: true, optional: true },
+    // Move-in date (UTC midnight, epoch seconds); 0 when unset = available now
+    { name: 'available_from', type: 'int64', sort: true, optional: true },
+    // for_rent only: price per year | month, paid in N cheques
+    { name: 'rent_frequency', type: 'string', facet: true, optional: true },
+    { name: 'number_of_cheques', type: 'int32', facet: true, optional: true },
+    // Upcoming open-house slots (epoch seconds), parallel arrays ordered by start
+    { name: 'open_house_starts', type: 'int64[]', optional: true },
+    { name: 'open_house_ends', type: 'int64[]', optional: true, index: false },
     // Must be non-optional because it's the default_sorting_field
     { name: 'updated_at', type: 'int64', sort: true },
     { name: 'title_en', type: 'string', optional: true },
@@ -99,6 +125,14 @@ const PROPERTIES_COLLECTION_SCHEMA: TypesenseCollectionSchema = {
     { name: 'all_thumbnail_urls', type: 'string[]', optional: true, index: false },
     { name: 'image_is_featured', type: 'int32[]', optional: true },
     { name: 'geo', type: 'geopoint', optional: true },
+    // Geohash of geo at each map-cluster precision (2–8): /api/search/clusters counts via facet_by
+    { name: 'geohash_2', type: 'string', facet: true, optional: true },
+    { name: 'geohash_3', type: 'string', facet: true, optional: true },
+    { name: 'geohash_4', type: 'string', facet: true, optional: true },
+    { name: 'geohash_5', type: 'string', facet: true, optional: true },
+    { name: 'geohash_6', type: 'string', facet: true, optional: true },
+    { name: 'geohash_7', type: 'string', facet: true, optional: true },
+    { name: 'geohash_8', type: 'string', facet: true, optional: true },
   ],
 };
 
@@ -147,6 +181,86 @@ function priceStr(
   return code ? `${num} ${num} ${code}` : num;
 }
 
+/** Price per unit of area (listing currency), 2 decimals; null when price or area is missing/zero. */
+function pricePerArea(
+  price: number | string | null | undefined,
+  area: number | string | null | undefined
+): number | null {
+  const p = Number(price);
+  const a = Number(area);
+  if (price == null || area == null || !Number.isFinite(p) || !Number.isFinite(a)) return null;
+  if (p <= 0 || a <= 0) return null;
+  return Math.round((p / a) * 100) / 100;
+}
+
+/** LOCATIONS latitude/longitude → Typesense geopoint [lat, lng]; null when either is missing. */
+function geoPoint(
+  latitude: number | string | null | undefined,
+  longitude: number | string | null | undefined
+): [number, number] | null {
+  if (latitude == null || longitude == null) return null;
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return [lat, lng];
+}
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const GEOHASH_MAX_PRECISION = 8;
+
+/** geohash_2 … geohash_8 prefixes of the point's geohash (same encoding as lib/search/geo.ts). */
+function geohashCells(point: [number, number] | null): Record<string, string | null> {
+  let hash = '';
+  if (point) {
+    const [lat, lng] = point;
+    let latMin = -90;
+    let latMax = 90;
+    let lngMin = -180;
+    let lngMax = 180;
+    let bits = 0;
+    let bitCount = 0;
+    let evenBit = true;
+    while (hash.length < GEOHASH_MAX_PRECISION) {
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (lng >= mid) {
+          bits = bits * 2 + 1;
+          lngMin = mid;
+        } else {
+          bits *= 2;
+          lngMax = mid;
+        }
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (lat >= mid) {
+          bits = bits * 2 + 1;
+          latMin = mid;
+        } else {
+          bits *= 2;
+          latMax = mid;
+        }
+      }
+      evenBit = !evenBit;
+      if (++bitCount === 5) {
+        hash += GEOHASH_BASE32[bits];
+        bits = 0;
+        bitCount = 0;
+      }
+    }
+  }
+  const cells: Record<string, string | null> = {};
+  for (let p = 2; p <= GEOHASH_MAX_PRECISION; p++) {
+    cells[`geohash_${p}`] = hash ? hash.slice(0, p) : null;
+  }
+  return cells;
+}
+
+/** City / area / community keys from property.LOCATION_KEYS (NULL levels dropped). */
+function locationIds(keys: (string | null)[] | null | undefined): string[] | null {
+  const out = (keys ?? []).filter((k): k is string => typeof k === 'string' && k.length > 0);
+  return out.length ? out : null;
+}
+
 function unwrapTitle(value: string | null | undefined): string | null {
   if (typeof value !== 'string') return null;
   const trimmed = value.trim();
@@ -182,7 +296,8 @@ async function tsFetch(path: string, init?: RequestInit): Promise<Response> {
   });
 }
 
-async function ensureCollection(schema: TypesenseCollectionSchema): Promise<void> {
+/** Creates or auto-patches the collection; true when it had to be created (fresh index). */
+async function ensureCollection(schema: TypesenseCollectionSchema): Promise<boolean> {
   const getRes = await tsFetch(`/collections/${encodeURIComponent(schema.name)}`, {
     method: 'GET',
   });
@@ -206,7 +321,7 @@ async function ensureCollection(schema: TypesenseCollectionSchema): Promise<void
         throw new Error(`Typesense patch collection failed: ${schema.name} (${patchRes.status}) ${text}`);
       }
     }
-    return;
+    return false;
   }
 
   if (getRes.status !== 404) {
@@ -222,6 +337,57 @@ async function ensureCollection(schema: TypesenseCollectionSchema): Promise<void
     const text = await createRes.text().catch(() => '');
     throw new Error(`Typesense create collection failed: ${schema.name} (${createRes.status}) ${text}`);
   }
+  return true;
+}
+
+/**
+ * Makes the collection's synonyms match master.SEARCH_SYNONYMS (managed via
+ * /api/admin/search/synonyms): upserts active rows, deletes every other synonym.
+ */
+async function syncSynonyms(pool: Pool, collection: string): Promise<{ upserted: number; deleted: number }> {
+  const client = await pool.connect();
+  let rows: { synonym_key: string; root: string | null; synonyms: string[] }[];
+  try {
+    const r = await client.queryObject<{ synonym_key: string; root: string | null; synonyms: string[] }>(
+      `SELECT synonym_key, root, synonyms FROM master.SEARCH_SYNONYMS WHERE is_active = TRUE`
+    );
+    rows = r.rows;
+  } finally {
+    client.release();
+  }
+
+  const base = `/collections/${encodeURIComponent(collection)}/synonyms`;
+  for (const row of rows) {
+    const res = await tsFetch(`${base}/${encodeURIComponent(row.synonym_key)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(row.root ? { root: row.root, synonyms: row.synonyms } : { synonyms: row.synonyms }),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`Typesense synonym upsert failed: ${row.synonym_key} (${res.status}) ${text}`);
+    }
+  }
+
+  const listRes = await tsFetch(base, { method: 'GET' });
+  if (!listRes.ok) {
+    const text = await listRes.text().catch(() => '');
+    throw new Error(`Typesense synonym list failed: ${collection} (${listRes.status}) ${text}`);
+  }
+  const current = ((await listRes.json()) as any).synonyms ?? [];
+  const keep = new Set(rows.map((row) => row.synonym_key));
+  let deleted = 0;
+  for (const syn of current) {
+    if (keep.has(syn.id)) continue;
+    const res = await tsFetch(`${base}/${encodeURIComponent(syn.id)}`, { method: 'DELETE' });
+    if (!res.ok && res.status !== 404) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`Typesense synonym delete failed: ${syn.id} (${res.status}) ${text}`);
+    }
+    deleted++;
+  }
+
+  return { upserted: rows.length, deleted };
 }
 
 async function ensureSyncTable(pool: Pool): Promise<void> {
@@ -286,6 +452,7 @@ async function setLastSyncCursor(pool: Pool, epochSeconds: number, propertyId: n
 type PropertyDoc = {
   id: string; // Typesense doc id
   property_id: string;
+  property_id_int: number;
   country_id: number;
   purpose_id: number | null;
   purpose_key: string | null;
@@ -312,7 +479,11 @@ type PropertyDoc = {
   area_sqft_str: string | null;
   area_sqm: number | null;
   area_sqm_str: string | null;
+  price_per_sqm: number | null;
+  price_per_sqft: number | null;
   address: string | null;
+  location_id: number | null;
+  location_ids: string[] | null;
   feature_ids: number[] | null;
   features: string[] | null;
   agent_id: number | null;
@@ -326,9 +497,21 @@ type PropertyDoc = {
   status: string | null;
   completion_status: string | null;
   is_off_plan: boolean | null;
+  furnishing_status: string | null;
+  parking_spaces: number | null;
+  floor_number: number | null;
+  total_floors: number | null;
+  year_built: number | null;
   is_featured: boolean;
   featured_rank: number;
   created_at: number;
+  price_changed_at: number;
+  price_change_pct: number;
+  available_from: number;
+  rent_frequency: string | null;
+  number_of_cheques: number | null;
+  open_house_starts: number[] | null;
+  open_house_ends: number[] | null;
   updated_at: number;
   title_en: string | null;
   title_ar: string | null;
@@ -345,6 +528,14 @@ type PropertyDoc = {
   all_media_types: string[] | null;
   all_thumbnail_urls: string[] | null;
   image_is_featured: number[] | null;
+  geo: [number, number] | null;
+  geohash_2: string | null;
+  geohash_3: string | null;
+  geohash_4: string | null;
+  geohash_5: string | null;
+  geohash_6: string | null;
+  geohash_7: string | null;
+  geohash_8: string | null;
 };
 
 type MediaJsonRow = {
@@ -515,6 +706,19 @@ async function deleteDocs(ids: string[]): Promise<void> {
   }
 }
 
+/**
+ * Rebuilds location suggest names and active listing counts (property.LOCATION_SUGGEST_NODES,
+ * Doc/migrations/2026-10-18_location_suggest.sql) so /api/locations/suggest never aggregates listings.
+ */
+async function refreshLocationSuggestNodes(pool: Pool): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.queryObject(`REFRESH MATERIALIZED VIEW CONCURRENTLY property.LOCATION_SUGGEST_NODES`);
+  } finally {
+    client.release();
+  }
+}
+
 serve(async (req) => {
   try {
     // allow scheduler GET/POST
@@ -542,10 +746,16 @@ serve(async (req) => {
     let cursorTime = initialCursorTime;
     let cursorId = initialCursorId;
     let totalUpserted = 0;
+    let totalDeleted = 0;
     let maxSeenTime = initialCursorTime;
 
     // Ensure properties collection exists before first import
-    await ensureCollection(PROPERTIES_COLLECTION_SCHEMA);
+    const collectionCreated = await ensureCollection(PROPERTIES_COLLECTION_SCHEMA);
+
+    // Re-apply admin-managed synonyms on full syncs and after the collection was (re)created
+    const synonyms = force || collectionCreated
+      ? await syncSynonyms(pool, PROPERTIES_COLLECTION_SCHEMA.name)
+      : null;
 
     // Delete from Typesense any properties whose agent or agency status is not active
     const cleanupRes = await pool.connect().then(async (client) => {
@@ -572,7 +782,7 @@ serve(async (req) => {
       let toDelete: string[] = [];
       const client = await pool.connect();
       try {
-        // Location: property.address only; LOCATIONS optional (country_id default 1 when null).
+        // Location: property.address text plus LOCATION_KEYS level keys; LOCATIONS optional (country_id default 1 when null).
         // Features: PROPERTY_DETAILS.feature_ids; features (keys) derived for display.
         const result = await client.queryObject<{
           property_id: number;
@@ -598,6 +808,8 @@ serve(async (req) => {
           area_sqft: number | null;
           area_sqm: number | null;
           address: string | null;
+          location_id: number | null;
+          location_keys: (string | null)[] | null;
           feature_ids: number[] | null;
           features: string[] | null;
           agent_id: number | null;
@@ -613,15 +825,29 @@ serve(async (req) => {
           status: string | null;
           completion_status: string | null;
           is_off_plan: boolean | null;
+          furnishing_status: string | null;
+          parking_spaces: number | null;
+          floor_number: number | null;
+          total_floors: number | null;
+          year_built: number | null;
           is_featured: boolean;
           featured_rank: number | null;
           created_at: string;
+          price_changed_at: string | null;
+          price_change_pct: number | string | null;
+          available_from: string | null;
+          rent_frequency: string | null;
+          number_of_cheques: number | null;
+          open_house_starts: (number | string)[] | null;
+          open_house_ends: (number | string)[] | null;
           updated_at: string;
           title_en: string | null;
           title_ar: string | null;
           city_en: string | null;
           area_en: string | null;
           community_en: string | null;
+          latitude: number | string | null;
+          longitude: number | string | null;
           media_json: MediaJsonRow[] | string | null;
           updated_epoch: number | bigint;
         }>(
@@ -629,7 +855,10 @@ serve(async (req) => {
           WITH base AS (
             SELECT
               p.property_id,
-              COALESCE(l.country_id, 1) AS country_id,
+              COALESCE(
+                l.country_id,
+                (SELECT cs.country_id FROM master.COUNTRY_SETTINGS cs WHERE cs.is_default LIMIT 1)
+              ) AS country_id,
               p.purpose_id,
               pur.purpose_key,
               (p.property_type_ids)[1] AS property_type_id,
@@ -651,6 +880,8 @@ serve(async (req) => {
               COALESCE(pd.area_sqm, pd.area_sqft / 10.7639) AS area_sqm,
               COALESCE(pd.area_sqft, pd.area_sqm * 10.7639) AS area_sqft,
               p.address,
+              p.location_id,
+              ARRAY[lk.city_key, lk.area_key, lk.community_key] AS location_keys,
               pd.feature_ids AS feature_ids,
               a.agent_id,
               ag.agency_id AS agency_id,
@@ -665,9 +896,25 @@ serve(async (req) => {
               p.status,
               p.completion_status,
               p.is_off_plan,
+              NULLIF(
+                btrim(regexp_replace(lower(btrim(p.furnishing_status)), '[^a-z0-9]+', '_', 'g'), '_'),
+                ''
+              ) AS furnishing_status,
+              pd.parking_spaces,
+              pd.floor_number,
+              pd.total_floors,
+              pd.year_built,
               COALESCE(p.is_featured, FALSE) AS is_featured,
               p.featured_rank AS featured_rank,
               p.created_at,
+              last_pc.changed_at AS price_changed_at,
+              ROUND(
+                ((last_pc.price - last_pc.previous_price) / NULLIF(last_pc.previous_price, 0) * 100)::numeric,
+                2
+              ) AS price_change_pct,
+              to_char(p.available_from, 'YYYY-MM-DD') AS available_from,
+              p.rent_frequency,
+              p.number_of_cheques,
               GREATEST(
                 p.updated_at,
                 COALESCE(pd.updated_at, p.updated_at),
@@ -687,9 +934,12 @@ serve(async (req) => {
               END AS title_ar,
               l.translations->'en'->>'city' AS city_en,
               l.translations->'en'->>'area' AS area_en,
-              l.translations->'en'->>'community' AS community_en
+              l.translations->'en'->>'community' AS community_en,
+              l.latitude,
+              l.longitude
             FROM property.PROPERTIES p
             LEFT JOIN property.LOCATIONS l ON l.location_id = p.location_id
+            LEFT JOIN property.LOCATION_KEYS lk ON lk.location_id = p.location_id
             LEFT JOIN property.PROPERTY_DETAILS pd ON pd.property_id = p.property_id
             LEFT JOIN property.PURPOSES pur ON pur.purpose_id = p.purpose_id
             LEFT JOIN master.CURRENCIES cur ON cur.currency_id = p.currency_id
@@ -722,10 +972,22 @@ serve(async (req) => {
               FROM unnest(COALESCE(resolved_mpt.main_property_type_ids, '{}')) AS mid
               JOIN property.MAIN_PROPERTY_TYPES mpt ON mpt.main_type_id = mid
             ) mpt_all ON TRUE
+            LEFT JOIN LATERAL (
+              SELECT h.changed_at, h.price, h.previous_price
+              FROM property.PROPERTY_HISTORY h
+              WHERE h.property_id = p.property_id
+                AND h.previous_price IS NOT NULL
+                AND h.price IS NOT NULL
+                AND h.price <> h.previous_price
+              ORDER BY h.changed_at DESC, h.history_id DESC
+              LIMIT 1
+            ) last_pc ON TRUE
           )
           SELECT
             b.*,
             feats.features,
+            open_houses.open_house_starts,
+            open_houses.open_house_ends,
             media.media_json,
             EXTRACT(
               EPOCH FROM GREATEST(
@@ -740,6 +1002,14 @@ serve(async (req) => {
               JOIN property.FEATURES f ON f.feature_id = fid
             ) AS features
           ) feats ON TRUE
+          LEFT JOIN LATERAL (
+            SELECT
+              ARRAY_AGG(EXTRACT(EPOCH FROM oh.starts_at)::bigint ORDER BY oh.starts_at) AS open_house_starts,
+              ARRAY_AGG(EXTRACT(EPOCH FROM oh.ends_at)::bigint ORDER BY oh.starts_at) AS open_house_ends
+            FROM property.PROPERTY_OPEN_HOUSES oh
+            WHERE oh.property_id = b.property_id
+              AND oh.ends_at > NOW() AT TIME ZONE 'UTC'
+          ) open_houses ON TRUE
           LEFT JOIN LATERAL (
             SELECT COALESCE(
               json_agg(
@@ -872,6 +1142,10 @@ serve(async (req) => {
             const featuredRank =
               typeof r.featured_rank === 'number' ? r.featured_rank : 2147483647;
             const createdAt = Math.floor(new Date(r.created_at).getTime() / 1000);
+            const priceChangedAt = r.price_changed_at
+              ? Math.floor(new Date(r.price_changed_at).getTime() / 1000)
+              : 0;
+            const isRent = r.purpose_key === 'for_rent';
             const updatedAt =
               typeof r.updated_epoch === 'bigint' ? Number(r.updated_epoch) : r.updated_epoch;
             const mainPropertyTypeIds = r.main_property_type_ids?.length
@@ -886,6 +1160,7 @@ serve(async (req) => {
             return {
               id: String(r.property_id),
               property_id: String(r.property_id),
+              property_id_int: Number(r.property_id),
               country_id: r.country_id,
               purpose_id: r.purpose_id,
               purpose_key: r.purpose_key,
@@ -919,7 +1194,11 @@ serve(async (req) => {
               area_sqm_str: areaSqmStr(
                 r.area_sqm !== null ? Number(r.area_sqm) : null
               ),
+              price_per_sqm: pricePerArea(r.price, r.area_sqm),
+              price_per_sqft: pricePerArea(r.price, r.area_sqft),
               address: r.address,
+              location_id: r.location_id ?? null,
+              location_ids: locationIds(r.location_keys),
               feature_ids: r.feature_ids ?? null,
               features: r.features ?? null,
               agent_id: r.agent_id,
@@ -933,15 +1212,31 @@ serve(async (req) => {
               status: r.status,
               completion_status: r.completion_status ?? null,
               is_off_plan: r.is_off_plan,
+              furnishing_status: r.furnishing_status ?? null,
+              parking_spaces: r.parking_spaces ?? null,
+              floor_number: r.floor_number ?? null,
+              total_floors: r.total_floors ?? null,
+              year_built: r.year_built ?? null,
               is_featured: Boolean(r.is_featured),
               featured_rank: featuredRank,
               created_at: createdAt,
+              price_changed_at: priceChangedAt,
+              price_change_pct: priceChangedAt ? Number(r.price_change_pct ?? 0) : 0,
+              available_from: r.available_from
+                ? Math.floor(Date.parse(`${r.available_from}T00:00:00Z`) / 1000)
+                : 0,
+              rent_frequency: isRent ? r.rent_frequency ?? null : null,
+              number_of_cheques: isRent ? r.number_of_cheques ?? null : null,
+              open_house_starts: r.open_house_starts?.map(Number) ?? null,
+              open_house_ends: r.open_house_ends?.map(Number) ?? null,
               updated_at: updatedAt,
               title_en: unwrapTitle(r.title_en),
               title_ar: unwrapTitle(r.title_ar),
               city_en: r.city_en,
               area_en: r.area_en,
               community_en: r.community_en,
+              geo: geoPoint(r.latitude, r.longitude),
+              ...geohashCells(geoPoint(r.latitude, r.longitude)),
               ...buildMediaDocFields(r.media_json),
             };
           });
@@ -962,8 +1257,13 @@ serve(async (req) => {
       await importDocs(docs);
       totalUpserted += docs.length;
       if (toDelete.length > 0) await deleteDocs(toDelete);
+      totalDeleted += toDelete.length;
     }
 
+    // Listing counts only move when listings were written or removed
+    const locationSuggestRefreshed = force || totalUpserted > 0 || totalDeleted > 0 || cleanupRes.length > 0;
+    if (locationSuggestRefreshed) await refreshLocationSuggestNodes(pool);
+
     // Save final state before closing pool (so it's persisted when run completes)
     if (maxSeenTime > initialCursorTime || cursorId !== initialCursorId) {
       await setLastSyncCursor(pool, maxSeenTime, cursorId);
@@ -978,6 +1278,8 @@ serve(async (req) => {
         newLastSyncedAt: maxSeenTime,
         newLastPropertyId: cursorId,
         upserted: totalUpserted,
+        synonyms,
+        locationSuggestRefreshed,
       }),
       { headers: { 'Content-Type': 'application/json' } }
     );